@@ -0,0 +1,84 @@
+// AssemblyScript build of src/wasm/kernels.ts (`npm run build:wasm`). Results must match the JS
+// reference bit for bit, so the arithmetic mirrors it: f64 maths, f32 storage, same loop order.
+// Keep KERNEL_VERSION in step with the JS side; the loader refuses a mismatch.
+const KERNEL_VERSION: i32 = 1
+
+export function kernel_version(): i32 {
+  return KERNEL_VERSION
+}
+
+// Bump allocation over linear memory; the loader resets it before every kernel call.
+export function alloc(bytes: usize): usize {
+  return heap.alloc(bytes)
+}
+
+export function reset(): void {
+  heap.reset()
+}
+
+@inline
+function move(heights: usize, deposits: usize, changed: usize, cell: i32, amount: f64): void {
+  const h = heights + (<usize>cell << 2)
+  store<f32>(h, <f32>(<f64>load<f32>(h) + amount))
+  const d = deposits + (<usize>cell << 2)
+  store<f32>(d, <f32>max<f64>(0, <f64>load<f32>(d) + amount))
+  store<u8>(changed + <usize>cell, 1)
+}
+
+// heights, floor, deposits: f32 per cell; changed: u8 per cell; lonSpacings: f64 per row.
+export function talus(
+  heights: usize,
+  floor: usize,
+  deposits: usize,
+  changed: usize,
+  lonSpacings: usize,
+  rows: i32,
+  cols: i32,
+  latSpacing: f64,
+  slope: f64,
+  rate: f64,
+): void {
+  for (let row = 0; row < rows; row++) {
+    const spacing = load<f64>(lonSpacings + (<usize>row << 3))
+    for (let col = 0; col < cols; col++) {
+      const cell = row * cols + col
+      // neighbours in the JS order: north, south, west, east
+      for (let k = 0; k < 4; k++) {
+        const dr = k == 0 ? -1 : k == 1 ? 1 : 0
+        const dc = k == 2 ? -1 : k == 3 ? 1 : 0
+        const nRow = min<i32>(rows - 1, max<i32>(0, row + dr))
+        const nCol = (((col + dc) % cols) + cols) % cols
+        const n = nRow * cols + nCol
+        if (n == cell) continue
+        const limit = slope * (dr != 0 ? latSpacing : spacing)
+        const height = <f64>load<f32>(heights + (<usize>cell << 2))
+        const excess = height - <f64>load<f32>(heights + (<usize>n << 2)) - limit
+        if (excess <= 0) continue
+        const amount = min<f64>(excess * rate * 0.5, height - <f64>load<f32>(floor + (<usize>cell << 2)))
+        if (amount <= 0) continue
+        move(heights, deposits, changed, cell, -amount)
+        move(heights, deposits, changed, n, amount)
+      }
+    }
+  }
+}
+
+// normals: 3 × f32 per cell; target: f32 per cell.
+export function insolation(
+  normals: usize,
+  target: usize,
+  count: i32,
+  sunX: f64,
+  sunY: f64,
+  sunZ: f64,
+  irradiance: f64,
+  weight: f64,
+): void {
+  for (let cell = 0; cell < count; cell++) {
+    const normal = normals + <usize>cell * 12
+    const cosZenith =
+      <f64>load<f32>(normal) * sunX + <f64>load<f32>(normal, 4) * sunY + <f64>load<f32>(normal, 8) * sunZ
+    const t = target + (<usize>cell << 2)
+    store<f32>(t, <f32>(<f64>load<f32>(t) + max<f64>(0, cosZenith) * irradiance * weight))
+  }
+}
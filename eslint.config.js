@@ -1,14 +1,20 @@
 import js from '@eslint/js'
+import globals from 'globals'
 import reactHooks from 'eslint-plugin-react-hooks'
 import reactRefresh from 'eslint-plugin-react-refresh'
+import tseslint from 'typescript-eslint'
 
-export default [
+export default tseslint.config(
+  // build output (GitHub Pages), the compiled kernels and their AssemblyScript source, which asc checks
+  { ignores: ['docs', 'public', 'assembly'] },
   js.configs.recommended,
   {
     files: ['**/*.{ts,tsx}'],
+    extends: [tseslint.configs.recommended],
     languageOptions: {
       ecmaVersion: 2022,
       sourceType: 'module',
+      globals: globals.browser,
     },
     plugins: {
       'react-hooks': reactHooks,
@@ -19,4 +25,10 @@ export default [
       'react-refresh/only-export-components': ['warn', { allowConstantExport: true }],
     },
   },
-]
+  {
+    files: ['**/*.{js,mjs}'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
+)
@@ -0,0 +1,43 @@
+// Runs the headless checks in scripts/checks/ against the app's own TypeScript, loaded through Vite's
+// SSR module loader (no browser, no build). Each check module's default export throws to fail; it
+// gets a CheckContext (scripts/checks/context.ts) for what the app code can't do in Node.
+// Exits with 1 when any check fails.
+import { readFile, readdir } from 'node:fs/promises'
+import { fileURLToPath } from 'node:url'
+import { createServer } from 'vite'
+
+const root = fileURLToPath(new URL('..', import.meta.url))
+const only = process.argv.slice(2)
+const context = {
+  readFile: async (path) => new Uint8Array(await readFile(new URL(`../${path}`, import.meta.url))),
+}
+
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true },
+})
+
+let failures = 0
+try {
+  const files = (await readdir(new URL('./checks', import.meta.url)))
+    .filter((file) => file.endsWith('.ts') && file !== 'context.ts' && (only.length === 0 || only.some((name) => file.startsWith(name))))
+    .sort()
+  for (const file of files) {
+    const started = performance.now()
+    try {
+      const { default: check } = await server.ssrLoadModule(`/scripts/checks/${file}`)
+      const note = await check(context)
+      console.log(`ok    ${file} (${Math.round(performance.now() - started)} ms)${note ? `: ${note}` : ''}`)
+    } catch (error) {
+      failures++
+      console.error(`FAIL  ${file}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+} finally {
+  await server.close()
+}
+process.exitCode = failures > 0 ? 1 : 0
@@ -0,0 +1,46 @@
+import { VOXEL_SIZE } from '../../src/scene/constants'
+import { meshChunk, remeshChunks } from '../../src/scene/utils/chunkMesher'
+import type { ChunkMeshData, MeshedChunks } from '../../src/scene/utils/chunkMesher'
+import { applyEdit, createWorld } from '../../src/scene/world'
+import type { World } from '../../src/scene/world'
+
+// What TerrainVoxels draws (and sends to the physics worker) after each re-mesh, kept in step
+// the same way: a null update drops the chunk.
+function remesh(meshed: MeshedChunks, meshes: Map<number, ChunkMeshData>, world: World) {
+  for (const { key, data } of remeshChunks(meshed, world.terrain.store, VOXEL_SIZE)) {
+    if (data) meshes.set(key, data)
+    else meshes.delete(key)
+  }
+}
+
+function sameMesh(a: ChunkMeshData, b: ChunkMeshData) {
+  return a.indices.length === b.indices.length && a.positions.every((value, i) => value === b.positions[i])
+}
+
+// Swapping worlds must leave exactly the new world's chunks, each meshed from the new voxels.
+export default function checkChunks() {
+  const meshed: MeshedChunks = { store: null, keys: new Set() }
+  const meshes = new Map<number, ChunkMeshData>()
+  const first = createWorld(1)
+  remesh(meshed, meshes, first)
+  applyEdit(first, { type: 'dig', cell: [0, 0, 19] })
+  remesh(meshed, meshes, first)
+  const before = new Set(meshes.keys())
+
+  const second = createWorld(2)
+  remesh(meshed, meshes, second)
+  const { store } = second.terrain
+  const n = store.chunksPerAxis
+  const expected = new Map(
+    store.chunks.filter((chunk) => chunk.solidCount > 0).map((chunk) => [(chunk.cx * n + chunk.cy) * n + chunk.cz, chunk]),
+  )
+  const left = Array.from(meshes.keys()).filter((key) => !expected.has(key))
+  if (left.length > 0) throw new Error(`${left.length} chunks do seed 1 continuam depois da troca (${left.join(', ')})`)
+  for (const [key, chunk] of expected) {
+    const mesh = meshes.get(key)
+    if (!mesh) throw new Error(`chunk ${key} do seed 2 sem malha`)
+    if (!sameMesh(mesh, meshChunk(store, chunk, VOXEL_SIZE))) throw new Error(`chunk ${key} com a malha do seed 1`)
+  }
+  const dropped = Array.from(before).filter((key) => !expected.has(key)).length
+  return `${expected.size} chunks depois da troca, ${dropped} do seed 1 removidos`
+}
@@ -0,0 +1,5 @@
+// What scripts/check.mjs hands every check
+export type CheckContext = {
+  // a file's bytes, by its path from the repository root
+  readFile: (path: string) => Promise<Uint8Array<ArrayBuffer>>
+}
@@ -0,0 +1,116 @@
+import { LAT_STEPS, LON_STEPS, PLANET_RADIUS } from '../../src/scene/constants'
+import { generatePlanet } from '../../src/scene/generation/generatePlanet'
+import { sunDirection } from '../../src/scene/systems/solar'
+import { cellDirection, cellIndex } from '../../src/scene/utils/planet'
+import { mulberry32 } from '../../src/scene/utils/rng'
+import { KERNEL_VERSION, jsKernels } from '../../src/wasm/kernels'
+import type { Kernels, TalusParams } from '../../src/wasm/kernels'
+import { compileKernels } from '../../src/wasm/loader'
+import type { CheckContext } from './context'
+
+// The committed public/wasm/kernels.wasm against the JS reference kernels, bit for bit, on fixed
+// inputs: seeded grids with edge-case parameters and the planet's own heightfield and cell normals.
+
+type TalusCase = { name: string; heights: Float32Array; floor: Float32Array; params: TalusParams; sweeps: number }
+type InsolationCase = { name: string; normals: Float32Array; target: Float32Array; sun: number[]; weight: number }
+
+function firstDifference(a: Float32Array | Uint8Array, b: Float32Array | Uint8Array) {
+  const x = new Uint8Array(a.buffer, a.byteOffset, a.byteLength)
+  const y = new Uint8Array(b.buffer, b.byteOffset, b.byteLength)
+  for (let i = 0; i < x.length; i++) if (x[i] !== y[i]) return Math.floor(i / a.BYTES_PER_ELEMENT)
+  return -1
+}
+
+function seededGrid(seed: number, rows: number, cols: number, talus: number, rate: number, slack: number): TalusCase {
+  const random = mulberry32(seed)
+  const heights = Float32Array.from({ length: rows * cols }, () => 14 + random() * 10)
+  return {
+    name: `grelha ${rows}×${cols} (seed ${seed}, talus ${talus}, rate ${rate})`,
+    heights,
+    floor: heights.map((h) => h - random() * slack),
+    params: { rows, cols, latSpacing: 0.5 + random(), lonSpacings: Float64Array.from({ length: rows }, () => 0.2 + random()), talus, rate },
+    sweeps: 4,
+  }
+}
+
+function planetCase(): TalusCase {
+  const { heights } = generatePlanet(1)
+  const latSpacing = (Math.PI * PLANET_RADIUS) / LAT_STEPS
+  return {
+    name: `planeta ${LAT_STEPS}×${LON_STEPS}`,
+    heights: heights.slice(),
+    floor: heights.map((h) => h - 2),
+    params: {
+      rows: LAT_STEPS,
+      cols: LON_STEPS,
+      latSpacing,
+      lonSpacings: Float64Array.from({ length: LAT_STEPS }, (_, row) => {
+        const lat = ((row + 0.5) / LAT_STEPS) * Math.PI - Math.PI / 2
+        return Math.max(0.2, ((2 * Math.PI * PLANET_RADIUS) / LON_STEPS) * Math.cos(lat))
+      }),
+      talus: 0.6,
+      rate: 0.5,
+    },
+    sweeps: 30,
+  }
+}
+
+function checkTalus(wasm: Kernels, { name, heights, floor, params, sweeps }: TalusCase) {
+  const cells = heights.length
+  const [a, b] = [jsKernels, wasm].map(() => ({ heights: heights.slice(), deposits: new Float32Array(cells), changed: new Uint8Array(cells) }))
+  for (let sweep = 0; sweep < sweeps; sweep++) {
+    jsKernels.talus(a.heights, floor, a.deposits, a.changed, params)
+    wasm.talus(b.heights, floor, b.deposits, b.changed, params)
+    for (const key of ['heights', 'deposits', 'changed'] as const) {
+      const at = firstDifference(a[key], b[key])
+      if (at >= 0) throw new Error(`talus, ${name}, passada ${sweep}: ${key}[${at}] JS ${a[key][at]} ≠ WASM ${b[key][at]}`)
+    }
+  }
+}
+
+function checkInsolation(wasm: Kernels, { name, normals, target, sun, weight }: InsolationCase) {
+  const [a, b] = [target.slice(), target.slice()]
+  jsKernels.insolation(normals, a, sun, 1361, weight)
+  wasm.insolation(normals, b, sun, 1361, weight)
+  const at = firstDifference(a, b)
+  if (at >= 0) throw new Error(`insolation, ${name}: [${at}] JS ${a[at]} ≠ WASM ${b[at]}`)
+}
+
+export default async function checkKernels({ readFile }: CheckContext) {
+  const wasm = await compileKernels(await readFile('public/wasm/kernels.wasm'))
+  if (typeof wasm === 'string') throw new Error(wasm)
+
+  const talusCases = [
+    seededGrid(1, 8, 16, 1.2, 0.25, 3),
+    seededGrid(2, 1, 32, 0.8, 0.5, 3),
+    seededGrid(3, 12, 7, 0, 1, 10),
+    // floor at the surface: nothing may move
+    seededGrid(4, 6, 6, 0.5, 0.5, 0),
+    planetCase(),
+  ]
+  talusCases.forEach((test) => checkTalus(wasm, test))
+
+  const cells = LAT_STEPS * LON_STEPS
+  const planetNormals = new Float32Array(cells * 3)
+  for (let row = 0; row < LAT_STEPS; row++) {
+    for (let col = 0; col < LON_STEPS; col++) planetNormals.set(cellDirection(row, col), cellIndex(row, col) * 3)
+  }
+  const random = mulberry32(KERNEL_VERSION)
+  const insolationCases: InsolationCase[] = [0, 6, 9.5, 12, 18, 23.75].map((hours) => ({
+    name: `planeta às ${hours} h`,
+    normals: planetNormals,
+    target: new Float32Array(cells),
+    sun: sunDirection(hours),
+    weight: 1,
+  }))
+  insolationCases.push({
+    name: 'normais aleatórias',
+    normals: Float32Array.from({ length: 300 }, () => random() * 2 - 1),
+    target: Float32Array.from({ length: 100 }, () => random() * 100),
+    sun: [random() - 0.5, random() - 0.5, random() - 0.5],
+    weight: 0.37,
+  })
+  insolationCases.forEach((test) => checkInsolation(wasm, test))
+
+  return `talus em ${talusCases.length} casos, insolation em ${insolationCases.length}`
+}
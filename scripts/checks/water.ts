@@ -0,0 +1,25 @@
+import { addWater, createWaterField, stepWater } from '../../src/scene/systems/water'
+import { MATERIAL } from '../../src/scene/utils/materials'
+import { createHeightField } from '../../src/scene/utils/planet'
+import { createVoxelStore, setVoxel } from '../../src/scene/utils/voxelStore'
+
+const POURED = 5
+
+// Water poured into a roofed tunnel three voxels long, more than it can hold: the excess has
+// nowhere to go, so it must wait in the tunnel rather than vanish.
+export default function checkWater() {
+  const store = createVoxelStore(32)
+  for (let x = -16; x < 16; x++) {
+    for (let y = -16; y < 16; y++) {
+      for (let z = -16; z < 16; z++) setVoxel(store, x, y, z, MATERIAL.granite)
+    }
+  }
+  // x is the down axis out here, so the tunnel runs along the tangent plane
+  for (let z = -1; z <= 1; z++) setVoxel(store, 10, 0, z, MATERIAL.air)
+  const field = createWaterField(store, createHeightField(), 0)
+  addWater(field, store, [10, 0, 0], POURED)
+  for (let step = 0; step < 200; step++) stepWater(field, store)
+  const total = field.volume.reduce((sum, volume) => sum + volume, 0)
+  if (Math.abs(total - POURED) > 1e-3) throw new Error(`${POURED} de água sob o teto viraram ${total.toFixed(3)}`)
+  return `${total.toFixed(3)} de ${POURED} sob o teto`
+}
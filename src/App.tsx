@@ -1,16 +1,301 @@
-import { Suspense, lazy, useState } from 'react'
+import { Suspense, lazy, useEffect, useState } from 'react'
 import type { ComponentType, LazyExoticComponent } from 'react'
+import CoreLogPanel from './CoreLogPanel'
+import { download } from './download'
+import { listSlots, nextAutosaveSlot, readSlot, writeSlot } from './saveSlots'
+import type { SaveSlot } from './saveSlots'
 import type { GeoSceneProps } from './scene/GeoScene'
+import type { SolarReport } from './scene/Sky'
+import type { WeatherReport } from './scene/Weather'
+import type { WeatherState } from './scene/systems/weather'
+import { DEFAULT_EROSION_ITERATIONS, GENERATOR_VERSION, PLANET_RADIUS, SEA_LEVEL, WORLD_SIZE } from './scene/constants'
+import { DEFAULT_HEIGHTMAP_IMPORT, readHeightmap, resampleHeightmap } from './scene/generation/heightmap'
+import type { Heightmap, ImportedTerrain } from './scene/generation/heightmap'
+import { importedHeights, parseSave } from './scene/save'
+import type { WorldSave } from './scene/save'
+import { TIME_SCALES } from './scene/systems/scheduler'
+import type { CollapseEvent } from './scene/systems/structure'
+import { DEFAULT_TOOL_OPTIONS } from './scene/tools'
+import type { SceneTool, ToolOptions } from './scene/tools'
+import type { CoreMode, CoreSample, SavedCore } from './scene/utils/coring'
+import type { CollapseStyle } from './scene/utils/debris'
+import type { ExportFile, ExportFormat, ExportRegion, ExportRequest } from './scene/utils/meshExport'
+import { MATERIALS, UNBREAKABLE_HARDNESS } from './scene/utils/materials'
+import { DEFAULT_SECTION } from './scene/utils/section'
+import type { SectionAxis, SectionPlane } from './scene/utils/section'
+import { getKernelBackend, loadKernels } from './wasm/loader'
 import './App.css'
 
 const GeoScene = lazy(() => import('./scene/GeoScene')) as LazyExoticComponent<
   ComponentType<GeoSceneProps>
 >
 
+// real milliseconds between autosaves while the simulation runs
+const AUTOSAVE_INTERVAL = 60_000
+
+function randomSeed() {
+  return Math.floor(Math.random() * 1_000_000_000)
+}
+
+// live erosion rates, in iterations per second
+const EROSION_SPEEDS = [0, 1, 5]
+
+// simulated hours per simulated second: frozen sun, a day in 2 minutes, a day in 12 seconds (at 1×)
+const DAY_SPEEDS = [
+  { rate: 0, label: 'Sol parado' },
+  { rate: 0.2, label: 'Dia 2 min' },
+  { rate: 2, label: 'Dia 12 s' },
+]
+
+function formatHour(hour: number) {
+  const minutes = Math.floor(hour * 60)
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+const WEATHER_NAMES: Record<WeatherState, string> = {
+  clear: 'Céu limpo',
+  rain: 'Chuva',
+  storm: 'Tempestade',
+}
+
+const CAMERA_HINTS: Record<GeoSceneProps['cameraMode'], string> = {
+  first: '1ª pessoa',
+  iso: 'isométrica (arraste + scroll)',
+  section: 'corte (arraste + scroll)',
+}
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'gltf', label: 'glTF (PBR)' },
+  { format: 'obj', label: 'OBJ + MTL' },
+  { format: 'stl', label: 'STL (impressão)' },
+]
+
+// the whole voxel grid, as the crop starts out
+const WORLD_REGION: ExportRegion = {
+  min: [-WORLD_SIZE / 2, -WORLD_SIZE / 2, -WORLD_SIZE / 2],
+  max: [WORLD_SIZE / 2 - 1, WORLD_SIZE / 2 - 1, WORLD_SIZE / 2 - 1],
+}
+
+const SECTION_AXES: { axis: SectionAxis; label: string }[] = [
+  { axis: 'x', label: 'X' },
+  { axis: 'y', label: 'Y' },
+  { axis: 'z', label: 'Z' },
+  { axis: 'custom', label: 'Livre' },
+]
+
+const COMPASS = ['N', 'NE', 'L', 'SE', 'S', 'SO', 'O', 'NO']
+
+// tool palette, in the order it is shown
+const TOOLS: { tool: SceneTool; label: string; title: string }[] = [
+  { tool: 'dig', label: 'Cavar', title: 'Remove o voxel apontado (qualquer material, menos rocha-mãe)' },
+  { tool: 'place', label: 'Colocar', title: 'Coloca um voxel do material escolhido na face apontada' },
+  { tool: 'drill', label: 'Perfurar', title: 'Perfura a rocha apontada, camada por camada' },
+  { tool: 'fill', label: 'Preencher', title: 'Preenche uma caixa ou esfera com o material escolhido' },
+  { tool: 'flatten', label: 'Aplainar', title: 'Nivela o terreno em volta na altura do voxel apontado' },
+  { tool: 'vent', label: 'Lava', title: 'Clique no terreno para abrir uma fonte de lava' },
+  { tool: 'water', label: 'Água', title: 'Clique no terreno para despejar água' },
+  { tool: 'core', label: 'Testemunho', title: 'Clique no terreno para extrair um testemunho de sondagem' },
+]
+
+const TOOL_HINTS: Record<SceneTool, string> = {
+  dig: 'cavar',
+  place: 'colocar voxel',
+  drill: 'perfurar rocha',
+  fill: 'preencher região',
+  flatten: 'aplainar',
+  vent: 'abrir fonte de lava',
+  water: 'despejar água',
+  core: 'extrair testemunho',
+}
+
+// what the place and fill tools can put down: every material but bedrock
+const PLACEABLE = Object.entries(MATERIALS)
+  .filter(([, info]) => info.hardness < UNBREAKABLE_HARDNESS)
+  .map(([id, info]) => ({ id: Number(id), name: info.name }))
+
 export default function App() {
   const [isRunning, setIsRunning] = useState(false)
-  const [seed, setSeed] = useState(() => Math.floor(Math.random() * 1_000_000_000))
-  const [cameraMode, setCameraMode] = useState<'first' | 'iso'>('first')
+  const [seed, setSeed] = useState(randomSeed)
+  // the seed field; the world only changes when it is opened
+  const [seedDraft, setSeedDraft] = useState(seed)
+  const [loadedSave, setLoadedSave] = useState<WorldSave | null>(null)
+  const [saveRequest, setSaveRequest] = useState<{ target: 'file' | 'autosave' }>()
+  const [slots, setSlots] = useState<SaveSlot[]>([])
+  const [selectedSlot, setSelectedSlot] = useState(0)
+  const [fileNotice, setFileNotice] = useState<string | null>(null)
+  // the heightmap file the relief is imported from, and the relief as the generator gets it
+  const [heightmap, setHeightmap] = useState<{ name: string; map: Heightmap } | null>(null)
+  const [importOptions, setImportOptions] = useState({ ...DEFAULT_HEIGHTMAP_IMPORT, quarries: true })
+  const [imported, setImported] = useState<ImportedTerrain | null>(null)
+  const [exportOptions, setExportOptions] = useState({ format: 'gltf' as ExportFormat, scale: 1, crop: false })
+  const [exportRegion, setExportRegion] = useState<ExportRegion>(WORLD_REGION)
+  const [exportRequest, setExportRequest] = useState<ExportRequest>()
+  const [cameraMode, setCameraMode] = useState<GeoSceneProps['cameraMode']>('first')
+  const [section, setSection] = useState<SectionPlane>(DEFAULT_SECTION)
+  const [paused, setPaused] = useState(false)
+  const [timeScale, setTimeScale] = useState<number>(TIME_SCALES[0])
+  const [stepRequest, setStepRequest] = useState<object>()
+  const [tool, setTool] = useState<SceneTool>('drill')
+  const [toolOptions, setToolOptions] = useState<ToolOptions>(DEFAULT_TOOL_OPTIONS)
+  const [seaLevel, setSeaLevel] = useState(SEA_LEVEL)
+  const [erosionIterations, setErosionIterations] = useState(DEFAULT_EROSION_ITERATIONS)
+  const [foldedStrata, setFoldedStrata] = useState(true)
+  const [erosionSpeed, setErosionSpeed] = useState(0)
+  const [collapseStyle, setCollapseStyle] = useState<CollapseStyle>('blocks')
+  const [collapse, setCollapse] = useState<CollapseEvent | null>(null)
+  const [cores, setCores] = useState<SavedCore[]>([])
+  const [selectedCoreId, setSelectedCoreId] = useState<number | null>(null)
+  const [coreMode, setCoreMode] = useState<CoreMode>('vertical')
+  const [latitude, setLatitude] = useState(0)
+  const [daySpeed, setDaySpeed] = useState(0.2)
+  const [solarTime, setSolarTime] = useState({ day: 172, hour: 9 })
+  const [solar, setSolar] = useState<SolarReport | null>(null)
+  const [weather, setWeather] = useState<WeatherState | null>(null)
+  const [scheduled, setScheduled] = useState<{ state: WeatherState; delay: number }>({ state: 'rain', delay: 30 })
+  const [weatherSchedule, setWeatherSchedule] = useState<{ state: WeatherState; delay: number }>()
+  const [weatherReport, setWeatherReport] = useState<WeatherReport | null>(null)
+  const [kernelBackend, setKernelBackend] = useState(getKernelBackend)
+  // the running clock's last report, or the time that was last set (days shown from 1)
+  const shownDay = solar?.day ?? solarTime.day + 1
+  const shownHour = solar?.hour ?? solarTime.hour
+
+  useEffect(() => {
+    loadKernels(import.meta.env.BASE_URL).then(setKernelBackend)
+  }, [])
+
+  // collapse reports fade out on their own
+  useEffect(() => {
+    if (!collapse) return
+    const timer = window.setTimeout(() => setCollapse(null), 6000)
+    return () => window.clearTimeout(timer)
+  }, [collapse])
+
+  useEffect(() => {
+    // IndexedDB can be missing (private windows, old browsers): then there are just no slots
+    listSlots().then(setSlots, () => setSlots([]))
+  }, [])
+
+  useEffect(() => {
+    if (!isRunning) return
+    const timer = window.setInterval(() => setSaveRequest({ target: 'autosave' }), AUTOSAVE_INTERVAL)
+    return () => window.clearInterval(timer)
+  }, [isRunning])
+
+  useEffect(() => {
+    if (!fileNotice) return
+    const timer = window.setTimeout(() => setFileNotice(null), 6000)
+    return () => window.clearTimeout(timer)
+  }, [fileNotice])
+
+  const storeSave = (save: WorldSave, request: object) => {
+    if ((request as typeof saveRequest)?.target === 'file') {
+      download(`mundo-${save.generator.seed}.json`, JSON.stringify(save), 'application/json')
+      return
+    }
+    writeSlot(nextAutosaveSlot(slots), save)
+      .then(listSlots)
+      .then(setSlots)
+      .catch(() => setFileNotice('Não foi possível salvar automaticamente'))
+  }
+
+  // reopens the saved world: its seed and generator settings, with the edits on top
+  const openSave = (save: WorldSave) => {
+    const { generator, state } = save
+    // decoded before any setting changes: a bad relief leaves the running world as it is
+    const heights = generator.imported && importedHeights(generator.imported)
+    setSeed(generator.seed)
+    setSeedDraft(generator.seed)
+    setErosionIterations(generator.erosionIterations)
+    setFoldedStrata(generator.foldedStrata)
+    setHeightmap(null)
+    setImported(
+      generator.imported && heights ? { name: generator.imported.name, quarries: generator.imported.quarries, heights } : null,
+    )
+    setSeaLevel(state.seaLevel)
+    setSolarTime({ day: Math.floor(state.hours / 24), hour: state.hours % 24 })
+    setLoadedSave(save)
+    setIsRunning(true)
+    setFileNotice(
+      generator.version === GENERATOR_VERSION
+        ? `Mundo ${generator.seed} carregado`
+        : `Mundo salvo com o gerador v${generator.version}: o terreno não editado vem do gerador atual (v${GENERATOR_VERSION})`,
+    )
+  }
+
+  const openSaveFile = (file: File) => {
+    file
+      .text()
+      .then(parseSave)
+      .then(openSave)
+      .catch((error: Error) => setFileNotice(error.message))
+  }
+
+  const openSlot = (slot: number) => {
+    readSlot(slot)
+      .then((save) => (save ? openSave(save) : setFileNotice('Slot vazio')))
+      .catch((error: Error) => setFileNotice(error.message))
+  }
+
+  const openSeed = (next: number) => {
+    setSeed(next)
+    setLoadedSave(null)
+  }
+
+  // rebuilds the planet on the heightmap's relief with the current import options
+  const applyImport = (source: { name: string; map: Heightmap }, options: typeof importOptions) => {
+    try {
+      setImported({ name: source.name, heights: resampleHeightmap(source.map, options), quarries: options.quarries })
+      setLoadedSave(null)
+    } catch (error) {
+      setFileNotice((error as Error).message)
+    }
+  }
+
+  const importHeightmapFile = (file: File) => {
+    file
+      .arrayBuffer()
+      .then((buffer) => readHeightmap(new Uint8Array(buffer)))
+      .then(
+        (map) => {
+          const source = { name: file.name, map }
+          setHeightmap(source)
+          applyImport(source, importOptions)
+        },
+        (error: Error) => setFileNotice(error.message),
+      )
+  }
+
+  const clearImport = () => {
+    setHeightmap(null)
+    setImported(null)
+    setLoadedSave(null)
+  }
+
+  const exportTerrain = () => {
+    const { format, scale, crop } = exportOptions
+    setExportRequest({ format, scale, region: crop ? exportRegion : null })
+  }
+
+  const receiveExport = (result: ExportFile[] | Error) => {
+    if (result instanceof Error) {
+      setFileNotice(`Exportação falhou: ${result.message}`)
+      return
+    }
+    for (const file of result) download(file.name, file.contents, file.type)
+  }
+
+  // one bound of the crop box: side 0 is the minimum, 1 the maximum
+  const setRegionBound = (side: 0 | 1, axis: number, value: number) => {
+    const bounds = [exportRegion.min, exportRegion.max].map((bound) => [...bound] as [number, number, number])
+    bounds[side][axis] = Math.min(WORLD_REGION.max[axis], Math.max(WORLD_REGION.min[axis], Math.round(value) || 0))
+    setExportRegion({ min: bounds[0], max: bounds[1] })
+  }
+
+  const saveCore = (core: CoreSample) => {
+    const id = cores.reduce((max, saved) => Math.max(max, saved.id), 0) + 1
+    setCores([...cores, { ...core, id, label: `Testemunho ${id}` }])
+    setSelectedCoreId(id)
+  }
 
   return (
     <div className="app">
@@ -33,21 +318,457 @@ export default function App() {
             >
               Isométrica
             </button>
+            <button
+              className={`chip ${cameraMode === 'section' ? 'active' : ''}`}
+              onClick={() => setCameraMode('section')}
+              title="Corta o planeta para ver o subsolo"
+            >
+              Corte
+            </button>
+            {cameraMode === 'section' && (
+              <>
+                {SECTION_AXES.map(({ axis, label }) => (
+                  <button
+                    key={axis}
+                    className={`chip ${section.axis === axis ? 'active' : ''}`}
+                    onClick={() => setSection({ ...section, axis })}
+                  >
+                    {label}
+                  </button>
+                ))}
+                <label className="slider" title="Posição do plano de corte a partir do centro do planeta">
+                  Corte {section.offset.toFixed(1)} m
+                  <input
+                    type="range"
+                    min={-WORLD_SIZE / 2}
+                    max={WORLD_SIZE / 2}
+                    step={0.25}
+                    value={section.offset}
+                    onChange={(event) => setSection({ ...section, offset: Number(event.target.value) })}
+                  />
+                </label>
+                {section.axis === 'custom' && (
+                  <>
+                    <label className="slider" title="Direção do plano livre em torno do eixo Y">
+                      Azimute {section.azimuth}°
+                      <input
+                        type="range"
+                        min={0}
+                        max={355}
+                        step={5}
+                        value={section.azimuth}
+                        onChange={(event) => setSection({ ...section, azimuth: Number(event.target.value) })}
+                      />
+                    </label>
+                    <label className="slider" title="Inclinação do plano livre">
+                      Inclinação {section.elevation}°
+                      <input
+                        type="range"
+                        min={-90}
+                        max={90}
+                        step={5}
+                        value={section.elevation}
+                        onChange={(event) => setSection({ ...section, elevation: Number(event.target.value) })}
+                      />
+                    </label>
+                  </>
+                )}
+              </>
+            )}
+            <label className="slider" title="Seed do mundo: a mesma seed gera o mesmo planeta">
+              Seed
+              <input
+                className="seed"
+                type="number"
+                min={0}
+                value={seedDraft}
+                onChange={(event) => setSeedDraft(Math.max(0, Math.floor(Number(event.target.value) || 0)))}
+              />
+              <button className="chip" onClick={() => setSeedDraft(randomSeed())} title="Sorteia uma seed">
+                Sortear
+              </button>
+              {isRunning && (
+                <button className="chip" disabled={seedDraft === seed} onClick={() => openSeed(seedDraft)}>
+                  Abrir
+                </button>
+              )}
+            </label>
+            <label className="chip" title="Relevo real: PNG em tons de cinza (8 ou 16 bits) ou grade ASCII ESRI (.asc)">
+              Importar relevo
+              <input
+                type="file"
+                accept=".png,.asc,image/png"
+                hidden
+                onChange={(event) => {
+                  const file = event.target.files?.[0]
+                  if (file) importHeightmapFile(file)
+                  event.target.value = ''
+                }}
+              />
+            </label>
+            {imported && (
+              <label className="slider" title="O planeta usa o relevo importado como está, sem a erosão da geração">
+                {imported.name}
+                <button className="chip" onClick={clearImport} title="Volta ao relevo gerado pela seed">
+                  Procedural
+                </button>
+              </label>
+            )}
+            {heightmap && (
+              <>
+                <label className="slider" title="Exagero vertical do relevo importado">
+                  Exagero {importOptions.exaggeration.toFixed(2)}×
+                  <input
+                    type="range"
+                    min={0.25}
+                    max={3}
+                    step={0.25}
+                    value={importOptions.exaggeration}
+                    onChange={(event) => setImportOptions({ ...importOptions, exaggeration: Number(event.target.value) })}
+                  />
+                </label>
+                <label className="slider" title="Sobe (ou afunda) o relevo importado em relação ao nível do mar, em voxels">
+                  Mar {importOptions.seaLevelOffset > 0 ? '+' : ''}
+                  {importOptions.seaLevelOffset.toFixed(1)}
+                  <input
+                    type="range"
+                    min={-8}
+                    max={8}
+                    step={0.5}
+                    value={importOptions.seaLevelOffset}
+                    onChange={(event) => setImportOptions({ ...importOptions, seaLevelOffset: Number(event.target.value) })}
+                  />
+                </label>
+                <label className="slider" title="Pedreiras e blocos gerados sobre o relevo importado">
+                  <input
+                    type="checkbox"
+                    checked={importOptions.quarries}
+                    onChange={(event) => setImportOptions({ ...importOptions, quarries: event.target.checked })}
+                  />
+                  Pedreiras
+                </label>
+                <button className="chip" onClick={() => applyImport(heightmap, importOptions)}>
+                  Aplicar
+                </button>
+              </>
+            )}
+            <button
+              className="chip"
+              disabled={!isRunning}
+              onClick={() => setSaveRequest({ target: 'file' })}
+              title="Baixa o mundo (seed e edições) como arquivo"
+            >
+              Salvar
+            </button>
+            <label className="chip" title="Abre um mundo salvo em arquivo">
+              Abrir arquivo
+              <input
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={(event) => {
+                  const file = event.target.files?.[0]
+                  if (file) openSaveFile(file)
+                  event.target.value = ''
+                }}
+              />
+            </label>
+            {slots.length > 0 && (
+              <label className="slider" title="Salvamentos automáticos (a cada minuto)">
+                <select value={selectedSlot} onChange={(event) => setSelectedSlot(Number(event.target.value))}>
+                  {slots.map(({ slot, savedAt, seed: slotSeed }) => (
+                    <option key={slot} value={slot}>
+                      Auto {slot + 1} • {new Date(savedAt).toLocaleString('pt-BR')} • seed {slotSeed}
+                    </option>
+                  ))}
+                </select>
+                <button className="chip" onClick={() => openSlot(selectedSlot)}>
+                  Carregar
+                </button>
+              </label>
+            )}
+            <label className="slider" title="Exporta a superfície do terreno para outras ferramentas">
+              <select
+                value={exportOptions.format}
+                onChange={(event) => setExportOptions({ ...exportOptions, format: event.target.value as ExportFormat })}
+              >
+                {EXPORT_FORMATS.map(({ format, label }) => (
+                  <option key={format} value={format}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                className="number"
+                type="number"
+                min={0.01}
+                step={0.1}
+                value={exportOptions.scale}
+                title="Metros por voxel"
+                onChange={(event) => setExportOptions({ ...exportOptions, scale: Math.max(0.01, Number(event.target.value) || 1) })}
+              />
+              m/voxel
+              <input
+                type="checkbox"
+                checked={exportOptions.crop}
+                onChange={(event) => setExportOptions({ ...exportOptions, crop: event.target.checked })}
+              />
+              Recortar
+              <button className="chip" disabled={!isRunning} onClick={exportTerrain}>
+                Exportar
+              </button>
+            </label>
+            {exportOptions.crop &&
+              ['X', 'Y', 'Z'].map((label, axis) => (
+                <label key={label} className="slider" title={`Limites do recorte em ${label}, em voxels`}>
+                  {label}
+                  <input
+                    className="number"
+                    type="number"
+                    value={exportRegion.min[axis]}
+                    onChange={(event) => setRegionBound(0, axis, Number(event.target.value))}
+                  />
+                  a
+                  <input
+                    className="number"
+                    type="number"
+                    value={exportRegion.max[axis]}
+                    onChange={(event) => setRegionBound(1, axis, Number(event.target.value))}
+                  />
+                </label>
+              ))}
+            <button className={`chip ${paused ? 'active' : ''}`} onClick={() => setPaused(!paused)}>
+              {paused ? 'Continuar' : 'Pausar'}
+            </button>
+            <button
+              className="chip"
+              disabled={!paused}
+              onClick={() => setStepRequest({})}
+              title="Avança a simulação um passo"
+            >
+              Passo
+            </button>
+            {TIME_SCALES.map((scale) => (
+              <button
+                key={scale}
+                className={`chip ${timeScale === scale ? 'active' : ''}`}
+                onClick={() => setTimeScale(scale)}
+                title="Tempo simulado por segundo real"
+              >
+                {scale}×
+              </button>
+            ))}
+            {TOOLS.map((entry) => (
+              <button
+                key={entry.tool}
+                className={`chip ${tool === entry.tool ? 'active' : ''}`}
+                onClick={() => setTool(entry.tool)}
+                title={entry.title}
+              >
+                {entry.label}
+              </button>
+            ))}
+            {(tool === 'place' || tool === 'fill') && (
+              <label className="slider" title="Material colocado">
+                <select
+                  value={toolOptions.material}
+                  onChange={(event) => setToolOptions({ ...toolOptions, material: Number(event.target.value) })}
+                >
+                  {PLACEABLE.map(({ id, name }) => (
+                    <option key={id} value={id}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {tool === 'fill' &&
+              (['box', 'sphere'] as const).map((shape) => (
+                <button
+                  key={shape}
+                  className={`chip ${toolOptions.shape === shape ? 'active' : ''}`}
+                  onClick={() => setToolOptions({ ...toolOptions, shape })}
+                >
+                  {shape === 'box' ? 'Caixa' : 'Esfera'}
+                </button>
+              ))}
+            {(tool === 'fill' || tool === 'flatten') && (
+              <label className="slider" title="Raio do pincel, em voxels">
+                Raio {toolOptions.radius}
+                <input
+                  type="range"
+                  min={1}
+                  max={6}
+                  value={toolOptions.radius}
+                  onChange={(event) => setToolOptions({ ...toolOptions, radius: Number(event.target.value) })}
+                />
+              </label>
+            )}
+            <label className="slider" title="Distância máxima (dos olhos) em que as ferramentas alcançam">
+              Alcance {toolOptions.reach} m
+              <input
+                type="range"
+                min={2}
+                max={24}
+                value={toolOptions.reach}
+                onChange={(event) => setToolOptions({ ...toolOptions, reach: Number(event.target.value) })}
+              />
+            </label>
+            <button
+              className={`chip ${collapseStyle === 'blocks' ? 'active' : ''}`}
+              onClick={() => setCollapseStyle('blocks')}
+              title="Voxels sem apoio caem inteiros"
+            >
+              Blocos
+            </button>
+            <button
+              className={`chip ${collapseStyle === 'debris' ? 'active' : ''}`}
+              onClick={() => setCollapseStyle('debris')}
+              title="Voxels sem apoio se quebram em detritos"
+            >
+              Detritos
+            </button>
+            {EROSION_SPEEDS.map((speed) => (
+              <button
+                key={speed}
+                className={`chip ${erosionSpeed === speed ? 'active' : ''}`}
+                onClick={() => setErosionSpeed(speed)}
+                title="Iterações de erosão por segundo no mundo em execução"
+              >
+                {speed === 0 ? 'Erosão off' : `Erosão ${speed}×`}
+              </button>
+            ))}
+            {DAY_SPEEDS.map(({ rate, label }) => (
+              <button
+                key={rate}
+                className={`chip ${daySpeed === rate ? 'active' : ''}`}
+                onClick={() => setDaySpeed(rate)}
+              >
+                {label}
+              </button>
+            ))}
+            <label className="slider" title="Hora solar local do observador">
+              Hora {formatHour(shownHour)}
+              <input
+                type="range"
+                min={0}
+                max={23.75}
+                step={0.25}
+                value={shownHour}
+                onChange={(event) => setSolarTime({ day: shownDay - 1, hour: Number(event.target.value) })}
+              />
+            </label>
+            <label className="slider" title="Dia do ano (estações pela inclinação do eixo)">
+              Dia {shownDay}
+              <input
+                type="range"
+                min={1}
+                max={365}
+                value={shownDay}
+                onChange={(event) => setSolarTime({ day: Number(event.target.value) - 1, hour: shownHour })}
+              />
+            </label>
+            <label className="slider" title="Latitude do observador (cor do céu e leituras)">
+              Latitude {latitude}°
+              <input
+                type="range"
+                min={-90}
+                max={90}
+                step={5}
+                value={latitude}
+                onChange={(event) => setLatitude(Number(event.target.value))}
+              />
+            </label>
+            <button
+              className={`chip ${weather === null ? 'active' : ''}`}
+              onClick={() => setWeather(null)}
+              title="Sequência de tempo gerada pela seed"
+            >
+              Tempo auto
+            </button>
+            {(Object.keys(WEATHER_NAMES) as WeatherState[]).map((state) => (
+              <button
+                key={state}
+                className={`chip ${weather === state ? 'active' : ''}`}
+                onClick={() => setWeather(state)}
+                title="Fixa este tempo até voltar ao automático"
+              >
+                {WEATHER_NAMES[state]}
+              </button>
+            ))}
+            <label className="slider" title="Agenda uma mudança de tempo">
+              <select
+                value={scheduled.state}
+                onChange={(event) => setScheduled({ ...scheduled, state: event.target.value as WeatherState })}
+              >
+                {(Object.keys(WEATHER_NAMES) as WeatherState[]).map((state) => (
+                  <option key={state} value={state}>
+                    {WEATHER_NAMES[state]}
+                  </option>
+                ))}
+              </select>
+              em
+              <input
+                className="number"
+                type="number"
+                min={0}
+                value={scheduled.delay}
+                onChange={(event) => setScheduled({ ...scheduled, delay: Math.max(0, Number(event.target.value) || 0) })}
+              />
+              s
+              <button className="chip" onClick={() => setWeatherSchedule({ ...scheduled })}>
+                Agendar
+              </button>
+            </label>
+            <label className="slider" title="Raio (em voxels) até onde o oceano enche">
+              Nível do mar {seaLevel.toFixed(1)}
+              <input
+                type="range"
+                min={PLANET_RADIUS - 4}
+                max={PLANET_RADIUS + 4}
+                step={0.5}
+                value={seaLevel}
+                onChange={(event) => setSeaLevel(Number(event.target.value))}
+              />
+            </label>
           </div>
         </div>
       </header>
 
       <main className="stage">
+        {fileNotice && <div className="notice fileNotice">{fileNotice}</div>}
         {!isRunning ? (
           <div className="starter">
             <p className="starterTitle">Simulação pronta para iniciar</p>
             <p className="starterText">
               Clique para carregar o cenário 3D (lazy-load). Isso deixa o bundle inicial menor.
             </p>
+            <label
+              className="slider starterField"
+              title={
+                imported
+                  ? 'O relevo importado entra como está: a erosão da geração só vale para o relevo procedural'
+                  : 'Iterações de erosão aplicadas ao gerar o planeta'
+              }
+            >
+              Erosão na geração
+              <input
+                type="number"
+                min={0}
+                max={200}
+                disabled={imported !== null}
+                value={erosionIterations}
+                onChange={(event) => setErosionIterations(Math.max(0, Math.floor(Number(event.target.value) || 0)))}
+              />
+            </label>
+            <label className="slider starterField" title="Dobras e mergulho nas camadas de rocha">
+              <input type="checkbox" checked={foldedStrata} onChange={(event) => setFoldedStrata(event.target.checked)} />
+              Estratos dobrados
+            </label>
             <button
               className="button"
               onClick={() => {
-                setSeed(Math.floor(Math.random() * 1_000_000_000))
+                openSeed(seedDraft)
                 setIsRunning(true)
               }}
             >
@@ -56,9 +777,82 @@ export default function App() {
           </div>
         ) : (
           <Suspense fallback={<div className="loading">Carregando cenário 3D…</div>}>
-            <GeoScene seed={seed} cameraMode={cameraMode} />
+            <GeoScene
+              seed={seed}
+              cameraMode={cameraMode}
+              section={section}
+              tool={tool}
+              toolOptions={toolOptions}
+              seaLevel={seaLevel}
+              erosionIterations={erosionIterations}
+              foldedStrata={foldedStrata}
+              imported={imported}
+              erosionSpeed={erosionSpeed}
+              collapseStyle={collapseStyle}
+              onCollapse={setCollapse}
+              coreMode={coreMode}
+              onCore={saveCore}
+              cores={cores}
+              selectedCoreId={selectedCoreId}
+              solarTime={solarTime}
+              latitude={latitude}
+              daySpeed={daySpeed}
+              onSolarReport={setSolar}
+              weather={weather}
+              weatherSchedule={weatherSchedule}
+              onWeatherReport={setWeatherReport}
+              paused={paused}
+              timeScale={timeScale}
+              stepRequest={stepRequest}
+              save={loadedSave}
+              saveRequest={saveRequest}
+              onSave={storeSave}
+              exportRequest={exportRequest}
+              onExport={receiveExport}
+            />
+            {cameraMode === 'first' && <div className="crosshair" />}
+            {solar && (
+              <div className="readout">
+                Dia {solar.day} • {formatHour(solar.hour)} • Sol {solar.elevation.toFixed(0)}° •{' '}
+                {solar.temperature.toFixed(1)} °C
+                {weatherReport && (
+                  <>
+                    {' '}
+                    • {WEATHER_NAMES[weatherReport.state]} • vento {weatherReport.speed.toFixed(0)} m/s →{' '}
+                    {COMPASS[Math.round(weatherReport.heading / 45) % COMPASS.length]}
+                  </>
+                )}
+              </div>
+            )}
+            {collapse && (
+              <div className="notice">
+                <strong>Colapso: {collapse.voxels.length} voxels</strong>
+                <span>
+                  {Object.entries(collapse.materials)
+                    .map(([material, count]) => `${MATERIALS[Number(material)]?.name ?? material} ${count}`)
+                    .join(' • ')}
+                </span>
+                <span>
+                  {collapse.counts.disconnected} sem ligação com a rocha-mãe • {collapse.counts.overhang} em balanço
+                  excessivo
+                </span>
+              </div>
+            )}
+            {(tool === 'core' || cores.length > 0) && (
+              <CoreLogPanel
+                cores={cores}
+                selectedId={selectedCoreId}
+                mode={coreMode}
+                onModeChange={setCoreMode}
+                onSelect={setSelectedCoreId}
+                onRemove={(id) => setCores(cores.filter((core) => core.id !== id))}
+                onClear={() => setCores([])}
+              />
+            )}
             <div className="hint">
-              WASD/Setas para andar • Câmera {cameraMode === 'first' ? '1ª pessoa' : 'isométrica (arraste + scroll)'}
+              WASD anda • Setas giram a vista • Espaço pula • C agacha • Clique: {TOOL_HINTS[tool]}{' '}
+              {cameraMode === 'first' ? '(segure e mire para pintar)' : '(Shift + arraste pinta)'} • Ctrl+Z desfaz • Ctrl+Y refaz • Câmera {CAMERA_HINTS[cameraMode]} •
+              {imported ? `Relevo ${imported.name} • ` : ''}Seed {seed} • Núcleos {kernelBackend.name.toUpperCase()} v{kernelBackend.version}
             </div>
           </Suspense>
         )}
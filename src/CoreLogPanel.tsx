@@ -0,0 +1,104 @@
+import { download } from './download'
+import { MATERIAL, MATERIALS } from './scene/utils/materials'
+import { coresToCsv, coresToJson, materialName } from './scene/utils/coring'
+import type { CoreMode, SavedCore } from './scene/utils/coring'
+
+export type CoreLogPanelProps = {
+  cores: SavedCore[]
+  selectedId: number | null
+  mode: CoreMode
+  onModeChange: (mode: CoreMode) => void
+  onSelect: (id: number) => void
+  onRemove: (id: number) => void
+  onClear: () => void
+}
+
+// px of log per metre of core
+const LOG_SCALE = 14
+
+// Saved cores and a borehole-style log of the selected one: material bands to scale, with depths.
+export default function CoreLogPanel({ cores, selectedId, mode, onModeChange, onSelect, onRemove, onClear }: CoreLogPanelProps) {
+  const selected = cores.find((core) => core.id === selectedId) ?? cores[cores.length - 1]
+
+  return (
+    <aside className="corePanel">
+      <div className="corePanelRow">
+        <strong>Testemunhos</strong>
+        <button className={`chip ${mode === 'vertical' ? 'active' : ''}`} onClick={() => onModeChange('vertical')}>
+          Vertical
+        </button>
+        <button
+          className={`chip ${mode === 'oriented' ? 'active' : ''}`}
+          onClick={() => onModeChange('oriented')}
+          title="Perpendicular à face clicada"
+        >
+          Orientado
+        </button>
+      </div>
+
+      {cores.length === 0 ? (
+        <p className="corePanelEmpty">Clique no terreno para extrair um testemunho.</p>
+      ) : (
+        <>
+          <div className="corePanelRow">
+            <select value={selected?.id} onChange={(event) => onSelect(Number(event.target.value))}>
+              {cores.map((core) => (
+                <option key={core.id} value={core.id}>
+                  {core.label}
+                </option>
+              ))}
+            </select>
+            {selected && (
+              <button className="chip" onClick={() => onRemove(selected.id)}>
+                Remover
+              </button>
+            )}
+          </div>
+
+          {selected && (
+            <>
+              <span className="corePanelMeta">
+                {selected.latitude.toFixed(1)}° lat • {selected.longitude.toFixed(1)}° lon • {selected.length} m
+              </span>
+              <div className="coreLog">
+                <div className="coreColumn">
+                  {selected.intervals.map((interval) => (
+                    <div
+                      key={interval.from}
+                      className={interval.material === MATERIAL.air ? 'coreVoid' : undefined}
+                      style={{
+                        height: (interval.to - interval.from) * LOG_SCALE,
+                        background: MATERIALS[interval.material]?.color,
+                      }}
+                      title={`${materialName(interval.material)}: ${interval.from.toFixed(2)}–${interval.to.toFixed(2)} m`}
+                    />
+                  ))}
+                </div>
+                <ol className="coreIntervals">
+                  {selected.intervals.map((interval) => (
+                    <li key={interval.from} style={{ height: (interval.to - interval.from) * LOG_SCALE }}>
+                      {interval.to - interval.from >= 0.5 &&
+                        `${interval.from.toFixed(1)} m • ${materialName(interval.material)}`}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </>
+          )}
+
+          <div className="corePanelRow">
+            <button className="chip" onClick={() => download('testemunhos.csv', coresToCsv(cores), 'text/csv')}>
+              CSV
+            </button>
+            <button className="chip" onClick={() => download('testemunhos.json', coresToJson(cores), 'application/json')}>
+              JSON
+            </button>
+            <button className="chip" onClick={onClear}>
+              Limpar
+            </button>
+          </div>
+        </>
+      )}
+    </aside>
+  )
+}
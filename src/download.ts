@@ -0,0 +1,9 @@
+// Hands `contents` to the browser as a file download.
+export function download(filename: string, contents: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
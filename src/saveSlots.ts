@@ -0,0 +1,59 @@
+import { migrateSave } from './scene/save'
+import type { WorldSave } from './scene/save'
+
+// Autosave slots in IndexedDB: each autosave overwrites the oldest of AUTOSAVE_SLOTS slots.
+const DB_NAME = 'geosimulator'
+const DB_VERSION = 1
+const STORE_NAME = 'saves'
+export const AUTOSAVE_SLOTS = 3
+
+export type SaveSlot = {
+  slot: number
+  savedAt: string
+  seed: number
+}
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, use: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = use(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function listSlots(): Promise<SaveSlot[]> {
+  const saves = await withStore<WorldSave[]>('readonly', (store) => store.getAll())
+  const keys = await withStore<IDBValidKey[]>('readonly', (store) => store.getAllKeys())
+  return saves
+    .map((save, i) => ({ slot: Number(keys[i]), savedAt: save.savedAt, seed: save.generator.seed }))
+    .sort((a, b) => a.slot - b.slot)
+}
+
+export async function readSlot(slot: number) {
+  const value = await withStore<unknown>('readonly', (store) => store.get(slot))
+  return value === undefined ? undefined : migrateSave(value)
+}
+
+export function writeSlot(slot: number, save: WorldSave) {
+  return withStore('readwrite', (store) => store.put(save, slot))
+}
+
+// An empty slot if there is one, otherwise the one saved longest ago.
+export function nextAutosaveSlot(slots: SaveSlot[]) {
+  for (let slot = 0; slot < AUTOSAVE_SLOTS; slot++) if (!slots.some((s) => s.slot === slot)) return slot
+  return slots.reduce((oldest, s) => (s.savedAt < oldest.savedAt ? s : oldest)).slot
+}
@@ -0,0 +1,45 @@
+import { useMemo } from 'react'
+import { Quaternion, Vector3 } from 'three'
+import type { SavedCore } from './utils/coring'
+
+export type CoreMarkersProps = {
+  cores: SavedCore[]
+  selectedId?: number | null
+}
+
+const MARKER_HEIGHT = 0.7
+const MARKER_RADIUS = 0.06
+const UP = new Vector3(0, 1, 0)
+
+// A small post at each core's collar, leaning along the core and sticking out of the ground.
+export default function CoreMarkers({ cores, selectedId }: CoreMarkersProps) {
+  const markers = useMemo(
+    () =>
+      cores.map((core) => {
+        const direction = new Vector3(...core.direction)
+        const quaternion = new Quaternion().setFromUnitVectors(UP, direction.clone().negate())
+        // half above the collar, half below it
+        const position = new Vector3(...core.position)
+        return { id: core.id, position, quaternion }
+      }),
+    [cores],
+  )
+
+  return (
+    <group>
+      {markers.map(({ id, position, quaternion }) => {
+        const selected = id === selectedId
+        return (
+          <mesh key={id} position={position} quaternion={quaternion}>
+            <cylinderGeometry args={[MARKER_RADIUS, MARKER_RADIUS, MARKER_HEIGHT, 8]} />
+            <meshStandardMaterial
+              color={selected ? '#ffe066' : '#f2a93b'}
+              emissive={selected ? '#806000' : '#000000'}
+              roughness={0.5}
+            />
+          </mesh>
+        )
+      })}
+    </group>
+  )
+}
@@ -0,0 +1,102 @@
+import { useFrame } from '@react-three/fiber'
+import { useEffect, useMemo, useRef } from 'react'
+import { Color, Matrix4, Quaternion, Vector3 } from 'three'
+import type { InstancedMesh } from 'three'
+import { DEBRIS_STEP, TRANSFORM_STRIDE } from './physicsBridge'
+import type { DebrisFragment, PhysicsBridge, PhysicsResponse } from './physicsBridge'
+import { registerSystem } from './systems/scheduler'
+import type { EditCommand } from './utils/history'
+import { MATERIALS } from './utils/materials'
+import { applyEdit } from './world'
+import type { World } from './world'
+
+export type DebrisProps = {
+  bridge: PhysicsBridge
+  world: World
+  // settled fragments are written back into the voxel grid (as a world edit) instead of staying as bodies
+  revoxelize: boolean
+  maxInstances?: number
+}
+
+// Draws every simulated fragment with one instanced box; transforms come from the physics worker.
+export default function Debris({ bridge, world, revoxelize, maxInstances = 1024 }: DebrisProps) {
+  const meshRef = useRef<InstancedMesh>(null!)
+  const latestRef = useRef<Extract<PhysicsResponse, { type: 'transforms' }> | null>(null)
+  const temp = useMemo(
+    () => ({
+      matrix: new Matrix4(),
+      position: new Vector3(),
+      quaternion: new Quaternion(),
+      scale: new Vector3(),
+      color: new Color(),
+    }),
+    [],
+  )
+
+  useEffect(() => {
+    bridge.onMessage = (message) => {
+      if (message.type === 'transforms') {
+        latestRef.current = message
+        return
+      }
+      if (message.type !== 'settled' || !revoxelize) return
+      // rubble goes back in one edit per source, so each joins the undo step that knocked it loose
+      const bySource = new Map<EditCommand | undefined, DebrisFragment[]>()
+      message.ids.forEach((id, i) => {
+        const fragment = bridge.fragments.get(id)
+        if (!fragment) return
+        const o = i * TRANSFORM_STRIDE
+        const position: [number, number, number] = [message.transforms[o], message.transforms[o + 1], message.transforms[o + 2]]
+        const resting = bySource.get(fragment.source) ?? []
+        resting.push({ ...fragment, position })
+        bySource.set(fragment.source, resting)
+      })
+      bridge.remove(Array.from(message.ids))
+      bySource.forEach((fragments) => applyEdit(world, { type: 'deposit', fragments }))
+    }
+    return () => {
+      bridge.onMessage = null
+    }
+  }, [bridge, world, revoxelize])
+
+  // the worker steps on the world's clock: falling rubble stops while paused and keeps pace with the time scale
+  useEffect(
+    () => registerSystem(world.scheduler, { id: 'debris', step: DEBRIS_STEP, fine: true, tick: () => bridge.step(1) }),
+    [bridge, world],
+  )
+
+  useFrame(() => {
+    const mesh = meshRef.current
+    const latest = latestRef.current
+    if (bridge.fragments.size === 0) {
+      mesh.count = 0
+      return
+    }
+    if (!latest) return
+    latestRef.current = null
+
+    let count = 0
+    for (let i = 0; i < latest.ids.length && count < maxInstances; i++) {
+      const fragment = bridge.fragments.get(latest.ids[i])
+      if (!fragment) continue
+      const o = i * TRANSFORM_STRIDE
+      const t = latest.transforms
+      temp.position.set(t[o], t[o + 1], t[o + 2])
+      temp.quaternion.set(t[o + 3], t[o + 4], t[o + 5], t[o + 6])
+      temp.scale.setScalar(fragment.half * 2)
+      mesh.setMatrixAt(count, temp.matrix.compose(temp.position, temp.quaternion, temp.scale))
+      mesh.setColorAt(count, temp.color.set(MATERIALS[fragment.material]?.color ?? '#888888'))
+      count++
+    }
+    mesh.count = count
+    mesh.instanceMatrix.needsUpdate = true
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true
+  })
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, maxInstances]} count={0} frustumCulled={false}>
+      <boxGeometry args={[1, 1, 1]} />
+      <meshStandardMaterial roughness={0.85} />
+    </instancedMesh>
+  )
+}
@@ -1,174 +1,123 @@
 import { Canvas, useFrame, useThree } from '@react-three/fiber'
-import { useTexture } from '@react-three/drei'
 import { useEffect, useMemo, useRef, useState } from 'react'
-import { Color, Vector3, InstancedMesh, Object3D } from 'three'
+import { BufferAttribute, BufferGeometry, Plane, Vector3 } from 'three'
 import type { Mesh } from 'three'
+import CoreMarkers from './CoreMarkers'
+import Debris from './Debris'
+import Lava from './Lava'
+import Section from './Section'
+import Sky from './Sky'
+import type { SolarReport } from './Sky'
+import VoxelCursor from './VoxelCursor'
+import Water from './Water'
+import Weather from './Weather'
+import type { WeatherReport } from './Weather'
+import { DEFAULT_TOOL_OPTIONS } from './tools'
+import type { SceneTool, ToolOptions } from './tools'
+import {
+  DEFAULT_EROSION_ITERATIONS,
+  GRAVITY_DAMP,
+  GRAVITY_SPRING,
+  PLANET_RADIUS,
+  PLAYER_HEIGHT,
+  PLAYER_RADIUS,
+  SEA_LEVEL,
+  VOXEL_SIZE,
+} from './constants'
+import type { TerrainData } from './generation/generatePlanet'
+import type { ImportedTerrain } from './generation/heightmap'
+import { planetLayers } from './generation/layers'
+import { saveMatches, toBase64 } from './save'
+import type { WorldSave } from './save'
+import { texturePath, useTerrainMaterials } from './materials/useTerrainMaterials'
+import { createPhysicsBridge } from './physicsBridge'
+import type { DebrisFragment, PhysicsBridge } from './physicsBridge'
+import { remeshChunks } from './utils/chunkMesher'
+import type { ChunkMeshData, MeshedChunks } from './utils/chunkMesher'
+import { sampleCore } from './utils/coring'
+import type { CoreMode, CoreSample, SavedCore } from './utils/coring'
+import { sampleHeightField } from './utils/planet'
+import type { HeightField } from './utils/planet'
+import { createPlayerBody, eyePosition, playerUp, stepPlayer } from './systems/player'
+import type { PlayerBody, PlayerInput } from './systems/player'
+import { advanceScheduler, registerSystem, stepScheduler, tickAlpha } from './systems/scheduler'
+import type { Scheduler } from './systems/scheduler'
+import { HOURS_PER_DAY } from './systems/solar'
+import { isUnderwater } from './systems/water'
+import { forceWeather, scheduleWeather } from './systems/weather'
+import type { WeatherState } from './systems/weather'
+import type { WaterField } from './systems/water'
+import type { CollapseEvent } from './systems/structure'
+import type { CollapseStyle } from './utils/debris'
+import { beginGroup, endGroup } from './utils/history'
+import { MATERIAL } from './utils/materials'
+import { TEXTURE_FILES, exportTerrain } from './utils/meshExport'
+import type { ExportFile, ExportRequest, ExportTextures, TextureSet } from './utils/meshExport'
+import type { VoxelHit } from './utils/raycast'
+import { DEFAULT_SECTION, sectionNormal } from './utils/section'
+import type { SectionPlane } from './utils/section'
+import {
+  applyEdit,
+  createWorld,
+  queryVoxel,
+  redoEdit,
+  restoreWorld,
+  saveWorld,
+  setErosionSpeed,
+  setSeaLevel,
+  undoEdit,
+} from './world'
+import type { World, WorldEdit } from './world'
 
 export type GeoSceneProps = {
   seed: number
-  cameraMode: 'first' | 'iso'
-}
-
-type TerrainData = {
-  positions: Vector3[]
-  colors: Color[]
-  heights: number[]
-}
-
-const PLANET_RADIUS = 4.8
-const VOXEL_SIZE = 1.0
-const SUBDIV_N = 4
-const SUBVOXEL_SIZE = VOXEL_SIZE / SUBDIV_N
-const WORLD_SIZE = 50
-const LAT_STEPS = 28
-const LON_STEPS = 52
-const EARTH_AXIAL_TILT = (23.44 * Math.PI) / 180
-const STEP_MAX = VOXEL_SIZE * 2.6
-const DECAL_IGNORE = VOXEL_SIZE * 0.6
-const PLAYER_RADIUS = 0.3
-const PLAYER_HEIGHT = 1.7
-const GRAVITY_SPRING = 10
-const GRAVITY_DAMP = 4.5
-
-const COLORS = {
-  ocean: new Color('#1c4fa1'),
-  rock: new Color('#f5f5f5'),
-  lava: new Color('#ff5a3c'),
-  sand: new Color('#c2a46b'),
-  grass: new Color('#4a7c59'),
-  snow: new Color('#ffffff'),
-  dirt: new Color('#8B4513'),
-}
-
-function mulberry32(seed: number) {
-  let t = seed >>> 0
-  return () => {
-    t += 0x6d2b79f5
-    let r = Math.imul(t ^ (t >>> 15), 1 | t)
-    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r)
-    return ((r ^ (r >>> 14)) >>> 0) / 4294967296
-  }
-}
-
-function seededNoise(seed: number, i: number, j: number) {
-  const mixed = seed ^ (i * 374761393) ^ (j * 668265263)
-  const rng = mulberry32(mixed)
-  return rng()
-}
-
-function generatePlanet(seed: number): TerrainData {
-  const positions: Vector3[] = []
-  const colors: Color[] = []
-  const heights: number[] = new Array(WORLD_SIZE * WORLD_SIZE).fill(0)
-  // Base rolling ground: mostly dirt with grassy tops
-  for (let x = -WORLD_SIZE / 2; x < WORLD_SIZE / 2; x++) {
-    for (let z = -WORLD_SIZE / 2; z < WORLD_SIZE / 2; z++) {
-      const noise = seededNoise(seed, x, z)
-      const height = Math.max(1, Math.floor(1 + noise * 2.5)) // gentle variation
-      const index = (x + WORLD_SIZE / 2) * WORLD_SIZE + (z + WORLD_SIZE / 2)
-      heights[index] = height
-
-      for (let y = 0; y < height; y++) {
-        positions.push(new Vector3(x * VOXEL_SIZE, y * VOXEL_SIZE, z * VOXEL_SIZE))
-        // flat ground is dirt only
-        colors.push(COLORS.dirt)
-      }
-    }
-  }
-
-  // Create several marble-quarry style rectangular blocks and carved pits
-  const rng = mulberry32(seed + 12345)
-  const numQuarries = 3 + Math.floor(rng() * 3) // 3-5 quarries
-
-  for (let q = 0; q < numQuarries; q++) {
-    const w = 6 + Math.floor(rng() * 10) // width 6-15
-    const l = 6 + Math.floor(rng() * 10) // length
-    const h = 3 + Math.floor(rng() * 6) // height 3-8
-
-    const cx = Math.floor(rng() * (WORLD_SIZE - w)) - WORLD_SIZE / 2
-    const cz = Math.floor(rng() * (WORLD_SIZE - l)) - WORLD_SIZE / 2
-
-    // Carve a pit by lowering ground heights inside footprint (stepped terraces)
-    for (let dx = 0; dx < w; dx++) {
-      for (let dz = 0; dz < l; dz++) {
-        const gx = cx + dx
-        const gz = cz + dz
-        if (gx < -WORLD_SIZE / 2 || gx >= WORLD_SIZE / 2 || gz < -WORLD_SIZE / 2 || gz >= WORLD_SIZE / 2) continue
-        const idx = (gx + WORLD_SIZE / 2) * WORLD_SIZE + (gz + WORLD_SIZE / 2)
-        // lower height to create pit base (leave some steps)
-        heights[idx] = Math.max(0, (heights[idx] || 1) - (Math.floor(h / 2) + Math.floor(rng() * 2)))
-      }
-    }
-
-    // Place large rectangular marble blocks (exposed faces)
-    for (let dx = 0; dx < w; dx++) {
-      for (let dz = 0; dz < l; dz++) {
-        const gx = cx + dx
-        const gz = cz + dz
-        if (gx < -WORLD_SIZE / 2 || gx >= WORLD_SIZE / 2 || gz < -WORLD_SIZE / 2 || gz >= WORLD_SIZE / 2) continue
-        const idx = (gx + WORLD_SIZE / 2) * WORLD_SIZE + (gz + WORLD_SIZE / 2)
-        const baseH = Math.max(0, heights[idx] || 0)
-        // Build vertical cut blocks along the quarry walls: stack rock blocks up to h
-        for (let by = 0; by < h; by++) {
-          positions.push(new Vector3(gx * VOXEL_SIZE, (baseH + by) * VOXEL_SIZE, gz * VOXEL_SIZE))
-          colors.push(COLORS.rock)
-        }
-      }
-    }
-  }
-
-  // Add some isolated marble blocks for variety
-  for (let i = 0; i < 8; i++) {
-    const x = Math.floor(Math.random() * (WORLD_SIZE - 4)) - WORLD_SIZE / 2
-    const z = Math.floor(Math.random() * (WORLD_SIZE - 4)) - WORLD_SIZE / 2
-    const baseIdx = (x + WORLD_SIZE / 2) * WORLD_SIZE + (z + WORLD_SIZE / 2)
-    const baseH = Math.max(0, heights[baseIdx] || 0)
-    const bw = 3
-    const bl = 3
-    const bh = 3
-    for (let dx = 0; dx < bw; dx++) {
-      for (let dz = 0; dz < bl; dz++) {
-        for (let dy = 0; dy < bh; dy++) {
-          positions.push(new Vector3((x + dx) * VOXEL_SIZE, (baseH + dy) * VOXEL_SIZE, (z + dz) * VOXEL_SIZE))
-          colors.push(COLORS.rock)
-        }
-      }
-    }
-  }
-
-  return { positions, colors, heights }
-}
-
-function PlanetVoxels({ terrain, setTerrain }: { terrain: TerrainData; setTerrain: (t: TerrainData) => void }) {
-  const dirtTexture = useTexture('/textures/dirt.jpg')
-  const rockTexture = useTexture('/textures/rock.jpg')
-
-  const removeVoxel = (index: number) => {
-    const newPositions = terrain.positions.filter((_, i) => i !== index)
-    const newColors = terrain.colors.filter((_, i) => i !== index)
-    setTerrain({ ...terrain, positions: newPositions, colors: newColors })
-  }
-
-  return (
-    <group>
-      {terrain.positions.map((position, index) => {
-        const color = terrain.colors[index]
-        const isDirt = color.equals(COLORS.dirt)
-        const isRock = color.equals(COLORS.rock)
-        return (
-          <mesh key={index} position={position} onClick={() => removeVoxel(index)}>
-            <boxGeometry args={[VOXEL_SIZE, VOXEL_SIZE, VOXEL_SIZE]} />
-            <meshStandardMaterial
-              map={isDirt ? dirtTexture : isRock ? rockTexture : undefined}
-              color={color}
-              roughness={0.9}
-              metalness={0.05}
-            />
-          </mesh>
-        )
-      })}
-    </group>
-  )
+  // 'section' orbits the planet with the terrain cut open by `section`
+  cameraMode: 'first' | 'iso' | 'section'
+  section?: SectionPlane
+  tool?: SceneTool
+  toolOptions?: ToolOptions
+  // radius (in voxels) the ocean fills up to
+  seaLevel?: number
+  // erosion rounds run at generation time, and per second on the live world (0 = off)
+  erosionIterations?: number
+  // fold and dip the rock strata (false = flat-lying beds)
+  foldedStrata?: boolean
+  // real elevation data to build the planet on instead of the generated relief
+  imported?: ImportedTerrain | null
+  erosionSpeed?: number
+  // settled debris turns back into voxels (true) or stays as loose bodies
+  revoxelizeDebris?: boolean
+  // how voxels that lose support fall: whole blocks or broken debris
+  collapseStyle?: CollapseStyle
+  onCollapse?: (event: CollapseEvent) => void
+  // core sampling: direction of new cores, where finished ones go, and the saved ones to mark
+  coreMode?: CoreMode
+  onCore?: (core: CoreSample) => void
+  cores?: SavedCore[]
+  selectedCoreId?: number | null
+  // sets the solar clock (day of year 0–364, local hour) whenever a new object is passed
+  solarTime?: { day: number; hour: number }
+  // observer latitude in degrees, and simulated hours per simulated second
+  latitude?: number
+  daySpeed?: number
+  onSolarReport?: (report: SolarReport) => void
+  // held weather state (null = the seeded sequence), and a spell queued each time a new object is passed
+  weather?: WeatherState | null
+  weatherSchedule?: { state: WeatherState; delay: number }
+  onWeatherReport?: (report: WeatherReport) => void
+  // simulation clock: paused, simulated seconds per real second, and one step each time a new object is passed
+  paused?: boolean
+  timeScale?: number
+  stepRequest?: object
+  // edits laid over the generated planet when its seed and generator parameters match (save.ts)
+  save?: WorldSave | null
+  // a save of the running world is handed to onSave each time a new request object is passed
+  saveRequest?: object
+  onSave?: (save: WorldSave, request: object) => void
+  // the terrain is exported as asked each time a new request object is passed; the files (or what
+  // went wrong) go to onExport
+  exportRequest?: ExportRequest
+  onExport?: (result: ExportFile[] | Error) => void
 }
 
 function useKeyboard() {
@@ -181,6 +130,8 @@ function useKeyboard() {
     rotateRight: false,
     rotateUp: false,
     rotateDown: false,
+    jump: false,
+    crouch: false,
   })
 
   useEffect(() => {
@@ -210,6 +161,12 @@ function useKeyboard() {
         case 'ArrowDown':
           keysRef.current.rotateDown = true
           break
+        case 'Space':
+          keysRef.current.jump = true
+          break
+        case 'KeyC':
+          keysRef.current.crouch = true
+          break
         default:
           break
       }
@@ -241,6 +198,12 @@ function useKeyboard() {
         case 'ArrowDown':
           keysRef.current.rotateDown = false
           break
+        case 'Space':
+          keysRef.current.jump = false
+          break
+        case 'KeyC':
+          keysRef.current.crouch = false
+          break
         default:
           break
       }
@@ -258,128 +221,162 @@ function useKeyboard() {
   return keysRef
 }
 
-function sampleSurfaceHeight(position: Vector3, heights: number[]) {
-  const x = Math.round(position.x / VOXEL_SIZE)
-  const z = Math.round(position.z / VOXEL_SIZE)
-  const clampedX = Math.max(-WORLD_SIZE / 2, Math.min(WORLD_SIZE / 2 - 1, x))
-  const clampedZ = Math.max(-WORLD_SIZE / 2, Math.min(WORLD_SIZE / 2 - 1, z))
-  const index = (clampedX + WORLD_SIZE / 2) * WORLD_SIZE + (clampedZ + WORLD_SIZE / 2)
-  return heights[index] * VOXEL_SIZE
+function sampleSurfaceRadius(position: Vector3, heights: HeightField) {
+  return sampleHeightField(heights, position.x, position.y, position.z) * VOXEL_SIZE
 }
 
 type PlayerState = {
+  // eye point
   position: Vector3
   forward: Vector3
   normal: Vector3
+  pitch: number
 }
 
+// Walking speed multiplier while wading or swimming
+const WATER_SPEED_FACTOR = 0.45
+// simulated seconds per tick of the player controller
+const PLAYER_STEP = 1 / 60
+// longest frame the view turns in one go (a stalled tab shouldn't spin it around)
+const MAX_TURN_DELTA = 0.1
+
 function Player({
   stateRef,
   terrain,
-  rockVoxels,
+  water,
+  scheduler,
 }: {
   stateRef: React.MutableRefObject<PlayerState>
   terrain: TerrainData
-  rockVoxels: Set<string>
+  water: WaterField
+  scheduler: Scheduler
 }) {
   const meshRef = useRef<Mesh>(null!)
-  const helperMeshRef = useRef<Mesh>(null!)
   const keys = useKeyboard()
 
-  const { camera } = useThree()
-
   const positionRef = useRef<Vector3>(stateRef.current.position)
   const forwardRef = useRef<Vector3>(stateRef.current.forward)
-  const yawRef = useRef<number>(0)
+  const normalRef = useRef<Vector3>(stateRef.current.normal)
+  const normalVelocityRef = useRef(new Vector3())
   const pitchRef = useRef<number>(0)
+  const bodyRef = useRef<PlayerBody | null>(null)
+  // the body before its last tick, to interpolate between
+  const previousRef = useRef({ feet: [0, 0, 0] as [number, number, number], height: PLAYER_HEIGHT })
+  const temp = useMemo(
+    () => ({
+      radial: new Vector3(),
+      right: new Vector3(),
+      move: new Vector3(),
+      waist: new Vector3(),
+      spring: new Vector3(),
+      up: new Vector3(0, 1, 0),
+      // plain-array copies for the controller
+      eye: [0, 0, 0] as [number, number, number],
+      up3: [0, 0, 0] as [number, number, number],
+      input: { move: [0, 0, 0], jump: false, crouch: false, speedFactor: 1, swimming: false } as PlayerInput,
+      // where the body is drawn, between its previous and current tick
+      shown: createPlayerBody([0, 0, 0]),
+    }),
+    [],
+  )
 
-  // helper cylinder is rendered as a child mesh in JSX below
+  // a new planet drops the player back onto the surface under where they stood
+  useEffect(() => {
+    const radial = positionRef.current.clone().normalize()
+    const feet = radial.multiplyScalar(sampleSurfaceRadius(positionRef.current, terrain.heights) + VOXEL_SIZE)
+    bodyRef.current = createPlayerBody(feet.toArray() as [number, number, number])
+    previousRef.current = { feet: [...bodyRef.current.feet], height: bodyRef.current.height }
+  }, [terrain.heights])
+
+  // the body moves on the world's clock: it stops while paused and keeps pace with the time scale
+  useEffect(
+    () =>
+      registerSystem(scheduler, {
+        id: 'player',
+        step: PLAYER_STEP,
+        fine: true,
+        tick: (dt) => {
+          const body = bodyRef.current
+          if (!body) return
+          previousRef.current.feet = [...body.feet]
+          previousRef.current.height = body.height
+          const forward = forwardRef.current
+          const normal = normalRef.current
+
+          // Local "up" follows the radial direction from the planet centre through a damped spring,
+          // so walking over the curvature tilts the view smoothly instead of snapping.
+          temp.radial.fromArray(playerUp(body, temp.up3))
+          temp.spring.subVectors(temp.radial, normal).multiplyScalar(GRAVITY_SPRING * dt)
+          normalVelocityRef.current.add(temp.spring).multiplyScalar(Math.max(0, 1 - GRAVITY_DAMP * dt))
+          normal.addScaledVector(normalVelocityRef.current, dt).normalize()
+
+          // Movement relative to forward/right on the tangent plane
+          temp.right.crossVectors(forward, normal).normalize()
+          temp.move.set(0, 0, 0)
+          if (keys.current.forward) temp.move.add(forward)
+          if (keys.current.back) temp.move.sub(forward)
+          if (keys.current.left) temp.move.sub(temp.right)
+          if (keys.current.right) temp.move.add(temp.right)
+
+          // water at waist height slows the player down and lets them swim up
+          temp.waist.fromArray(body.feet).addScaledVector(temp.radial, body.height / 2)
+          const swimming = isUnderwater(water, terrain.store, temp.waist)
+          const { input } = temp
+          temp.move.toArray(input.move)
+          input.jump = keys.current.jump
+          input.crouch = keys.current.crouch
+          input.speedFactor = swimming ? WATER_SPEED_FACTOR : 1
+          input.swimming = swimming
+          // gravity, jumps, steps and swept collision against every solid voxel and sub-voxel
+          stepPlayer(terrain.store, body, input, dt)
+        },
+      }),
+    [scheduler, terrain.store, water, keys, temp],
+  )
 
-  useFrame((state, delta) => {
+  useFrame((_state, frameDelta) => {
+    const body = bodyRef.current
+    if (!body) return
+    const delta = Math.min(frameDelta, MAX_TURN_DELTA)
+    const position = positionRef.current
+    const forward = forwardRef.current
+    const normal = normalRef.current
 
-    // Rotation from arrow keys
+    // Rotation from arrow keys: yaw turns around the local normal. Looking around is not part of
+    // the simulation, so it works while paused.
     const rotSpeed = 1.8 // radians per second
-    if (keys.current.rotateLeft) yawRef.current -= rotSpeed * delta
-    if (keys.current.rotateRight) yawRef.current += rotSpeed * delta
+    if (keys.current.rotateLeft) forward.applyAxisAngle(normal, rotSpeed * delta)
+    if (keys.current.rotateRight) forward.applyAxisAngle(normal, -rotSpeed * delta)
     if (keys.current.rotateUp) pitchRef.current = Math.min(0.8, pitchRef.current + rotSpeed * delta)
     if (keys.current.rotateDown) pitchRef.current = Math.max(-0.4, pitchRef.current - rotSpeed * delta)
 
-    // Update forward vector from yaw
-    forwardRef.current.set(Math.sin(yawRef.current), 0, -Math.cos(yawRef.current)).normalize()
-
-    // Movement relative to forward/right
-    const move = new Vector3()
-    if (keys.current.forward) move.add(forwardRef.current)
-    if (keys.current.back) move.add(forwardRef.current.clone().negate())
-    const right = new Vector3(-forwardRef.current.z, 0, forwardRef.current.x).normalize()
-    if (keys.current.left) move.add(right.clone().negate())
-    if (keys.current.right) move.add(right)
-
-    if (move.length() > 0) {
-      move.normalize().multiplyScalar(delta * 5)
-      positionRef.current.add(move)
-    }
-
-    // Keep player on flat surface (tentative)
-    positionRef.current.y = sampleSurfaceHeight(positionRef.current, terrain.heights) + PLAYER_HEIGHT
-
-    // Simple collision resolution against rock voxels (prevent walking through marble)
-    const radius = PLAYER_RADIUS
-    const halfVoxel = VOXEL_SIZE / 2
-    const px = positionRef.current.x
-    const pz = positionRef.current.z
-    const py = positionRef.current.y - PLAYER_HEIGHT // approximate feet y
-
-    const cellX = Math.round(px / VOXEL_SIZE)
-    const cellZ = Math.round(pz / VOXEL_SIZE)
-    const search = Math.ceil((radius + halfVoxel) / VOXEL_SIZE) + 1
-    for (let dx = -search; dx <= search; dx++) {
-      for (let dz = -search; dz <= search; dz++) {
-        for (let dy = -1; dy <= Math.ceil(PLAYER_HEIGHT / VOXEL_SIZE) + 1; dy++) {
-          const ix = cellX + dx
-          const iz = cellZ + dz
-          const iy = Math.round((py / VOXEL_SIZE)) + dy
-          const key = `${ix}|${iy}|${iz}`
-          if (!rockVoxels.has(key)) continue
-          const vx = ix * VOXEL_SIZE
-          const vy = iy * VOXEL_SIZE
-          const vz = iz * VOXEL_SIZE
-          const top = vy + halfVoxel
-          const bottom = vy - halfVoxel
-          // check vertical overlap: player's feet to head
-          const playerFeet = positionRef.current.y - PLAYER_HEIGHT
-          const playerHead = positionRef.current.y
-          if (playerHead < bottom || playerFeet > top + PLAYER_HEIGHT) continue
-
-          // horizontal push
-          const dxh = px - vx
-          const dzh = pz - vz
-          const dist = Math.sqrt(dxh * dxh + dzh * dzh)
-          const minDist = radius + halfVoxel
-          if (dist < 0.001) {
-            // nudge out on X axis
-            positionRef.current.x += (minDist)
-          } else if (dist < minDist) {
-            const push = (minDist - dist)
-            positionRef.current.x += (dxh / dist) * push
-            positionRef.current.z += (dzh / dist) * push
-          }
-        }
-      }
-    }
-
-    // Camera follows player and looks in forward direction with pitch
-    const lookAt = positionRef.current.clone().add(forwardRef.current.clone().setY(Math.tan(pitchRef.current)))
-    camera.position.copy(positionRef.current)
-    camera.lookAt(lookAt)
-
-    stateRef.current.position.copy(positionRef.current)
-    stateRef.current.forward.copy(forwardRef.current)
+    // Keep forward on the tangent plane
+    forward.addScaledVector(normal, -forward.dot(normal))
+    if (forward.lengthSq() < 1e-6) forward.crossVectors(normal, temp.up.set(1, 0, 0))
+    forward.normalize()
+
+    const alpha = tickAlpha(scheduler, 'player')
+    const previous = previousRef.current
+    const { shown } = temp
+    for (let a = 0; a < 3; a++) shown.feet[a] = previous.feet[a] + (body.feet[a] - previous.feet[a]) * alpha
+    shown.height = previous.height + (body.height - previous.height) * alpha
+    position.fromArray(eyePosition(shown, temp.eye))
+
+    // the capsule mesh is modelled standing; crouching squashes it
+    temp.radial.fromArray(playerUp(shown, temp.up3))
+    meshRef.current.position.fromArray(shown.feet).addScaledVector(temp.radial, shown.height / 2)
+    meshRef.current.quaternion.setFromUnitVectors(temp.up.set(0, 1, 0), normal)
+    meshRef.current.scale.set(1, shown.height / PLAYER_HEIGHT, 1)
+
+    stateRef.current.position.copy(position)
+    stateRef.current.forward.copy(forward)
+    stateRef.current.normal.copy(normal)
+    stateRef.current.pitch = pitchRef.current
   })
 
   return (
-    <mesh ref={meshRef} position={positionRef.current}>
-      <capsuleGeometry args={[PLAYER_RADIUS, 0.3, 6, 12]} />
+    <mesh ref={meshRef} castShadow>
+      <capsuleGeometry args={[PLAYER_RADIUS, PLAYER_HEIGHT - 2 * PLAYER_RADIUS, 6, 12]} />
       <meshStandardMaterial color="#e9f2ff" roughness={0.4} />
     </mesh>
   )
@@ -399,16 +396,19 @@ function CameraRig({ mode, stateRef }: { mode: GeoSceneProps['cameraMode']; stat
     () => ({
       offset: new Vector3(),
       target: new Vector3(),
+      tangent: new Vector3(),
+      bitangent: new Vector3(),
       up: new Vector3(0, 1, 0),
     }),
     [],
   )
 
   useEffect(() => {
-    if (mode !== 'iso') return
+    if (mode === 'first') return
 
     const onPointerDown = (event: PointerEvent) => {
-      if (event.button !== 0) return
+      // Shift+drag paints with the tool instead (VoxelCursor)
+      if (event.button !== 0 || event.shiftKey) return
       orbitRef.current.dragging = true
       orbitRef.current.lastX = event.clientX
       orbitRef.current.lastY = event.clientY
@@ -453,234 +453,441 @@ function CameraRig({ mode, stateRef }: { mode: GeoSceneProps['cameraMode']; stat
     }
   }, [mode])
 
-  useFrame((_state, delta) => {
-    const { position, forward, normal } = stateRef.current
+  useFrame(() => {
+    const { position, forward, normal, pitch } = stateRef.current
+    if (mode === 'section') {
+      // orbit the planet centre, world up, to look into the cut
+      const { distance, polar, azimuth } = orbitRef.current
+      camera.up.set(0, 1, 0)
+      temp.offset.setFromSphericalCoords(distance, polar, azimuth)
+      camera.position.lerp(temp.offset, 0.2)
+      camera.lookAt(0, 0, 0)
+      return
+    }
+    // the planet normal under the player is "up" for both modes
+    camera.up.copy(normal)
 
     if (mode === 'first') {
-      temp.offset.copy(normal).multiplyScalar(0.35)
-      temp.target.copy(position).addScaledVector(forward, 2)
-      camera.position.lerp(temp.offset.add(position), 0.35)
+      // the player's eyes: crouching lowers the view with the capsule
+      temp.target.copy(position).addScaledVector(forward, 2).addScaledVector(normal, 2 * Math.tan(pitch))
+      camera.position.lerp(position, 0.35)
       camera.lookAt(temp.target)
       return
     }
 
-    // Isométrico: câmera fixa em um ângulo alto, olhando para o player
+    // Isométrico: câmera em um ângulo alto sobre o plano tangente local, olhando para o player
+    temp.tangent.crossVectors(normal, temp.up.set(0, 1, 0))
+    if (temp.tangent.lengthSq() < 1e-6) temp.tangent.crossVectors(normal, temp.up.set(1, 0, 0))
+    temp.tangent.normalize()
+    temp.bitangent.crossVectors(temp.tangent, normal)
+    const { distance, polar, azimuth } = orbitRef.current
     temp.target.copy(position)
-    temp.offset.setFromSphericalCoords(
-      orbitRef.current.distance,
-      orbitRef.current.polar,
-      orbitRef.current.azimuth,
-    )
+    temp.offset
+      .copy(normal)
+      .multiplyScalar(Math.cos(polar))
+      .addScaledVector(temp.tangent, Math.sin(polar) * Math.cos(azimuth))
+      .addScaledVector(temp.bitangent, Math.sin(polar) * Math.sin(azimuth))
+      .multiplyScalar(distance)
     camera.position.lerp(temp.offset.add(temp.target), 0.12)
     camera.lookAt(temp.target)
-    camera.up.copy(temp.up)
   })
 
   return null
 }
 
-function TerrainVoxels({ terrain, setTerrain, subVoxels, setSubVoxels }: { terrain: TerrainData; setTerrain: (t: TerrainData) => void; subVoxels: Vector3[]; setSubVoxels: (s: Vector3[]) => void }) {
-  const basePath = '/SSBJr.geosimulator/'
+// The texture images glTF exports embed, fetched as the game loads them
+function loadExportTextures(): Promise<ExportTextures> {
+  const load = (file: string) =>
+    fetch(texturePath(file)).then((response) => {
+      if (!response.ok) throw new Error(`Textura ${file} não encontrada`)
+      return response.arrayBuffer().then((buffer) => new Uint8Array(buffer))
+    })
+  const loadSet = (files: Record<keyof TextureSet, string>) =>
+    Promise.all([load(files.color), load(files.normal), load(files.roughness)]).then(([color, normal, roughness]) => ({
+      color,
+      normal,
+      roughness,
+    }))
+  return Promise.all([loadSet(TEXTURE_FILES.ground), loadSet(TEXTURE_FILES.rock)]).then(([ground, rock]) => ({ ground, rock }))
+}
 
-  const dirtColor = useTexture(basePath + 'textures/Ground086_1K-JPG_Color.jpg')
-  const dirtNormal = useTexture(basePath + 'textures/Ground086_1K-JPG_NormalGL.jpg')
-  const dirtRoughness = useTexture(basePath + 'textures/Ground086_1K-JPG_Roughness.jpg')
+// tools a drag paints with; the others (core, vent) only act on a click
+const PAINTING_TOOLS = new Set<SceneTool>(['dig', 'place', 'drill', 'fill', 'flatten', 'water'])
 
-  const rockColor = useTexture(basePath + 'textures/Rock058_1K-JPG_Color.jpg')
-  const rockNormal = useTexture(basePath + 'textures/Rock058_1K-JPG_NormalGL.jpg')
-  const rockRoughness = useTexture(basePath + 'textures/Rock058_1K-JPG_Roughness.jpg')
+// Ctrl+Z in a text field undoes the typing, not the last edit
+function isTextEntry(target: EventTarget | null) {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  )
+}
 
-  const rockInstRef = useRef<InstancedMesh | null>(null)
-  const dirtInstRef = useRef<InstancedMesh | null>(null)
-  const subInstRef = useRef<InstancedMesh | null>(null)
+function buildChunkGeometry(data: ChunkMeshData) {
+  if (data.indices.length === 0) return null
+  const geometry = new BufferGeometry()
+  geometry.setAttribute('position', new BufferAttribute(data.positions, 3))
+  geometry.setAttribute('normal', new BufferAttribute(data.normals, 3))
+  geometry.setAttribute('uv', new BufferAttribute(data.uvs, 2))
+  geometry.setIndex(new BufferAttribute(data.indices, 1))
+  for (const group of data.groups) geometry.addGroup(group.start, group.count, group.material)
+  geometry.computeBoundingSphere()
+  return geometry
+}
 
-  // update static instanced meshes when terrain or subVoxels change
+function TerrainVoxels({
+  world,
+  terrain,
+  physics,
+  onCollapse,
+  tool,
+  toolOptions,
+  cameraMode,
+  eyeRef,
+  clippingPlanes,
+  coreMode,
+  onCore,
+}: {
+  world: World
+  terrain: TerrainData
+  physics: PhysicsBridge
+  tool: SceneTool
+  toolOptions: ToolOptions
+  cameraMode: GeoSceneProps['cameraMode']
+  eyeRef: React.MutableRefObject<PlayerState>
+  clippingPlanes: Plane[]
+  onCollapse?: (event: CollapseEvent) => void
+  coreMode: CoreMode
+  onCore?: (core: CoreSample) => void
+}) {
+  const materials = useTerrainMaterials()
   useEffect(() => {
-    const rockMesh = rockInstRef.current
-    const dirtMesh = dirtInstRef.current
-    if (!rockMesh || !dirtMesh) return
-
-    const rockPositions: Vector3[] = []
-    const dirtPositions: Vector3[] = []
-    for (let i = 0; i < terrain.positions.length; i++) {
-      const p = terrain.positions[i]
-      const c = terrain.colors[i]
-      if (c.equals(COLORS.rock)) rockPositions.push(p)
-      else dirtPositions.push(p)
-    }
+    for (const material of materials) if (material) material.clippingPlanes = clippingPlanes
+  }, [materials, clippingPlanes])
+  // fragments of the last edit, spawned once the worker has the re-meshed colliders around them
+  const pendingFragmentsRef = useRef<DebrisFragment[]>([])
 
-    const tmp = new Object3D()
-    rockMesh.count = rockPositions.length
-    for (let i = 0; i < rockPositions.length; i++) {
-      tmp.position.copy(rockPositions[i])
-      tmp.updateMatrix()
-      rockMesh.setMatrixAt(i, tmp.matrix)
-    }
-    rockMesh.instanceMatrix.needsUpdate = true
+  // one geometry per non-empty chunk, keyed by chunk index; only dirty chunks are re-meshed
+  const chunkGeometriesRef = useRef(new Map<number, BufferGeometry>())
+  const meshedRef = useRef<MeshedChunks>({ store: null, keys: new Set() })
+  const [, setMeshVersion] = useState(0)
 
-    dirtMesh.count = dirtPositions.length
-    for (let i = 0; i < dirtPositions.length; i++) {
-      tmp.position.copy(dirtPositions[i])
-      tmp.updateMatrix()
-      dirtMesh.setMatrixAt(i, tmp.matrix)
+  useEffect(() => {
+    const updates = remeshChunks(meshedRef.current, terrain.store, VOXEL_SIZE)
+    if (updates.length === 0) return
+    const geometries = chunkGeometriesRef.current
+    for (const { key, data } of updates) {
+      geometries.get(key)?.dispose()
+      geometries.delete(key)
+      // the same faces double as the chunk's static collider in the physics worker
+      physics.setChunk(key, data)
+      const geometry = data && buildChunkGeometry(data)
+      if (geometry) geometries.set(key, geometry)
     }
-    dirtMesh.instanceMatrix.needsUpdate = true
-
-    // update sub-voxel instances
-    const subMesh = subInstRef.current
-    if (subMesh) {
-      const tmp2 = new Object3D()
-      subMesh.count = subVoxels.length
-      for (let i = 0; i < subVoxels.length; i++) {
-        tmp2.position.copy(subVoxels[i])
-        tmp2.updateMatrix()
-        subMesh.setMatrixAt(i, tmp2.matrix)
-      }
-      subMesh.instanceMatrix.needsUpdate = true
+    if (pendingFragmentsRef.current.length > 0) {
+      physics.spawn(pendingFragmentsRef.current)
+      pendingFragmentsRef.current = []
     }
-  }, [terrain.positions, terrain.colors, subVoxels])
-
-  const handleRockClick = (index: number, faceNormal: Vector3 | null = null, clickPoint: Vector3 | null = null) => {
-    const origPos = terrain.positions[index]
-    // remove clicked voxel from terrain
-    const newPositions = terrain.positions.filter((_, i) => i !== index)
-    const newColors = terrain.colors.filter((_, i) => i !== index)
-
-    // Subdivide voxel and create prism along faceNormal axis; if faceNormal is null, choose random axis
-    const n = 4
-    const subSize = VOXEL_SIZE / n
-
-    // Determine axis (0=x,1=y,2=z) from faceNormal
-    let axis = 1
-    if (faceNormal) {
-      const abs = new Vector3(Math.abs(faceNormal.x), Math.abs(faceNormal.y), Math.abs(faceNormal.z))
-      axis = abs.x > abs.y && abs.x > abs.z ? 0 : abs.z > abs.y ? 2 : 1
-    } else {
-      axis = Math.floor(Math.random() * 3)
+    setMeshVersion((v) => v + 1)
+  }, [terrain, physics])
+
+  useEffect(() => {
+    const geometries = chunkGeometriesRef.current
+    return () => {
+      geometries.forEach((geometry) => geometry.dispose())
+      geometries.clear()
     }
+  }, [])
 
-    // Prism: square base on the clicked face with 15% area, centered at click point
-    if (!faceNormal || !clickPoint) return
-    const face = faceNormal.clone()
-    // Determine axis (0=x,1=y,2=z)
-    const abs = new Vector3(Math.abs(face.x), Math.abs(face.y), Math.abs(face.z))
-    const axisLocal = abs.x > abs.y && abs.x > abs.z ? 0 : abs.z > abs.y ? 2 : 1
-
-    // compute local center of click relative to voxel center in -half..half
-    const local = new Vector3(clickPoint.x - origPos.x, clickPoint.y - origPos.y, clickPoint.z - origPos.z)
-    const half = VOXEL_SIZE / 2
-
-    // side length of square base on face
-    const s = Math.sqrt(0.15) * VOXEL_SIZE
-    const halfS = s / 2
-
-    // pick the two axes that form the face plane
-    const axisU = (axisLocal + 1) % 3
-    const axisV = (axisLocal + 2) % 3
-
-    // map local vector to array for easy access
-    const localArr = [local.x, local.y, local.z]
-
-    const staticPositions: Vector3[] = []
-
-    for (let ix = 0; ix < n; ix++) {
-      for (let iy = 0; iy < n; iy++) {
-        for (let iz = 0; iz < n; iz++) {
-          const coords = [ix, iy, iz]
-          const cx = origPos.x + ((ix + 0.5) / n - 0.5) * VOXEL_SIZE
-          const cy = origPos.y + ((iy + 0.5) / n - 0.5) * VOXEL_SIZE
-          const cz = origPos.z + ((iz + 0.5) / n - 0.5) * VOXEL_SIZE
-          const centerLocal = [cx - origPos.x, cy - origPos.y, cz - origPos.z]
-          const u = centerLocal[axisU]
-          const v = centerLocal[axisV]
-          const centerU = localArr[axisU]
-          const centerV = localArr[axisV]
-          const inPrism = Math.abs(u - centerU) <= halfS && Math.abs(v - centerV) <= halfS
-          if (!inPrism) {
-            staticPositions.push(new Vector3(cx, cy, cz))
-          }
-        }
-      }
+  // the world re-meshes on its next revision; debris waits for the new colliders
+  const edit = (worldEdit: WorldEdit) => {
+    const result = applyEdit(world, worldEdit)
+    pendingFragmentsRef.current.push(...result.fragments)
+    if (result.collapse) onCollapse?.(result.collapse)
+  }
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextEntry(event.target)) return
+      const redo = event.code === 'KeyY' || (event.code === 'KeyZ' && event.shiftKey)
+      if (event.code !== 'KeyZ' && !redo) return
+      event.preventDefault()
+      if (redo) redoEdit(world)
+      else undoEdit(world)
+      // debris of a step that was taken back would come to rest as extra material
+      const undone = (fragment: DebrisFragment) => fragment.source !== undefined && !world.history.undo.includes(fragment.source)
+      pendingFragmentsRef.current = pendingFragmentsRef.current.filter((fragment) => !undone(fragment))
+      const falling = Array.from(physics.fragments).filter(([, fragment]) => undone(fragment))
+      if (falling.length > 0) physics.remove(falling.map(([id]) => id))
     }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [world, physics])
 
-    // Permanently remove the clicked voxel (do not add sub-voxels)
-    setTerrain({ ...terrain, positions: newPositions, colors: newColors })
+  // a drag is one undo step
+  const stroke = (active: boolean) => {
+    if (active) beginGroup(world.history, 'stroke')
+    else endGroup(world.history)
+  }
+
+  const use = (hit: VoxelHit) => {
+    const { cell, normal, point } = hit
+    // the empty voxel in front of the face that was hit
+    const front: [number, number, number] = [cell[0] + normal[0], cell[1] + normal[1], cell[2] + normal[2]]
+    switch (tool) {
+      case 'dig':
+        edit({ type: 'dig', cell })
+        return
+      case 'place':
+        if (queryVoxel(world, ...front) === MATERIAL.air) edit({ type: 'set', cell: front, material: toolOptions.material })
+        return
+      case 'fill':
+        edit({ type: 'fill', cell, radius: toolOptions.radius, shape: toolOptions.shape, material: toolOptions.material })
+        return
+      case 'flatten':
+        // levels to the top of the voxel that was hit, filling with what it is made of
+        edit({ type: 'flatten', cell, radius: toolOptions.radius, material: hit.material })
+        return
+      case 'water':
+        // a bucket's worth of water in the empty voxel in front of the clicked face
+        edit({ type: 'water', position: [point[0] + normal[0] * 0.5, point[1] + normal[1] * 0.5, point[2] + normal[2] * 0.5], volume: 8 })
+        return
+      case 'core': {
+        // collar just inside the hit face; vertical cores head for the planet centre
+        const collar: [number, number, number] = [point[0] - normal[0] * 0.01, point[1] - normal[1] * 0.01, point[2] - normal[2] * 0.01]
+        const direction: [number, number, number] =
+          coreMode === 'vertical' ? [-collar[0], -collar[1], -collar[2]] : [-normal[0], -normal[1], -normal[2]]
+        onCore?.(sampleCore(terrain.store, collar, direction))
+        return
+      }
+      case 'vent':
+        // the vent opens in the empty voxel in front of the clicked face
+        edit({ type: 'vent', cell: front })
+        return
+      case 'drill':
+        edit({ type: 'drill', cell, normal, point })
+        return
+    }
   }
 
   return (
     <group>
-      {/* Static terrain instanced meshes: rock and dirt */}
-      <instancedMesh
-        ref={rockInstRef}
-        args={[undefined, undefined, Math.max(1, terrain.positions.length)]}
-        onPointerDown={(e) => {
-          e.stopPropagation()
-          const id = (e as any).instanceId
-          if (id == null) return
-          // map instance id -> terrain index of rock
-          const rockIndices: number[] = []
-          for (let i = 0; i < terrain.positions.length; i++) if (terrain.colors[i].equals(COLORS.rock)) rockIndices.push(i)
-          const terrainIndex = rockIndices[id]
-          if (terrainIndex == null) return
-          const faceN = e.face ? new Vector3(e.face.normal.x, e.face.normal.y, e.face.normal.z) : null
-          const clickP = e.point ? new Vector3(e.point.x, e.point.y, e.point.z) : null
-          handleRockClick(terrainIndex, faceN, clickP)
-        }}
-      >
-        <boxGeometry args={[VOXEL_SIZE, VOXEL_SIZE, VOXEL_SIZE]} />
-        <meshStandardMaterial map={rockColor} normalMap={rockNormal} roughnessMap={rockRoughness} />
-      </instancedMesh>
-
-      <instancedMesh ref={dirtInstRef} args={[undefined, undefined, Math.max(1, terrain.positions.length)]}>
-        <boxGeometry args={[VOXEL_SIZE, VOXEL_SIZE, VOXEL_SIZE]} />
-        <meshStandardMaterial map={dirtColor} normalMap={dirtNormal} roughnessMap={dirtRoughness} />
-      </instancedMesh>
-
-      {/* sub-voxel static pieces (smaller than VOXEL_SIZE) */}
-      <instancedMesh ref={subInstRef} args={[undefined, undefined, Math.max(1, subVoxels.length)]}>
-        <boxGeometry args={[SUBVOXEL_SIZE, SUBVOXEL_SIZE, SUBVOXEL_SIZE]} />
-        <meshStandardMaterial map={rockColor} normalMap={rockNormal} roughnessMap={rockRoughness} />
-      </instancedMesh>
+      {/* Static terrain: one face-culled mesh per chunk, material groups index into `materials` */}
+      {Array.from(chunkGeometriesRef.current, ([key, geometry]) => (
+        <mesh key={key} geometry={geometry} material={materials} castShadow receiveShadow />
+      ))}
+      <VoxelCursor
+        store={terrain.store}
+        mode={cameraMode}
+        reach={toolOptions.reach}
+        eyeRef={eyeRef}
+        adjacent={tool === 'place' || tool === 'vent'}
+        clip={clippingPlanes[0]}
+        onUse={use}
+        onStroke={PAINTING_TOOLS.has(tool) ? stroke : undefined}
+      />
     </group>
   )
 }
 
-export default function GeoScene({ seed, cameraMode }: GeoSceneProps) {
+// Advances the world's clock once per frame, before anything reads the systems' state, and
+// re-renders the scene whenever the world's voxels change.
+function WorldClock({ world, onRevision }: { world: World; onRevision: () => void }) {
+  const revisionRef = useRef(world.revision)
+  useFrame((_state, delta) => {
+    advanceScheduler(world.scheduler, delta)
+    if (world.revision === revisionRef.current) return
+    revisionRef.current = world.revision
+    onRevision()
+  })
+  return null
+}
+
+const NO_CORES: SavedCore[] = []
+const NO_PLANES: Plane[] = []
+
+export default function GeoScene({
+  seed,
+  cameraMode,
+  section = DEFAULT_SECTION,
+  tool = 'drill',
+  toolOptions = DEFAULT_TOOL_OPTIONS,
+  seaLevel = SEA_LEVEL,
+  erosionIterations,
+  foldedStrata = true,
+  imported = null,
+  erosionSpeed = 0,
+  revoxelizeDebris = true,
+  collapseStyle = 'blocks',
+  onCollapse,
+  coreMode = 'vertical',
+  onCore,
+  cores = NO_CORES,
+  selectedCoreId,
+  solarTime,
+  latitude = 0,
+  daySpeed = 0.2,
+  onSolarReport,
+  weather = null,
+  weatherSchedule,
+  onWeatherReport,
+  paused = false,
+  timeScale = 1,
+  stepRequest,
+  save = null,
+  saveRequest,
+  onSave,
+  exportRequest,
+  onExport,
+}: GeoSceneProps) {
   const playerStateRef = useRef<PlayerState>({
-    position: new Vector3(0, 10, 0),
-    forward: new Vector3(0, 0, -1),
-    normal: new Vector3(0, 1, 0),
+    // start on the equator, facing north
+    position: new Vector3(0, 0, PLANET_RADIUS + 10),
+    forward: new Vector3(0, 1, 0),
+    normal: new Vector3(0, 0, 1),
+    pitch: 0,
   })
 
-  const [terrain, setTerrain] = useState(() => generatePlanet(seed))
-
-  // sub-voxel pieces created after drilling (static pieces)
-  const [subVoxels, setSubVoxels] = useState<Vector3[]>([])
-
-  // Build a fast lookup set of rock voxel grid keys for collision queries
-  const rockVoxelSet = useMemo(() => {
-    const s = new Set<string>()
-    for (let i = 0; i < terrain.positions.length; i++) {
-      if (!terrain.colors[i].equals(COLORS.rock)) continue
-      const p = terrain.positions[i]
-      const ix = Math.round(p.x / VOXEL_SIZE)
-      const iy = Math.round(p.y / VOXEL_SIZE)
-      const iz = Math.round(p.z / VOXEL_SIZE)
-      s.add(`${ix}|${iy}|${iz}`)
-    }
-    return s
-  }, [terrain.positions, terrain.colors])
+  const layers = useMemo(
+    () =>
+      planetLayers({
+        erosionIterations,
+        ...(foldedStrata ? {} : { fold: 0, dip: 0 }),
+        ...(imported ? { heights: imported.heights, quarries: imported.quarries } : {}),
+      }),
+    [erosionIterations, foldedStrata, imported],
+  )
+  const generator = useMemo(
+    () => ({
+      erosionIterations: erosionIterations ?? DEFAULT_EROSION_ITERATIONS,
+      foldedStrata,
+      ...(imported && {
+        imported: {
+          name: imported.name,
+          quarries: imported.quarries,
+          heights: toBase64(new Uint8Array(imported.heights.buffer, imported.heights.byteOffset, imported.heights.byteLength)),
+        },
+      }),
+    }),
+    [erosionIterations, foldedStrata, imported],
+  )
+  // the world model (world.ts); this component and its children only draw it and forward input
+  const world = useMemo(() => {
+    const next = createWorld(seed, { layers })
+    if (save && saveMatches(save, seed, generator)) restoreWorld(next, save)
+    return next
+  }, [seed, layers, generator, save])
+  // a fresh copy re-renders everything that draws the voxels
+  const [terrain, setTerrain] = useState(world.terrain)
+  useEffect(() => setTerrain(world.terrain), [world])
 
-  const sunPosition = [50, 20, 30] as const
+  useEffect(() => {
+    if (world.water.seaLevel !== seaLevel) setSeaLevel(world, seaLevel)
+  }, [world, seaLevel])
+  useEffect(() => setErosionSpeed(world, erosionSpeed), [world, erosionSpeed])
+  useEffect(() => {
+    world.collapseStyle = collapseStyle
+  }, [world, collapseStyle])
+
+  const { scheduler, clock } = world
+  useEffect(() => {
+    scheduler.paused = paused
+    scheduler.scale = timeScale
+  }, [scheduler, paused, timeScale])
+  useEffect(() => {
+    if (stepRequest) stepScheduler(scheduler)
+  }, [scheduler, stepRequest])
+  const onSaveRef = useRef(onSave)
+  onSaveRef.current = onSave
+  // each request is answered once, not again for the next world
+  const savedRequestRef = useRef<object>()
+  useEffect(() => {
+    if (!saveRequest || savedRequestRef.current === saveRequest) return
+    savedRequestRef.current = saveRequest
+    onSaveRef.current?.(saveWorld(world, generator), saveRequest)
+  }, [world, generator, saveRequest])
+  const onExportRef = useRef(onExport)
+  onExportRef.current = onExport
+  const exportedRequestRef = useRef<ExportRequest>()
+  useEffect(() => {
+    if (!exportRequest || exportedRequestRef.current === exportRequest) return
+    exportedRequestRef.current = exportRequest
+    const { store } = world.terrain
+    const textures = exportRequest.format === 'gltf' ? loadExportTextures() : Promise.resolve(null)
+    textures
+      .then((loaded) => exportTerrain(store, exportRequest, loaded))
+      .then(
+        (files) => onExportRef.current?.(files),
+        (error: Error) => onExportRef.current?.(error),
+      )
+  }, [world, exportRequest])
+
+  useEffect(() => {
+    if (solarTime) clock.hours = solarTime.day * HOURS_PER_DAY + solarTime.hour
+  }, [clock, solarTime])
+  useEffect(() => {
+    clock.latitude = (latitude * Math.PI) / 180
+    clock.rate = daySpeed
+  }, [clock, latitude, daySpeed])
+
+  useEffect(() => forceWeather(world.weather, weather), [world, weather])
+  useEffect(() => {
+    if (weatherSchedule) scheduleWeather(world.weather, weatherSchedule.state, weatherSchedule.delay)
+  }, [world, weatherSchedule])
+
+  // the section view hides everything beyond the plane (three keeps the side a plane's normal points to)
+  const clippingPlanes = useMemo(() => {
+    if (cameraMode !== 'section') return NO_PLANES
+    const [x, y, z] = sectionNormal(section)
+    return [new Plane(new Vector3(-x, -y, -z), section.offset)]
+  }, [cameraMode, section])
+
+  // Rapier runs in a worker; restarting it (StrictMode, HMR) re-sends the terrain colliders
+  const physics = useMemo(() => createPhysicsBridge(), [])
+  useEffect(() => {
+    physics.start()
+    return () => physics.stop()
+  }, [physics])
 
   return (
-    <Canvas className="canvas" camera={{ position: [0, 12, 0], fov: 62 }}>
-      <color attach="background" args={['#05070c']} />
-      <ambientLight intensity={1.35} />
-      <hemisphereLight intensity={0.85} color="#e6f1ff" groundColor="#24324f" />
-      <directionalLight position={sunPosition} intensity={1.6} />
-      <TerrainVoxels terrain={terrain} setTerrain={setTerrain} subVoxels={subVoxels} setSubVoxels={setSubVoxels} />
-      <Player stateRef={playerStateRef} terrain={terrain} rockVoxels={rockVoxelSet} subVoxels={subVoxels} />
+    <Canvas
+      className="canvas"
+      shadows
+      camera={{ position: [0, 0, PLANET_RADIUS + 12], fov: 62 }}
+      onCreated={({ gl }) => {
+        gl.localClippingEnabled = true
+      }}
+    >
+      <WorldClock world={world} onRevision={() => setTerrain({ ...world.terrain })} />
+      <Sky clock={clock} climate={world.climate} scheduler={scheduler} weather={world.weather} onReport={onSolarReport} />
+      <TerrainVoxels
+        world={world}
+        terrain={terrain}
+        physics={physics}
+        onCollapse={onCollapse}
+        tool={tool}
+        toolOptions={toolOptions}
+        cameraMode={cameraMode}
+        eyeRef={playerStateRef}
+        clippingPlanes={clippingPlanes}
+        coreMode={coreMode}
+        onCore={onCore}
+      />
+      <CoreMarkers cores={cores} selectedId={selectedCoreId} />
+      {cameraMode === 'section' && <Section terrain={terrain} section={section} />}
+      <Lava field={world.lava} terrain={terrain} clippingPlanes={clippingPlanes} />
+      <Water field={world.water} terrain={terrain} clippingPlanes={clippingPlanes} />
+      <Weather
+        weather={world.weather}
+        terrain={terrain}
+        physics={physics}
+        seed={seed}
+        focusRef={playerStateRef}
+        onReport={onWeatherReport}
+      />
+      <Debris bridge={physics} world={world} revoxelize={revoxelizeDebris} />
+      <Player stateRef={playerStateRef} terrain={terrain} water={world.water} scheduler={scheduler} />
       <CameraRig mode={cameraMode} stateRef={playerStateRef} />
     </Canvas>
   )
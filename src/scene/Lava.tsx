@@ -0,0 +1,76 @@
+import { useFrame } from '@react-three/fiber'
+import { useMemo, useRef } from 'react'
+import { Color, Matrix4, Quaternion, Vector3 } from 'three'
+import type { InstancedMesh, Plane } from 'three'
+import { VOXEL_SIZE } from './constants'
+import type { TerrainData } from './generation/generatePlanet'
+import { LAVA_ERUPTION_TEMP, LAVA_SOLIDUS } from './systems/lava'
+import type { LavaField } from './systems/lava'
+import { COLORS } from './utils/materials'
+
+export type LavaProps = {
+  field: LavaField
+  terrain: TerrainData
+  maxInstances?: number
+  // section view cut (see Section.tsx)
+  clippingPlanes?: Plane[]
+}
+
+// Cooling crust colour; hot lava goes from here to COLORS.lava and then past white-hot brightness.
+const CRUST_COLOR = '#2a0c06'
+
+// Draws every lava cell as an unlit, glowing box whose size follows its volume and brightness its
+// temperature; the automaton itself ticks in the world (see world.ts).
+export default function Lava({ field, terrain, maxInstances = 4096, clippingPlanes }: LavaProps) {
+  const meshRef = useRef<InstancedMesh>(null!)
+  const temp = useMemo(
+    () => ({
+      matrix: new Matrix4(),
+      position: new Vector3(),
+      quaternion: new Quaternion(),
+      scale: new Vector3(),
+      color: new Color(),
+      crust: new Color(CRUST_COLOR),
+      lava: new Color(COLORS.lava),
+    }),
+    [],
+  )
+
+  useFrame(() => {
+
+    const mesh = meshRef.current
+    const { size: s, min } = terrain.store
+    let count = 0
+    for (const i of field.active) {
+      if (count >= maxInstances) break
+      const volume = field.volume[i]
+      if (volume <= 0) continue
+      // sink partly filled cells toward the planet centre so the melt sits on the ground
+      const size = Math.cbrt(Math.min(1, volume))
+      const x = Math.floor(i / (s * s)) + min
+      const y = (Math.floor(i / s) % s) + min
+      const z = (i % s) + min
+      temp.position.set(x, y, z).multiplyScalar(VOXEL_SIZE)
+      const r = temp.position.length() || 1
+      temp.position.multiplyScalar(1 - ((1 - size) * VOXEL_SIZE) / 2 / r)
+      temp.scale.setScalar(size * VOXEL_SIZE)
+      mesh.setMatrixAt(count, temp.matrix.compose(temp.position, temp.quaternion, temp.scale))
+
+      const heat = Math.min(1, Math.max(0, (field.temperature[i] - LAVA_SOLIDUS) / (LAVA_ERUPTION_TEMP - LAVA_SOLIDUS)))
+      temp.color.copy(temp.crust).lerp(temp.lava, heat).multiplyScalar(0.6 + heat * 1.8)
+      mesh.setColorAt(count, temp.color)
+      count++
+    }
+    mesh.count = count
+    mesh.instanceMatrix.needsUpdate = true
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true
+  })
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, maxInstances]} count={0} frustumCulled={false}>
+      <boxGeometry args={[1, 1, 1]} />
+      {/* unlit and not tone mapped: instance colours above 1 read as glow */}
+      <meshBasicMaterial toneMapped={false} clippingPlanes={clippingPlanes} />
+    </instancedMesh>
+  )
+}
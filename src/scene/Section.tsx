@@ -0,0 +1,39 @@
+import { useEffect, useMemo } from 'react'
+import { BufferAttribute, BufferGeometry, Color } from 'three'
+import type { TerrainData } from './generation/generatePlanet'
+import { MATERIALS } from './utils/materials'
+import { buildSectionCap } from './utils/section'
+import type { SectionPlane } from './utils/section'
+
+export type SectionProps = {
+  terrain: TerrainData
+  section: SectionPlane
+}
+
+// Caps the cut the section plane makes through the terrain, coloured by material, so the clipped
+// voxels read as solid rock instead of hollow shells. Rebuilt when the plane or the voxels change.
+export default function Section({ terrain, section }: SectionProps) {
+  const geometry = useMemo(() => {
+    const cap = buildSectionCap(terrain.store, section)
+    const colors = new Float32Array(cap.materials.length * 3)
+    const color = new Color()
+    for (let i = 0; i < cap.materials.length; i++) {
+      color.set(MATERIALS[cap.materials[i]]?.color ?? '#ff00ff').toArray(colors, i * 3)
+    }
+    const next = new BufferGeometry()
+    next.setAttribute('position', new BufferAttribute(cap.positions, 3))
+    next.setAttribute('color', new BufferAttribute(colors, 3))
+    next.setIndex(new BufferAttribute(cap.indices, 1))
+    next.computeVertexNormals()
+    next.computeBoundingSphere()
+    return next
+  }, [terrain, section])
+
+  useEffect(() => () => geometry.dispose(), [geometry])
+
+  return (
+    <mesh geometry={geometry}>
+      <meshStandardMaterial vertexColors roughness={0.9} />
+    </mesh>
+  )
+}
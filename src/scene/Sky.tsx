@@ -0,0 +1,126 @@
+import { useFrame, useThree } from '@react-three/fiber'
+import { useEffect, useMemo, useRef } from 'react'
+import { Color, MathUtils } from 'three'
+import type { AmbientLight, DirectionalLight, HemisphereLight } from 'three'
+import { VOXEL_SIZE, WORLD_SIZE } from './constants'
+import { dayOfYear, hourOfDay, observerDirection, sunDirection, sunElevation, surfaceTemperatureAt } from './systems/solar'
+import type { SolarClock, SurfaceClimate } from './systems/solar'
+import { tickAlpha } from './systems/scheduler'
+import type { Scheduler } from './systems/scheduler'
+import type { WeatherSystem } from './systems/weather'
+import { SOLAR_STEP } from './world'
+
+// What the clock looks like from the observer's latitude
+export type SolarReport = {
+  day: number
+  hour: number
+  // degrees above the horizon (negative at night)
+  elevation: number
+  // surface temperature under the observer, °C
+  temperature: number
+}
+
+export type SkyProps = {
+  clock: SolarClock
+  climate: SurfaceClimate
+  scheduler: Scheduler
+  // clouds dim the sun and grey the sky
+  weather?: WeatherSystem
+  onReport?: (report: SolarReport) => void
+}
+
+const NIGHT_SKY = '#05070c'
+const TWILIGHT_SKY = '#c8683e'
+const DAY_SKY = '#7fb2e5'
+const NIGHT_GROUND = '#0b0f1a'
+const DAY_GROUND = '#24324f'
+const OVERCAST_SKY = '#5d646e'
+const SUN_INTENSITY = 2
+// the sun orbits far enough out that its shadow camera sees the whole voxel grid
+const SUN_DISTANCE = WORLD_SIZE * VOXEL_SIZE
+const SHADOW_EXTENT = (WORLD_SIZE / 2) * VOXEL_SIZE
+const REPORT_INTERVAL = 0.5
+
+// Drives the sun, the fill lights and the sky colour from the solar clock (ticked in the world),
+// interpolating the sun between clock ticks.
+export default function Sky({ clock, climate, scheduler, weather, onReport }: SkyProps) {
+  const { scene } = useThree()
+  const sunRef = useRef<DirectionalLight>(null!)
+  const hemisphereRef = useRef<HemisphereLight>(null!)
+  const ambientRef = useRef<AmbientLight>(null!)
+  const reportRef = useRef(REPORT_INTERVAL)
+  const temp = useMemo(
+    () => ({
+      sun: [0, 0, 0] as [number, number, number],
+      observer: [0, 0, 0] as [number, number, number],
+      sky: new Color(NIGHT_SKY),
+      night: new Color(NIGHT_SKY),
+      twilight: new Color(TWILIGHT_SKY),
+      day: new Color(DAY_SKY),
+      overcast: new Color(OVERCAST_SKY),
+      nightGround: new Color(NIGHT_GROUND),
+      dayGround: new Color(DAY_GROUND),
+    }),
+    [],
+  )
+
+  useEffect(() => {
+    const previous = scene.background
+    scene.background = temp.sky
+    return () => {
+      scene.background = previous
+    }
+  }, [scene, temp])
+
+  useFrame((_state, delta) => {
+    const hours = clock.hours + tickAlpha(scheduler, 'solar') * SOLAR_STEP * clock.rate
+    const sun = sunDirection(hours, temp.sun)
+    sunRef.current.position.set(sun[0], sun[1], sun[2]).multiplyScalar(SUN_DISTANCE)
+
+    const observer = observerDirection(clock.latitude, temp.observer)
+    const elevation = sunElevation(sun, observer)
+    const daylight = MathUtils.smoothstep(elevation, -0.1, 0.2)
+    temp.sky
+      .copy(temp.night)
+      .lerp(temp.twilight, MathUtils.smoothstep(elevation, -0.2, 0))
+      .lerp(temp.day, MathUtils.smoothstep(elevation, 0, 0.25))
+    const cover = weather?.cover ?? 0
+    temp.sky.lerp(temp.overcast, cover * 0.8 * daylight)
+    sunRef.current.intensity = SUN_INTENSITY * (1 - cover * 0.7)
+    hemisphereRef.current.color.copy(temp.sky)
+    hemisphereRef.current.groundColor.copy(temp.nightGround).lerp(temp.dayGround, daylight)
+    hemisphereRef.current.intensity = MathUtils.lerp(0.25, 0.85, daylight)
+    ambientRef.current.intensity = MathUtils.lerp(0.15, 0.6, daylight)
+
+    reportRef.current += delta
+    if (!onReport || reportRef.current < REPORT_INTERVAL) return
+    reportRef.current = 0
+    onReport({
+      day: dayOfYear(hours) + 1,
+      hour: hourOfDay(hours),
+      elevation: MathUtils.radToDeg(Math.asin(Math.max(-1, Math.min(1, elevation)))),
+      temperature: surfaceTemperatureAt(climate, observer[0], observer[1], observer[2]),
+    })
+  })
+
+  return (
+    <>
+      <ambientLight ref={ambientRef} intensity={0.6} />
+      <hemisphereLight ref={hemisphereRef} intensity={0.85} color={DAY_SKY} groundColor={DAY_GROUND} />
+      <directionalLight
+        ref={sunRef}
+        intensity={SUN_INTENSITY}
+        castShadow
+        shadow-mapSize={[2048, 2048]}
+        shadow-bias={-0.0005}
+        shadow-normalBias={0.05}
+        shadow-camera-left={-SHADOW_EXTENT}
+        shadow-camera-right={SHADOW_EXTENT}
+        shadow-camera-top={SHADOW_EXTENT}
+        shadow-camera-bottom={-SHADOW_EXTENT}
+        shadow-camera-near={1}
+        shadow-camera-far={SUN_DISTANCE * 2}
+      />
+    </>
+  )
+}
@@ -0,0 +1,228 @@
+import { useFrame, useThree } from '@react-three/fiber'
+import { useEffect, useMemo, useRef } from 'react'
+import { BoxGeometry, EdgesGeometry, Raycaster, Vector3 } from 'three'
+import type { Group, LineBasicMaterial, LineSegments, Mesh, MeshBasicMaterial, Plane } from 'three'
+import { PLANET_RADIUS, VOXEL_SIZE } from './constants'
+import { materialAt } from './utils/coring'
+import { MATERIAL } from './utils/materials'
+import { createVoxelHit, raycastVoxels } from './utils/raycast'
+import type { VoxelHit } from './utils/raycast'
+import type { VoxelStore } from './utils/voxelStore'
+
+export type VoxelCursorProps = {
+  store: VoxelStore
+  // first person aims with the crosshair (screen centre), the orbit views with the mouse
+  mode: 'first' | 'iso' | 'section'
+  // furthest the player reaches, world units from the eyes, in either mode
+  reach: number
+  eyeRef: React.MutableRefObject<{ position: Vector3 }>
+  // outline the empty voxel in front of the face (where a voxel would be placed) instead of the hit one
+  adjacent?: boolean
+  onUse: (hit: VoxelHit) => void
+  // when given, a drag (held button in first person, Shift+drag in the orbit views) uses the tool on
+  // each new voxel the cursor reaches; called with true when one starts and false when it ends
+  onStroke?: (active: boolean) => void
+  // section cut: the ray starts where it enters the kept side, so hidden voxels aren't picked
+  clip?: Plane
+}
+
+type Vec3 = [number, number, number]
+
+// an iso pick looks this far along the mouse ray; reach is checked against the player afterwards
+const ISO_RAY_LENGTH = PLANET_RADIUS * 8
+// a press that moves further than this (px) is an orbit drag, not a click
+const CLICK_SLOP = 5
+const IN_REACH_COLOR = '#ffffff'
+const OUT_OF_REACH_COLOR = '#ff5a3c'
+
+// A ray that starts on the section cut hits the capped face when there is rock right behind it.
+// The face normal is the axis closest to the cut's outward normal (the tools work with voxel faces).
+function hitCutFace(store: VoxelStore, origin: Vec3, direction: Vec3, clip: Plane, hit: VoxelHit) {
+  const inside = 1e-3
+  const material = materialAt(
+    store,
+    origin[0] + direction[0] * inside,
+    origin[1] + direction[1] * inside,
+    origin[2] + direction[2] * inside,
+  )
+  if (material === MATERIAL.air) return false
+  // the plane keeps the side its normal points to, so the cut faces the other way
+  const { x, y, z } = clip.normal
+  const axis = Math.abs(x) > Math.abs(y) && Math.abs(x) > Math.abs(z) ? 0 : Math.abs(y) > Math.abs(z) ? 1 : 2
+  const along = axis === 0 ? x : axis === 1 ? y : z
+  for (let a = 0; a < 3; a++) {
+    hit.cell[a] = Math.round((origin[a] + direction[a] * inside) / VOXEL_SIZE)
+    hit.normal[a] = a === axis ? -Math.sign(along) : 0
+    hit.point[a] = origin[a]
+  }
+  hit.distance = 0
+  hit.material = material
+  return true
+}
+
+function copyHit({ cell, normal, point, distance, material }: VoxelHit): VoxelHit {
+  return { cell: [...cell], normal: [...normal], point: [...point], distance, material }
+}
+
+// Picks the voxel under the crosshair or mouse with a voxel raycast (utils/raycast.ts), outlines it
+// with the face it would be used on, and hands the hit to `onUse` on click or along a drag.
+export default function VoxelCursor({
+  store,
+  mode,
+  reach,
+  eyeRef,
+  adjacent = false,
+  onUse,
+  onStroke,
+  clip,
+}: VoxelCursorProps) {
+  const { camera, gl } = useThree()
+  const groupRef = useRef<Group>(null!)
+  const boxRef = useRef<LineSegments>(null!)
+  const faceRef = useRef<Mesh>(null!)
+  const hitRef = useRef<VoxelHit>(createVoxelHit())
+  // whether the current hit can be used (found and within reach)
+  const activeRef = useRef(false)
+  const onUseRef = useRef(onUse)
+  onUseRef.current = onUse
+  const onStrokeRef = useRef(onStroke)
+  onStrokeRef.current = onStroke
+  // the drag in progress: how many uses it made, the last voxel and face it used (cell, normal) and
+  // the ray it was aimed along then (origin, direction). It only moves on when the aim does, so
+  // holding still doesn't bore a shaft.
+  const strokeRef = useRef({ active: false, uses: 0, face: [0, 0, 0, 0, 0, 0], aim: [0, 0, 0, 0, 0, 0] })
+  const temp = useMemo(
+    () => ({
+      raycaster: new Raycaster(),
+      direction: new Vector3(),
+      normal: new Vector3(),
+      point: new Vector3(),
+      centre: new Vector3(),
+      z: new Vector3(0, 0, 1),
+      origin3: [0, 0, 0] as [number, number, number],
+      direction3: [0, 0, 0] as [number, number, number],
+    }),
+    [],
+  )
+  const edges = useMemo(() => {
+    const box = new BoxGeometry(VOXEL_SIZE * 1.02, VOXEL_SIZE * 1.02, VOXEL_SIZE * 1.02)
+    const geometry = new EdgesGeometry(box)
+    box.dispose()
+    return geometry
+  }, [])
+  useEffect(() => () => edges.dispose(), [edges])
+
+  useEffect(() => {
+    const element = gl.domElement
+    const stroke = strokeRef.current
+    let downX = 0
+    let downY = 0
+    const onPointerDown = (event: PointerEvent) => {
+      downX = event.clientX
+      downY = event.clientY
+      if (event.button !== 0 || !onStrokeRef.current || (mode !== 'first' && !event.shiftKey)) return
+      stroke.active = true
+      stroke.uses = 0
+      onStrokeRef.current?.(true)
+    }
+    const onPointerUp = (event: PointerEvent) => {
+      if (event.button !== 0) return
+      if (stroke.active) {
+        stroke.active = false
+        // released before a frame could pick anything: a plain click
+        if (stroke.uses === 0 && activeRef.current) onUseRef.current(copyHit(hitRef.current))
+        onStrokeRef.current?.(false)
+        return
+      }
+      if (!activeRef.current) return
+      if (Math.hypot(event.clientX - downX, event.clientY - downY) > CLICK_SLOP) return
+      onUseRef.current(copyHit(hitRef.current))
+    }
+    element.addEventListener('pointerdown', onPointerDown)
+    element.addEventListener('pointerup', onPointerUp)
+    return () => {
+      element.removeEventListener('pointerdown', onPointerDown)
+      element.removeEventListener('pointerup', onPointerUp)
+      if (stroke.active) {
+        stroke.active = false
+        onStrokeRef.current?.(false)
+      }
+    }
+  }, [gl, mode])
+
+  useFrame((state) => {
+    let cut = false
+    if (mode === 'first') {
+      camera.position.toArray(temp.origin3)
+      camera.getWorldDirection(temp.direction).toArray(temp.direction3)
+    } else {
+      const { ray } = temp.raycaster
+      temp.raycaster.setFromCamera(state.pointer, camera)
+      if (clip && clip.distanceToPoint(ray.origin) < 0) {
+        // looking at the cut from the hidden side: skip ahead to the plane, or there is nothing to pick
+        if (!ray.intersectPlane(clip, temp.point)) {
+          groupRef.current.visible = activeRef.current = false
+          return
+        }
+        ray.origin.copy(temp.point)
+        cut = true
+      }
+      ray.origin.toArray(temp.origin3)
+      ray.direction.toArray(temp.direction3)
+    }
+    const hit = hitRef.current
+    const found =
+      (cut && clip && hitCutFace(store, temp.origin3, temp.direction3, clip, hit)) ||
+      raycastVoxels(store, temp.origin3, temp.direction3, mode === 'first' ? reach : ISO_RAY_LENGTH, hit)
+    groupRef.current.visible = found
+    if (!found) {
+      activeRef.current = false
+      return
+    }
+    activeRef.current = mode === 'first' || temp.point.fromArray(hit.point).distanceTo(eyeRef.current.position) <= reach
+    const color = activeRef.current ? IN_REACH_COLOR : OUT_OF_REACH_COLOR
+    ;(boxRef.current.material as LineBasicMaterial).color.set(color)
+    ;(faceRef.current.material as MeshBasicMaterial).color.set(color)
+
+    temp.normal.fromArray(hit.normal)
+    temp.centre.fromArray(hit.cell).multiplyScalar(VOXEL_SIZE)
+    boxRef.current.position.copy(temp.centre)
+    if (adjacent) boxRef.current.position.addScaledVector(temp.normal, VOXEL_SIZE)
+    // the face is drawn in the plane of the hit, just proud of it, so a drilled layer shows at its depth
+    const depth = temp.point.fromArray(hit.point).sub(temp.centre).dot(temp.normal)
+    faceRef.current.position.copy(temp.centre).addScaledVector(temp.normal, depth + 0.01)
+    faceRef.current.quaternion.setFromUnitVectors(temp.z, temp.normal)
+
+    const stroke = strokeRef.current
+    if (!stroke.active || !activeRef.current) return
+    if (stroke.uses > 0) {
+      let sameFace = true
+      let moved = false
+      for (let a = 0; a < 3; a++) {
+        sameFace &&= stroke.face[a] === hit.cell[a] && stroke.face[a + 3] === hit.normal[a]
+        moved ||= Math.abs(stroke.aim[a] - temp.origin3[a]) > 1e-3 || Math.abs(stroke.aim[a + 3] - temp.direction3[a]) > 1e-4
+      }
+      if (sameFace || !moved) return
+    }
+    for (let a = 0; a < 3; a++) {
+      stroke.face[a] = hit.cell[a]
+      stroke.face[a + 3] = hit.normal[a]
+      stroke.aim[a] = temp.origin3[a]
+      stroke.aim[a + 3] = temp.direction3[a]
+    }
+    stroke.uses++
+    onUseRef.current(copyHit(hit))
+  })
+
+  return (
+    <group ref={groupRef} visible={false}>
+      <lineSegments ref={boxRef} geometry={edges}>
+        <lineBasicMaterial transparent opacity={0.8} depthTest={false} />
+      </lineSegments>
+      <mesh ref={faceRef}>
+        <planeGeometry args={[VOXEL_SIZE, VOXEL_SIZE]} />
+        <meshBasicMaterial transparent opacity={0.35} depthWrite={false} />
+      </mesh>
+    </group>
+  )
+}
@@ -0,0 +1,59 @@
+import { useFrame } from '@react-three/fiber'
+import { useEffect, useRef, useState } from 'react'
+import { BufferAttribute, BufferGeometry, DoubleSide } from 'three'
+import type { Plane } from 'three'
+import { VOXEL_SIZE } from './constants'
+import type { TerrainData } from './generation/generatePlanet'
+import type { WaterField } from './systems/water'
+import { COLORS } from './utils/materials'
+import { meshWater } from './utils/waterMesher'
+
+export type WaterProps = {
+  field: WaterField
+  terrain: TerrainData
+  // section view cut (see Section.tsx)
+  clippingPlanes?: Plane[]
+}
+
+// The surface mesh is rebuilt at most this often while water is moving
+const REMESH_INTERVAL = 0.25
+
+// Draws the water surface as a translucent skin; the automaton itself ticks in the world.
+export default function Water({ field, terrain, clippingPlanes }: WaterProps) {
+  const [geometry, setGeometry] = useState<BufferGeometry | null>(null)
+  const remeshRef = useRef({ revision: -1, elapsed: REMESH_INTERVAL })
+
+  useFrame((_state, delta) => {
+    const remesh = remeshRef.current
+    remesh.elapsed += delta
+    if (remesh.revision === field.revision || remesh.elapsed < REMESH_INTERVAL) return
+    remesh.revision = field.revision
+    remesh.elapsed = 0
+
+    const data = meshWater(field, terrain.store, VOXEL_SIZE)
+    const next = new BufferGeometry()
+    next.setAttribute('position', new BufferAttribute(data.positions, 3))
+    next.setAttribute('normal', new BufferAttribute(data.normals, 3))
+    next.setIndex(new BufferAttribute(data.indices, 1))
+    next.computeBoundingSphere()
+    setGeometry(next)
+  })
+
+  useEffect(() => () => geometry?.dispose(), [geometry])
+
+  if (!geometry) return null
+  return (
+    <mesh geometry={geometry} renderOrder={1}>
+      <meshStandardMaterial
+        color={COLORS.ocean}
+        clippingPlanes={clippingPlanes}
+        transparent
+        opacity={0.62}
+        roughness={0.15}
+        metalness={0.1}
+        depthWrite={false}
+        side={DoubleSide}
+      />
+    </mesh>
+  )
+}
@@ -0,0 +1,118 @@
+import { useFrame } from '@react-three/fiber'
+import { useMemo, useRef } from 'react'
+import { Matrix4, Quaternion, Vector3 } from 'three'
+import type { InstancedMesh } from 'three'
+import { VOXEL_SIZE } from './constants'
+import type { TerrainData } from './generation/generatePlanet'
+import type { PhysicsBridge } from './physicsBridge'
+import { WEATHER, windAt } from './systems/weather'
+import type { WeatherState, WeatherSystem } from './systems/weather'
+import { sampleHeightField } from './utils/planet'
+import { createRng } from './utils/rng'
+
+export type WeatherReport = {
+  state: WeatherState
+  // degrees clockwise from north, the direction the wind blows towards
+  heading: number
+  speed: number
+}
+
+export type WeatherProps = {
+  weather: WeatherSystem
+  terrain: TerrainData
+  physics: PhysicsBridge
+  seed: number
+  // rain falls in a column around this point (the player)
+  focusRef: React.MutableRefObject<{ position: Vector3 }>
+  onReport?: (report: WeatherReport) => void
+  maxDrops?: number
+}
+
+const FALL_SPEED = 9
+const RAIN_RADIUS = 14
+const RAIN_HEIGHT = 16
+const STREAK_LENGTH = 0.45
+// the physics worker and the UI hear about the wind this often
+const REPORT_INTERVAL = 0.5
+const STORM_DROPS = WEATHER.storm.drops
+
+// Pushes the wind of the seeded weather (ticked in the world) to the debris simulation and draws
+// the rain near the player as instanced streaks that lean with the wind.
+export default function Weather({ weather, terrain, physics, seed, focusRef, onReport, maxDrops = 1500 }: WeatherProps) {
+  const meshRef = useRef<InstancedMesh>(null!)
+  const reportedRef = useRef(weather.state)
+  const reportRef = useRef(REPORT_INTERVAL)
+  const random = useMemo(() => createRng(seed, 'rain-particles'), [seed])
+  const drops = useMemo(() => new Float32Array(maxDrops * 3), [maxDrops])
+  const temp = useMemo(
+    () => ({
+      matrix: new Matrix4(),
+      position: new Vector3(),
+      velocity: new Vector3(),
+      gust: new Vector3(),
+      up: new Vector3(),
+      tangent: new Vector3(),
+      bitangent: new Vector3(),
+      axis: new Vector3(0, 1, 0),
+      quaternion: new Quaternion(),
+      scale: new Vector3(1, STREAK_LENGTH, 1),
+      wind: [0, 0, 0] as [number, number, number],
+    }),
+    [],
+  )
+
+  // the rain streaks are only decoration and keep falling in real time, paused or not
+  useFrame((_state, delta) => {
+    reportRef.current += delta
+    if (weather.state !== reportedRef.current || reportRef.current >= REPORT_INTERVAL) {
+      reportedRef.current = weather.state
+      reportRef.current = 0
+      physics.setWind(weather.heading, weather.speed)
+      onReport?.({ state: weather.state, heading: (weather.heading * 180) / Math.PI, speed: weather.speed })
+    }
+
+    const mesh = meshRef.current
+    const count = Math.round((maxDrops * WEATHER[weather.state].drops) / STORM_DROPS)
+    mesh.count = count
+    if (count === 0) return
+
+    const focus = focusRef.current.position
+    const { up, tangent, bitangent, position, velocity } = temp
+    up.copy(focus).normalize()
+    tangent.set(0, 1, 0).cross(up)
+    if (tangent.lengthSq() < 1e-6) tangent.set(1, 0, 0)
+    tangent.normalize()
+    bitangent.crossVectors(up, tangent)
+
+    for (let i = 0; i < count; i++) {
+      position.fromArray(drops, i * 3)
+      const wind = windAt(weather.heading, weather.speed, position.x, position.y, position.z, temp.wind)
+      velocity.copy(position).normalize().multiplyScalar(-FALL_SPEED).add(temp.gust.fromArray(wind))
+      position.addScaledVector(velocity, delta)
+
+      const ground = (sampleHeightField(terrain.heights, position.x, position.y, position.z) + 0.5) * VOXEL_SIZE
+      if (position.length() < ground || position.distanceTo(focus) > RAIN_RADIUS * 1.5) {
+        // respawn somewhere in the column above the player
+        const angle = random() * Math.PI * 2
+        const radius = Math.sqrt(random()) * RAIN_RADIUS
+        position
+          .copy(focus)
+          .addScaledVector(tangent, Math.cos(angle) * radius)
+          .addScaledVector(bitangent, Math.sin(angle) * radius)
+          .addScaledVector(up, random() * RAIN_HEIGHT)
+      }
+      position.toArray(drops, i * 3)
+
+      temp.quaternion.setFromUnitVectors(temp.axis, velocity.normalize())
+      mesh.setMatrixAt(i, temp.matrix.compose(position, temp.quaternion, temp.scale))
+    }
+    mesh.instanceMatrix.needsUpdate = true
+  })
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, maxDrops]} count={0} frustumCulled={false}>
+      <boxGeometry args={[0.02, 1, 0.02]} />
+      <meshBasicMaterial color="#a9c4e0" transparent opacity={0.55} depthWrite={false} />
+    </instancedMesh>
+  )
+}
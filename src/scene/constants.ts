@@ -0,0 +1,35 @@
+// Scale of the mini planet. Every system measures distances in voxels of VOXEL_SIZE metres,
+// with the planet centred on the origin of the voxel grid.
+export const PLANET_RADIUS = 20
+export const VOXEL_SIZE = 1.0
+// surface radius (in voxels) of the sea; biomes are classified relative to it
+export const SEA_LEVEL = PLANET_RADIUS
+// voxels this close to the centre never move: structural support is traced back to them
+export const BEDROCK_RADIUS = PLANET_RADIUS * 0.6
+export const SUBDIV_N = 4
+export const SUBVOXEL_SIZE = VOXEL_SIZE / SUBDIV_N
+// edge of the cubic voxel grid that holds the planet (must leave room above the tallest relief)
+export const WORLD_SIZE = 64
+// resolution of the latitude/longitude surface height field (≈ one voxel per cell at the equator)
+export const LAT_STEPS = 56
+export const LON_STEPS = 112
+// erosion rounds applied to the heightfield when a planet is generated
+export const DEFAULT_EROSION_ITERATIONS = 8
+// bump whenever the same seed and options would generate different voxels: saves keep only the
+// chunks edited since generation and rebuild the rest from the seed
+export const GENERATOR_VERSION = 1
+export const EARTH_AXIAL_TILT = (23.44 * Math.PI) / 180
+// tallest ledge the player walks up without jumping
+export const STEP_MAX = VOXEL_SIZE * 2.6
+// drops shallower than this are walked down rather than fallen off
+export const DECAL_IGNORE = VOXEL_SIZE * 0.6
+export const PLAYER_RADIUS = 0.3
+// capsule height (feet to top) standing and crouched; the eyes sit PLAYER_EYE_DROP below the top
+export const PLAYER_HEIGHT = 1.7
+export const PLAYER_CROUCH_HEIGHT = 1.1
+export const PLAYER_EYE_DROP = 0.12
+// m/s² towards the planet centre, and the upward speed a jump starts with
+export const GRAVITY = 9.81
+export const JUMP_SPEED = 5
+export const GRAVITY_SPRING = 10
+export const GRAVITY_DAMP = 4.5
@@ -0,0 +1,69 @@
+import { SEA_LEVEL } from '../constants'
+import { MATERIAL } from '../utils/materials'
+import type { MaterialId } from '../utils/materials'
+
+export const BIOME = {
+  seabed: 0,
+  beach: 1,
+  grassland: 2,
+  desert: 3,
+  highlands: 4,
+  snow: 5,
+} as const
+
+export type BiomeId = number
+
+// Soil from the surface down: each band is `thickness` voxels deep; the strata (strata.ts) start
+// under the last band.
+export type BiomeInfo = {
+  name: string
+  stack: { material: MaterialId; thickness: number }[]
+}
+
+export const BIOMES: Record<number, BiomeInfo> = {
+  [BIOME.seabed]: { name: 'Leito marinho', stack: [{ material: MATERIAL.sand, thickness: 2 }] },
+  [BIOME.beach]: {
+    name: 'Praia',
+    stack: [
+      { material: MATERIAL.sand, thickness: 2 },
+      { material: MATERIAL.dirt, thickness: 1 },
+    ],
+  },
+  [BIOME.grassland]: {
+    name: 'Campo',
+    stack: [
+      { material: MATERIAL.grass, thickness: 1 },
+      { material: MATERIAL.dirt, thickness: 2 },
+    ],
+  },
+  [BIOME.desert]: { name: 'Deserto', stack: [{ material: MATERIAL.sand, thickness: 3 }] },
+  // bare rock: the strata crop out at the surface
+  [BIOME.highlands]: { name: 'Planalto rochoso', stack: [] },
+  [BIOME.snow]: {
+    name: 'Neve',
+    stack: [
+      { material: MATERIAL.snow, thickness: 1 },
+      { material: MATERIAL.dirt, thickness: 1 },
+    ],
+  },
+}
+
+// elevation is the surface radius in voxels; moisture and temperature are normalized to [0, 1]
+export function classifyBiome(elevation: number, moisture: number, temperature: number): BiomeId {
+  if (elevation < SEA_LEVEL - 0.5) return BIOME.seabed
+  if (elevation < SEA_LEVEL + 1) return BIOME.beach
+  if (temperature < 0.25) return BIOME.snow
+  if (elevation > SEA_LEVEL + 4) return BIOME.highlands
+  if (temperature > 0.65 && moisture < 0.4) return BIOME.desert
+  return BIOME.grassland
+}
+
+// Soil material at `depth` voxels below the surface of a column in this biome, or null under the soil.
+export function biomeMaterialAt(biome: BiomeId, depth: number): MaterialId | null {
+  let bottom = 0
+  for (const band of BIOMES[biome].stack) {
+    bottom += band.thickness
+    if (depth < bottom) return band.material
+  }
+  return null
+}
@@ -0,0 +1,51 @@
+import { LAT_STEPS, LON_STEPS, SUBDIV_N, WORLD_SIZE } from '../constants'
+import { createHeightField } from '../utils/planet'
+import type { HeightField } from '../utils/planet'
+import { createNoise, createRng } from '../utils/rng'
+import { createVoxelStore } from '../utils/voxelStore'
+import type { VoxelStore } from '../utils/voxelStore'
+import { PLANET_LAYERS } from './layers'
+import { STRATA } from './strata'
+import type { GenerationContext, GenerationLayer } from './layers'
+
+export type TerrainData = {
+  store: VoxelStore
+  heights: HeightField
+  biomes: Uint8Array
+}
+
+export function runLayers(context: GenerationContext, layers: GenerationLayer[]) {
+  for (const layer of layers) {
+    layer.apply(context, createRng(context.seed, layer.id), createNoise(context.seed, layer.id))
+  }
+}
+
+export function generatePlanet(seed: number, layers: GenerationLayer[] = PLANET_LAYERS): TerrainData {
+  const context: GenerationContext = {
+    seed,
+    store: createVoxelStore(WORLD_SIZE, SUBDIV_N),
+    heights: createHeightField(),
+    rockLayer: new Float32Array(LAT_STEPS * LON_STEPS),
+    moisture: new Float32Array(LAT_STEPS * LON_STEPS),
+    temperature: new Float32Array(LAT_STEPS * LON_STEPS),
+    biomes: new Uint8Array(LAT_STEPS * LON_STEPS),
+    deposits: new Float32Array(LAT_STEPS * LON_STEPS),
+    strata: new Float32Array(LAT_STEPS * LON_STEPS * (STRATA.length - 1)),
+  }
+  runLayers(context, layers)
+  return { store: context.store, heights: context.heights, biomes: context.biomes }
+}
+
+// FNV-1a over every chunk's material bytes: a cheap fingerprint for comparing worlds
+// (scripts/checks/determinism.ts).
+export function hashVoxelStore(store: VoxelStore) {
+  let h = 0x811c9dc5
+  for (const chunk of store.chunks) {
+    const data = chunk.data
+    for (let i = 0; i < data.length; i++) {
+      h ^= data[i]
+      h = Math.imul(h, 0x01000193)
+    }
+  }
+  return h >>> 0
+}
@@ -0,0 +1,217 @@
+import { BEDROCK_RADIUS, LAT_STEPS, LON_STEPS, PLANET_RADIUS, SEA_LEVEL } from '../constants'
+import { cellIndex, createHeightField } from '../utils/planet'
+import type { HeightField } from '../utils/planet'
+
+// Real elevation data as terrain: a greyscale PNG (8 or 16 bits) or an ESRI ASCII grid (.asc) is
+// read into a Heightmap, then resampled onto the planet's heightfield, read as an equirectangular
+// map (left edge at longitude -180°, top row at the north pole). Generation keeps those heights as
+// they are, without the erosion rounds, and builds the planet on them like on generated ones (see
+// createImportedElevationLayer in layers.ts).
+
+// Elevations row by row from the top (north) edge; NaN where the data has no value
+export type Heightmap = {
+  width: number
+  height: number
+  values: Float32Array
+}
+
+export type HeightmapImport = {
+  // multiplies the relief after it is fitted to the planet
+  exaggeration: number
+  // voxels added to every height, so more (negative) or less (positive) of the land is under water
+  seaLevelOffset: number
+}
+
+// A heightmap as the generator takes it: resampled surface radii and whether generated quarries
+// (and loose blocks) go on top
+export type ImportedTerrain = {
+  name: string
+  heights: HeightField
+  quarries: boolean
+}
+
+export const DEFAULT_HEIGHTMAP_IMPORT: HeightmapImport = { exaggeration: 1, seaLevelOffset: 0 }
+
+// voxels the data's full range spans at exaggeration 1, about what the generator's continents span
+const IMPORT_RELIEF = 12
+// imported ground stays between the bedrock and the top of the grid (leaving room for quarry blocks)
+const MIN_HEIGHT = BEDROCK_RADIUS + 2
+const MAX_HEIGHT = PLANET_RADIUS + 8
+
+// ESRI ASCII grid: a header of `key value` lines (ncols, nrows, xllcorner or xllcenter, yllcorner or
+// yllcenter, cellsize, optional NODATA_value), then nrows lines of ncols values, northmost first.
+export function parseAsciiGrid(text: string): Heightmap {
+  const tokens = text.trim().split(/\s+/)
+  const header: Record<string, number> = {}
+  let at = 0
+  while (at + 1 < tokens.length && /^[a-z_]+$/i.test(tokens[at])) {
+    header[tokens[at].toLowerCase()] = Number(tokens[at + 1])
+    at += 2
+  }
+  const width = header.ncols
+  const height = header.nrows
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 2 || height < 2) {
+    throw new Error('Grade ASCII sem ncols/nrows válidos')
+  }
+  if (tokens.length - at < width * height) throw new Error('Grade ASCII com menos valores que ncols × nrows')
+  const noData = header.nodata_value
+  const values = new Float32Array(width * height)
+  for (let i = 0; i < values.length; i++) {
+    const value = Number(tokens[at + i])
+    values[i] = Number.isNaN(value) || value === noData ? NaN : value
+  }
+  return { width, height, values }
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+// samples per pixel of each PNG colour type (palette images aren't heightmaps)
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 }
+
+export function isPng(bytes: Uint8Array) {
+  return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)
+}
+
+async function inflate(data: BlobPart) {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c
+}
+
+// Decodes a non-interlaced greyscale or colour PNG of 8 or 16 bits per sample. Colour pixels count
+// by their mean channel, alpha is ignored; 16-bit samples keep their full precision.
+export async function decodePng(bytes: Uint8Array): Promise<Heightmap> {
+  if (!isPng(bytes)) throw new Error('Não é um arquivo PNG')
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let width = 0
+  let height = 0
+  let depth = 0
+  let colorType = 0
+  const idat: Uint8Array[] = []
+  for (let at = 8; at + 8 <= bytes.length; ) {
+    const length = view.getUint32(at)
+    const type = String.fromCharCode(...bytes.subarray(at + 4, at + 8))
+    const data = bytes.subarray(at + 8, at + 8 + length)
+    if (type === 'IHDR') {
+      width = view.getUint32(at + 8)
+      height = view.getUint32(at + 12)
+      depth = data[8]
+      colorType = data[9]
+      if (data[12] !== 0) throw new Error('PNG entrelaçado não é suportado')
+    } else if (type === 'IDAT') {
+      idat.push(data)
+    } else if (type === 'IEND') {
+      break
+    }
+    // length, type and CRC around the data
+    at += 12 + length
+  }
+  const channels = PNG_CHANNELS[colorType]
+  if (!channels || (depth !== 8 && depth !== 16)) throw new Error('Use um PNG em tons de cinza ou cor, de 8 ou 16 bits')
+  if (width < 2 || height < 2 || idat.length === 0) throw new Error('PNG sem imagem')
+
+  const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0))
+  let offset = 0
+  for (const chunk of idat) {
+    compressed.set(chunk, offset)
+    offset += chunk.length
+  }
+  const raw = await inflate(compressed)
+  const sampleBytes = depth / 8
+  const pixelBytes = channels * sampleBytes
+  const stride = width * pixelBytes
+  if (raw.length < height * (stride + 1)) throw new Error('PNG truncado')
+
+  // undo the per-row filters in place, then read the samples
+  const pixels = new Uint8Array(height * stride)
+  for (let row = 0; row < height; row++) {
+    const filter = raw[row * (stride + 1)]
+    const line = raw.subarray(row * (stride + 1) + 1, (row + 1) * (stride + 1))
+    const out = row * stride
+    for (let i = 0; i < stride; i++) {
+      const left = i >= pixelBytes ? pixels[out + i - pixelBytes] : 0
+      const up = row > 0 ? pixels[out - stride + i] : 0
+      const upLeft = row > 0 && i >= pixelBytes ? pixels[out - stride + i - pixelBytes] : 0
+      const predictor = filter === 1 ? left : filter === 2 ? up : filter === 3 ? (left + up) >> 1 : filter === 4 ? paeth(left, up, upLeft) : 0
+      pixels[out + i] = (line[i] + predictor) & 0xff
+    }
+  }
+
+  const values = new Float32Array(width * height)
+  // colour averages the first three samples; grey (with or without alpha) reads the first
+  const averaged = colorType === 2 || colorType === 6 ? 3 : 1
+  for (let p = 0; p < values.length; p++) {
+    let sum = 0
+    for (let c = 0; c < averaged; c++) {
+      const at = p * pixelBytes + c * sampleBytes
+      sum += sampleBytes === 2 ? (pixels[at] << 8) | pixels[at + 1] : pixels[at]
+    }
+    values[p] = sum / averaged
+  }
+  return { width, height, values }
+}
+
+// Reads a heightmap file by its contents: PNG by signature, anything else as an ASCII grid.
+export function readHeightmap(bytes: Uint8Array): Promise<Heightmap> {
+  if (isPng(bytes)) return decodePng(bytes)
+  return Promise.resolve().then(() => parseAsciiGrid(new TextDecoder().decode(bytes)))
+}
+
+// Mean of the valid samples in a pixel rectangle (clamped to the image), NaN when there are none.
+function boxMean(map: Heightmap, x0: number, y0: number, x1: number, y1: number) {
+  let sum = 0
+  let count = 0
+  for (let y = Math.max(0, y0); y <= Math.min(map.height - 1, y1); y++) {
+    for (let x = Math.max(0, x0); x <= Math.min(map.width - 1, x1); x++) {
+      const value = map.values[y * map.width + x]
+      if (Number.isNaN(value)) continue
+      sum += value
+      count++
+    }
+  }
+  return count > 0 ? sum / count : NaN
+}
+
+// Surface radius per heightfield cell. Each cell averages the pixels it covers, or reads the nearest
+// one where the map has fewer pixels than the grid. The data's range is fitted to IMPORT_RELIEF
+// voxels with its zero (or its lowest point, when it never dips that far) at sea level; cells with
+// no data are sea floor.
+export function resampleHeightmap(map: Heightmap, { exaggeration, seaLevelOffset }: HeightmapImport): HeightField {
+  let min = Infinity
+  let max = -Infinity
+  for (const value of map.values) {
+    if (Number.isNaN(value)) continue
+    min = Math.min(min, value)
+    max = Math.max(max, value)
+  }
+  if (min === Infinity) throw new Error('O relevo não tem nenhum valor válido')
+  const scale = (IMPORT_RELIEF * exaggeration) / Math.max(max - min, 1e-6)
+  const zero = Math.min(max, Math.max(min, 0))
+
+  const heights = createHeightField()
+  const cellWidth = map.width / LON_STEPS
+  const cellHeight = map.height / LAT_STEPS
+  for (let row = 0; row < LAT_STEPS; row++) {
+    // rows count from the south pole, the image from the north
+    const top = (LAT_STEPS - 1 - row) * cellHeight
+    for (let col = 0; col < LON_STEPS; col++) {
+      const left = col * cellWidth
+      const value = boxMean(
+        map,
+        Math.floor(left),
+        Math.floor(top),
+        Math.max(Math.floor(left), Math.ceil(left + cellWidth) - 1),
+        Math.max(Math.floor(top), Math.ceil(top + cellHeight) - 1),
+      )
+      const height = Number.isNaN(value) ? MIN_HEIGHT : SEA_LEVEL + seaLevelOffset + (value - zero) * scale
+      heights[cellIndex(row, col)] = Math.min(MAX_HEIGHT, Math.max(MIN_HEIGHT, height))
+    }
+  }
+  return heights
+}
@@ -0,0 +1,285 @@
+import { BEDROCK_RADIUS, DEFAULT_EROSION_ITERATIONS, LAT_STEPS, LON_STEPS, PLANET_RADIUS, SEA_LEVEL, WORLD_SIZE } from '../constants'
+import { MATERIAL } from '../utils/materials'
+import { cellDirection, cellIndex, cellOf, sampleHeightField } from '../utils/planet'
+import type { HeightField } from '../utils/planet'
+import type { NoiseField } from '../utils/rng'
+import { DEFAULT_EROSION, erodeHeights } from '../systems/erosion'
+import { collapseUnsupported } from '../systems/structure'
+import { getVoxel, setVoxel } from '../utils/voxelStore'
+import type { VoxelStore } from '../utils/voxelStore'
+import { biomeMaterialAt, classifyBiome } from './biomes'
+import { DEFAULT_DIP, DEFAULT_FOLD, ORE_BODIES, STRATA, stratumAt } from './strata'
+import type { StrataOptions } from './strata'
+
+// Shared state the layer passes build up, column data first and voxels last.
+export type GenerationContext = {
+  seed: number
+  store: VoxelStore
+  heights: HeightField
+  // rock stacked on top of the ground surface, as extra radius per cell (quarry blocks)
+  rockLayer: Float32Array
+  // per-cell climate in [0, 1] and the biome it classifies to
+  moisture: Float32Array
+  temperature: Float32Array
+  biomes: Uint8Array
+  // sediment thickness laid down by erosion, in voxels
+  deposits: Float32Array
+  // radius of the top of every stratum but the last, STRATA.length - 1 values per cell
+  strata: Float32Array
+}
+
+// One named generation pass. `random` and `noise` are keyed by (seed, id), so a pass always sees
+// the same numbers for the same seed no matter which other passes run before it.
+export type GenerationLayer = {
+  id: string
+  apply: (context: GenerationContext, random: () => number, noise: NoiseField) => void
+}
+
+// Rolling elevation: fBm sampled on the unit sphere, so there is no seam along the date line
+export const elevationLayer: GenerationLayer = {
+  id: 'elevation',
+  apply: ({ heights }, _random, noise) => {
+    for (let row = 0; row < LAT_STEPS; row++) {
+      for (let col = 0; col < LON_STEPS; col++) {
+        const [x, y, z] = cellDirection(row, col)
+        const continents = noise.fbm(x * 1.2, y * 1.2, z * 1.2, { octaves: 5 })
+        // clamp so the tallest peaks (plus quarry blocks) still fit inside the voxel grid
+        heights[cellIndex(row, col)] = Math.min(PLANET_RADIUS + 8, PLANET_RADIUS + 1 + continents * 12)
+      }
+    }
+  },
+}
+
+// Elevation from real data (generation/heightmap.ts) in place of the noise: the heights are copied
+// as they are and not eroded (planetLayers leaves the erosion layer out), and everything after them
+// (climate, strata, soil, ores) follows the usual rules
+export function createImportedElevationLayer(imported: HeightField): GenerationLayer {
+  return {
+    id: 'elevation',
+    apply: ({ heights }) => heights.set(imported),
+  }
+}
+
+// Weathering before anything is voxelized: hydraulic + thermal erosion on the bare heightfield
+export function createErosionLayer(iterations: number): GenerationLayer {
+  return {
+    id: 'erosion',
+    apply: ({ heights, deposits }, random) => {
+      const field = { heights, deposits, floor: new Float32Array(heights.length), changed: new Uint8Array(heights.length) }
+      erodeHeights(field, random, iterations, DEFAULT_EROSION)
+    },
+  }
+}
+
+// Moisture and temperature fields, then one biome per column
+export const climateLayer: GenerationLayer = {
+  id: 'climate',
+  apply: ({ heights, moisture, temperature, biomes }, _random, noise) => {
+    for (let row = 0; row < LAT_STEPS; row++) {
+      for (let col = 0; col < LON_STEPS; col++) {
+        const idx = cellIndex(row, col)
+        const [x, y, z] = cellDirection(row, col)
+        const m = noise.fbm(x * 2 + 31.7, y * 2, z * 2, { octaves: 3 }) * 0.5 + 0.5
+        // warm at the equator, cooling towards the poles and with altitude (lapse rate)
+        const altitude = Math.max(0, heights[idx] - SEA_LEVEL)
+        const t = Math.sqrt(1 - y * y) - altitude * 0.06 + noise.fbm(x * 3, y * 3 + 57.3, z * 3, { octaves: 2 }) * 0.15
+        moisture[idx] = Math.min(1, Math.max(0, m))
+        temperature[idx] = Math.min(1, Math.max(0, t))
+        biomes[idx] = classifyBiome(heights[idx], moisture[idx], temperature[idx])
+      }
+    }
+  },
+}
+
+// Several marble-quarry style rectangular blocks and carved pits
+export const quarryLayer: GenerationLayer = {
+  id: 'quarries',
+  apply: ({ heights, rockLayer }, random) => {
+    const numQuarries = 3 + Math.floor(random() * 3) // 3-5 quarries
+
+    for (let q = 0; q < numQuarries; q++) {
+      const w = 6 + Math.floor(random() * 10) // width 6-15 cells (latitude)
+      const l = 6 + Math.floor(random() * 10) // length (longitude)
+      const h = 3 + Math.floor(random() * 6) // height 3-8
+
+      // keep quarries away from the poles, where longitude cells get squeezed together
+      const margin = Math.floor(LAT_STEPS / 6)
+      const row0 = margin + Math.floor(random() * (LAT_STEPS - 2 * margin - w))
+      const col0 = Math.floor(random() * LON_STEPS)
+
+      for (let dr = 0; dr < w; dr++) {
+        for (let dc = 0; dc < l; dc++) {
+          const idx = cellIndex(row0 + dr, col0 + dc)
+          // Carve a pit by lowering ground radius inside the footprint (leave some steps)
+          heights[idx] = Math.max(1, heights[idx] - (Math.floor(h / 2) + Math.floor(random() * 2)))
+          // Build vertical cut blocks along the quarry walls: stack rock up to h above the pit floor
+          rockLayer[idx] = h
+        }
+      }
+    }
+  },
+}
+
+function randomDirection(random: () => number): [number, number, number] {
+  const y = random() * 2 - 1
+  const angle = random() * Math.PI * 2
+  const ring = Math.sqrt(1 - y * y)
+  return [ring * Math.cos(angle), y, ring * Math.sin(angle)]
+}
+
+// Fold crests run around a seeded axis this many times per radian of arc
+const FOLD_WAVES = 5
+
+// Stratum tops per column: each layer's noisy thickness stacked on the one below, then the folded
+// cover bent by one set of folds and tilted by a planet-wide dip. Layers squeezed out by a fold
+// just pinch to zero thickness.
+export function createStrataLayer({ fold = DEFAULT_FOLD, dip = DEFAULT_DIP }: StrataOptions = {}): GenerationLayer {
+  return {
+    id: 'strata',
+    apply: ({ strata }, random, noise) => {
+      const foldAxis = randomDirection(random)
+      const dipAxis = randomDirection(random)
+      const phase = random() * Math.PI * 2
+      const count = STRATA.length - 1
+      for (let row = 0; row < LAT_STEPS; row++) {
+        for (let col = 0; col < LON_STEPS; col++) {
+          const [x, y, z] = cellDirection(row, col)
+          const bend =
+            fold * Math.sin(FOLD_WAVES * (x * foldAxis[0] + y * foldAxis[1] + z * foldAxis[2]) + phase) +
+            dip * 0.5 * (x * dipAxis[0] + y * dipAxis[1] + z * dipAxis[2])
+          const offset = cellIndex(row, col) * count
+          let flat = 0
+          for (let s = 0; s < count; s++) {
+            const { thickness, variation, folded } = STRATA[s]
+            flat += Math.max(0, thickness + variation * noise.fbm(x * 2 + s * 17.3, y * 2, z * 2, { octaves: 2 }))
+            strata[offset + s] = Math.max(s > 0 ? strata[offset + s - 1] : 0, flat + (folded ? bend : 0))
+          }
+        }
+      }
+    },
+  }
+}
+
+// Voxelize the columns: the biome's soil under the surface, the strata under the soil, the rock
+// layer right on top of the surface
+export const fillLayer: GenerationLayer = {
+  id: 'fill',
+  apply: ({ store, heights, rockLayer, biomes, deposits, strata }) => {
+    const half = WORLD_SIZE / 2
+    for (let x = -half; x < half; x++) {
+      for (let y = -half; y < half; y++) {
+        for (let z = -half; z < half; z++) {
+          const r = Math.sqrt(x * x + y * y + z * z)
+          if (r > half) continue
+          const surface = sampleHeightField(heights, x, y, z)
+          const cell = cellOf(x, y, z)
+          if (r <= surface) {
+            const depth = surface - r
+            const soil = depth < deposits[cell] ? MATERIAL.sediment : biomeMaterialAt(biomes[cell], Math.floor(depth))
+            setVoxel(store, x, y, z, soil ?? stratumAt(strata, cell * (STRATA.length - 1), r))
+          } else if (r <= surface + rockLayer[cell]) {
+            setVoxel(store, x, y, z, MATERIAL.rock)
+          }
+        }
+      }
+    }
+  },
+}
+
+// Ore and mineral pockets, placed after the fill so they only replace their host rocks
+export const oreLayer: GenerationLayer = {
+  id: 'ores',
+  apply: ({ store, heights }, random) => {
+    for (const body of ORE_BODIES) {
+      for (let p = 0; p < body.count; p++) {
+        const direction = randomDirection(random)
+        const surface = heights[cellOf(...direction)]
+        const radius = BEDROCK_RADIUS + random() * Math.max(0, surface - 1 - BEDROCK_RADIUS)
+        const centre = direction.map((v) => v * radius)
+        const axis = randomDirection(random)
+        const long = body.size[0] + random() * (body.size[1] - body.size[0])
+        const short = long * 0.55
+        const reach = Math.ceil(long)
+        const [cx, cy, cz] = centre.map(Math.round)
+        for (let x = cx - reach; x <= cx + reach; x++) {
+          for (let y = cy - reach; y <= cy + reach; y++) {
+            for (let z = cz - reach; z <= cz + reach; z++) {
+              const dx = x - centre[0]
+              const dy = y - centre[1]
+              const dz = z - centre[2]
+              const along = dx * axis[0] + dy * axis[1] + dz * axis[2]
+              const across = dx * dx + dy * dy + dz * dz - along * along
+              if ((along * along) / (long * long) + across / (short * short) > 1) continue
+              if (body.hosts.includes(getVoxel(store, x, y, z))) setVoxel(store, x, y, z, body.material)
+            }
+          }
+        }
+      }
+    }
+  },
+}
+
+// Isolated marble blocks for variety
+export const blockLayer: GenerationLayer = {
+  id: 'blocks',
+  apply: ({ store, heights }, random) => {
+    for (let i = 0; i < 8; i++) {
+      const row = Math.floor(random() * LAT_STEPS)
+      const col = Math.floor(random() * LON_STEPS)
+      const [nx, ny, nz] = cellDirection(row, col)
+      const baseR = heights[cellIndex(row, col)]
+      // 3×3×3 block centred just above the surface point
+      const bx = Math.round(nx * (baseR + 1))
+      const by = Math.round(ny * (baseR + 1))
+      const bz = Math.round(nz * (baseR + 1))
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dz = -1; dz <= 1; dz++) {
+            setVoxel(store, bx + dx, by + dy, bz + dz, MATERIAL.rock)
+          }
+        }
+      }
+    }
+  },
+}
+
+// Drop what voxelization left hanging (stray terrace voxels, stair-stepped sand) so the planet
+// starts stable and the first edit only collapses what it actually undermined
+export const supportLayer: GenerationLayer = {
+  id: 'support',
+  apply: ({ store }) => {
+    collapseUnsupported(store)
+  },
+}
+
+export type PlanetOptions = StrataOptions & {
+  // rounds of erosion run on the heightfield before voxelization (0 = none)
+  erosionIterations?: number
+  // surface radii to use instead of the generated elevation (generation/heightmap.ts); real data is
+  // already weathered, so these skip the erosion rounds
+  heights?: HeightField
+  // quarries and loose marble blocks on top of the terrain
+  quarries?: boolean
+}
+
+export function planetLayers({
+  erosionIterations = DEFAULT_EROSION_ITERATIONS,
+  fold,
+  dip,
+  heights,
+  quarries = true,
+}: PlanetOptions = {}): GenerationLayer[] {
+  return [
+    heights ? createImportedElevationLayer(heights) : elevationLayer,
+    ...(!heights && erosionIterations > 0 ? [createErosionLayer(erosionIterations)] : []),
+    climateLayer,
+    ...(quarries ? [quarryLayer] : []),
+    createStrataLayer({ fold, dip }),
+    fillLayer,
+    oreLayer,
+    ...(quarries ? [blockLayer] : []),
+    supportLayer,
+  ]
+}
+
+export const PLANET_LAYERS: GenerationLayer[] = planetLayers()
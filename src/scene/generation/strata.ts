@@ -0,0 +1,53 @@
+import { BEDROCK_RADIUS } from '../constants'
+import { MATERIAL } from '../utils/materials'
+import type { MaterialId } from '../utils/materials'
+
+// One rock layer of the stratigraphic column. Thicknesses are in voxels; `variation` is how far
+// noise may thin or thicken it. Folded layers also follow the fold and dip of the cover.
+export type Stratum = {
+  material: MaterialId
+  thickness: number
+  variation: number
+  folded: boolean
+}
+
+// From the bottom up. Bedrock reaches just past BEDROCK_RADIUS (where structural support is traced
+// to); the last stratum has no top and runs up to the soil.
+export const STRATA: Stratum[] = [
+  { material: MATERIAL.bedrock, thickness: BEDROCK_RADIUS + 0.5, variation: 0.5, folded: false },
+  { material: MATERIAL.granite, thickness: 3, variation: 1, folded: false },
+  { material: MATERIAL.rock, thickness: 1.5, variation: 0.8, folded: true },
+  { material: MATERIAL.limestone, thickness: 2.5, variation: 1, folded: true },
+  { material: MATERIAL.sandstone, thickness: Infinity, variation: 0, folded: true },
+]
+
+// Seeded pockets of ore or mineral: ellipsoids stretched along a random axis that only replace
+// their host rocks, so they never stick out of the ground or into the soil.
+export type OreBody = {
+  material: MaterialId
+  hosts: MaterialId[]
+  count: number
+  // semi-major axis range, in voxels
+  size: [number, number]
+}
+
+export const ORE_BODIES: OreBody[] = [
+  { material: MATERIAL.ironOre, hosts: [MATERIAL.limestone, MATERIAL.granite], count: 24, size: [1.5, 3] },
+  { material: MATERIAL.quartz, hosts: [MATERIAL.granite, MATERIAL.rock], count: 18, size: [1.2, 2.5] },
+]
+
+export type StrataOptions = {
+  // height of the folds in the cover, in voxels (0 = flat-lying beds)
+  fold?: number
+  // how many voxels the cover rises from one side of the planet to the other
+  dip?: number
+}
+
+export const DEFAULT_FOLD = 1.5
+export const DEFAULT_DIP = 1.2
+
+// Rock at radius `r` of a column whose stratum tops (one per stratum but the last) start at `tops[offset]`.
+export function stratumAt(tops: Float32Array, offset: number, r: number): MaterialId {
+  for (let s = 0; s < STRATA.length - 1; s++) if (r <= tops[offset + s]) return STRATA[s].material
+  return STRATA[STRATA.length - 1].material
+}
@@ -0,0 +1,59 @@
+import { useTexture } from '@react-three/drei'
+import { useEffect, useMemo } from 'react'
+import { MeshStandardMaterial, RepeatWrapping } from 'three'
+import type { Texture } from 'three'
+import { MATERIAL, MATERIALS } from '../utils/materials'
+import { TEXTURE_FILES } from '../utils/meshExport'
+
+const basePath = '/SSBJr.geosimulator/'
+
+export function texturePath(file: string) {
+  return basePath + 'textures/' + file
+}
+
+function tile(textures: Texture[]) {
+  for (const texture of textures) {
+    texture.wrapS = RepeatWrapping
+    texture.wrapT = RepeatWrapping
+    texture.needsUpdate = true
+  }
+}
+
+// PBR materials indexed by voxel material ID, ready to be used as a multi-material on chunk meshes.
+export function useTerrainMaterials() {
+  const { ground, rock } = TEXTURE_FILES
+  const [groundColor, groundNormal, groundRoughness] = useTexture(
+    [ground.color, ground.normal, ground.roughness].map(texturePath),
+  )
+  const [rockColor, rockNormal, rockRoughness] = useTexture([rock.color, rock.normal, rock.roughness].map(texturePath))
+
+  const materials = useMemo(() => {
+    tile([groundColor, groundNormal, groundRoughness, rockColor, rockNormal, rockRoughness])
+    const list: MeshStandardMaterial[] = []
+    list[MATERIAL.air] = new MeshStandardMaterial({ visible: false })
+    for (const [id, info] of Object.entries(MATERIALS)) {
+      if (info.texture === 'ground') {
+        list[Number(id)] = new MeshStandardMaterial({
+          color: info.tint,
+          map: groundColor,
+          normalMap: groundNormal,
+          roughnessMap: groundRoughness,
+        })
+      } else if (info.texture === 'rock') {
+        list[Number(id)] = new MeshStandardMaterial({
+          color: info.tint,
+          map: rockColor,
+          normalMap: rockNormal,
+          roughnessMap: rockRoughness,
+        })
+      } else {
+        list[Number(id)] = new MeshStandardMaterial({ color: info.tint, normalMap: groundNormal, roughness: 0.75 })
+      }
+    }
+    return list
+  }, [groundColor, groundNormal, groundRoughness, rockColor, rockNormal, rockRoughness])
+
+  useEffect(() => () => materials.forEach((material) => material.dispose()), [materials])
+
+  return materials
+}
@@ -1,4 +1,163 @@
-// physics.worker disabled — debris/worker functionality removed
-onmessage = (_e) => {
-  // no-op
+// Rigid-body debris. Runs Rapier off the main thread: terrain chunks are static trimesh colliders,
+// debris fragments are dynamic cuboids pulled toward the planet centre. Steps run only when the
+// main thread asks for them, so the debris keeps to the world's clock.
+import RAPIER from '@dimforge/rapier3d-compat'
+import { DEBRIS_STEP, FRAGMENT_STRIDE, TRANSFORM_STRIDE } from './physicsBridge'
+import type { PhysicsRequest, PhysicsResponse } from './physicsBridge'
+import { windAt } from './systems/weather'
+
+const GRAVITY = 9.81
+// A body counts as settled once it moves less than SETTLE_DISTANCE over SETTLE_STEPS steps.
+// Contacts against the trimesh keep a resting cube jittering, so velocities alone are unreliable.
+const SETTLE_DISTANCE = 0.02
+const SETTLE_STEPS = 30
+// Wind drag on a fragment: ½ · air density · drag coefficient, times the face area and the
+// square of the wind speed relative to the body
+const WIND_DRAG = 0.5 * 1.2 * 1.05
+
+type Debris = {
+  body: RAPIER.RigidBody
+  half: number
+  anchor: { x: number; y: number; z: number }
+  steps: number
+  settled: boolean
 }
+
+let world: RAPIER.World | null = null
+const chunkColliders = new Map<number, RAPIER.Collider>()
+const debris = new Map<number, Debris>()
+let wind = { heading: 0, speed: 0 }
+const windVelocity: [number, number, number] = [0, 0, 0]
+// requests arriving while the WASM module initialises
+const pending: PhysicsRequest[] = []
+
+function post(message: PhysicsResponse, transfer: Transferable[] = []) {
+  postMessage(message, { transfer })
+}
+
+function handle(world: RAPIER.World, message: PhysicsRequest) {
+  switch (message.type) {
+    case 'chunk': {
+      const previous = chunkColliders.get(message.key)
+      if (previous) world.removeCollider(previous, true)
+      const collider = world.createCollider(RAPIER.ColliderDesc.trimesh(message.positions, message.indices))
+      chunkColliders.set(message.key, collider)
+      break
+    }
+    case 'removeChunk': {
+      const previous = chunkColliders.get(message.key)
+      if (previous) world.removeCollider(previous, true)
+      chunkColliders.delete(message.key)
+      break
+    }
+    case 'spawn': {
+      const data = message.fragments
+      message.ids.forEach((id, i) => {
+        const o = i * FRAGMENT_STRIDE
+        const body = world.createRigidBody(
+          RAPIER.RigidBodyDesc.dynamic()
+            .setTranslation(data[o], data[o + 1], data[o + 2])
+            .setLinvel(data[o + 5], data[o + 6], data[o + 7]),
+        )
+        const half = data[o + 3]
+        world.createCollider(RAPIER.ColliderDesc.cuboid(half, half, half).setDensity(data[o + 4]).setFriction(0.8), body)
+        debris.set(id, { body, half, anchor: { x: data[o], y: data[o + 1], z: data[o + 2] }, steps: 0, settled: false })
+      })
+      break
+    }
+    case 'wind':
+      wind = { heading: message.heading, speed: message.speed }
+      break
+    case 'step':
+      for (let i = 0; i < message.steps; i++) step(world)
+      break
+    case 'remove': {
+      for (const id of message.ids) {
+        const entry = debris.get(id)
+        if (!entry) continue
+        world.removeRigidBody(entry.body)
+        debris.delete(id)
+      }
+      break
+    }
+  }
+}
+
+function step(world: RAPIER.World) {
+  if (debris.size === 0) return
+
+  // Radial gravity: Rapier only knows a uniform gravity vector, so each awake body gets an
+  // impulse toward the origin instead.
+  for (const entry of debris.values()) {
+    const body = entry.body
+    if (body.isSleeping()) continue
+    const p = body.translation()
+    const length = Math.hypot(p.x, p.y, p.z) || 1
+    const impulse = (-GRAVITY * body.mass() * DEBRIS_STEP) / length
+    body.applyImpulse({ x: p.x * impulse, y: p.y * impulse, z: p.z * impulse }, true)
+
+    if (wind.speed <= 0) continue
+    const w = windAt(wind.heading, wind.speed, p.x, p.y, p.z, windVelocity)
+    const v = body.linvel()
+    const rx = w[0] - v.x
+    const ry = w[1] - v.y
+    const rz = w[2] - v.z
+    // the radial part of the relative velocity is the body's own fall, not wind
+    const radial = (rx * p.x + ry * p.y + rz * p.z) / (length * length)
+    const tx = rx - p.x * radial
+    const ty = ry - p.y * radial
+    const tz = rz - p.z * radial
+    const drag = WIND_DRAG * 4 * entry.half * entry.half * Math.hypot(tx, ty, tz) * DEBRIS_STEP
+    body.applyImpulse({ x: tx * drag, y: ty * drag, z: tz * drag }, false)
+  }
+  world.step()
+
+  const ids = new Uint32Array(debris.size)
+  const transforms = new Float32Array(debris.size * TRANSFORM_STRIDE)
+  const settledIds: number[] = []
+  let i = 0
+  for (const [id, entry] of debris) {
+    const body = entry.body
+    const p = body.translation()
+    const q = body.rotation()
+    ids[i] = id
+    transforms.set([p.x, p.y, p.z, q.x, q.y, q.z, q.w], i * TRANSFORM_STRIDE)
+    i++
+
+    if (entry.settled || ++entry.steps < SETTLE_STEPS) continue
+    const a = entry.anchor
+    if (body.isSleeping() || Math.hypot(p.x - a.x, p.y - a.y, p.z - a.z) < SETTLE_DISTANCE) {
+      entry.settled = true
+      settledIds.push(id)
+    }
+    entry.anchor = { x: p.x, y: p.y, z: p.z }
+    entry.steps = 0
+  }
+  post({ type: 'transforms', ids, transforms }, [ids.buffer, transforms.buffer])
+
+  if (settledIds.length > 0) {
+    const settled = new Float32Array(settledIds.length * TRANSFORM_STRIDE)
+    settledIds.forEach((id, k) => {
+      const body = debris.get(id)!.body
+      const p = body.translation()
+      const q = body.rotation()
+      settled.set([p.x, p.y, p.z, q.x, q.y, q.z, q.w], k * TRANSFORM_STRIDE)
+    })
+    const idArray = Uint32Array.from(settledIds)
+    post({ type: 'settled', ids: idArray, transforms: settled }, [idArray.buffer, settled.buffer])
+  }
+}
+
+onmessage = (event: MessageEvent<PhysicsRequest>) => {
+  if (world) handle(world, event.data)
+  else pending.push(event.data)
+}
+
+RAPIER.init().then(() => {
+  const created = new RAPIER.World({ x: 0, y: 0, z: 0 })
+  created.timestep = DEBRIS_STEP
+  for (const message of pending) handle(created, message)
+  pending.length = 0
+  world = created
+  post({ type: 'ready' })
+})
@@ -0,0 +1,125 @@
+import type { ChunkMeshData } from './utils/chunkMesher'
+import type { EditCommand } from './utils/history'
+import type { MaterialId } from './utils/materials'
+
+// One fragment in a spawn message: x, y, z, half size, density, vx, vy, vz
+export const FRAGMENT_STRIDE = 8
+// One body in a transform message: x, y, z, qx, qy, qz, qw
+export const TRANSFORM_STRIDE = 7
+// simulated seconds per physics step; the world's clock decides how many run (Debris.tsx)
+export const DEBRIS_STEP = 1 / 60
+
+export type DebrisFragment = {
+  // world units
+  position: [number, number, number]
+  velocity?: [number, number, number]
+  half: number
+  // kg/m³, sets the rigid body mass together with the fragment size
+  density: number
+  material: MaterialId
+  // the undo step of the edit that knocked it loose, which its rubble joins (world.ts)
+  source?: EditCommand
+}
+
+export type PhysicsRequest =
+  | { type: 'chunk'; key: number; positions: Float32Array; indices: Uint32Array }
+  | { type: 'removeChunk'; key: number }
+  | { type: 'spawn'; ids: Uint32Array; fragments: Float32Array }
+  | { type: 'remove'; ids: Uint32Array }
+  | { type: 'step'; steps: number }
+  // wind heading (radians from local north) and speed (m/s), see `windAt`
+  | { type: 'wind'; heading: number; speed: number }
+
+export type PhysicsResponse =
+  | { type: 'ready' }
+  // every live body, in `ids` order; buffers are transferred, not copied
+  | { type: 'transforms'; ids: Uint32Array; transforms: Float32Array }
+  // bodies that just came to rest (reported once each)
+  | { type: 'settled'; ids: Uint32Array; transforms: Float32Array }
+
+// Main-thread handle to the debris worker. Messages sent before `start` (or across a restart) are
+// not lost: terrain colliders and the wind are re-sent from their last known values whenever a worker starts.
+export type PhysicsBridge = {
+  start: () => void
+  stop: () => void
+  setChunk: (key: number, mesh: ChunkMeshData | null) => void
+  spawn: (fragments: DebrisFragment[]) => number[]
+  remove: (ids: number[]) => void
+  // runs `steps` physics steps of DEBRIS_STEP; the worker doesn't move on its own
+  step: (steps: number) => void
+  setWind: (heading: number, speed: number) => void
+  // fragments currently simulated, oldest first
+  fragments: Map<number, DebrisFragment>
+  onMessage: ((message: PhysicsResponse) => void) | null
+}
+
+// Spawning past `maxBodies` removes the oldest fragments first.
+export function createPhysicsBridge(maxBodies = 1024): PhysicsBridge {
+  let worker: Worker | null = null
+  let nextId = 1
+  const fragments = new Map<number, DebrisFragment>()
+  const chunks = new Map<number, { positions: Float32Array; indices: Uint32Array }>()
+  let wind = { heading: 0, speed: 0 }
+
+  const post = (message: PhysicsRequest, transfer: Transferable[] = []) => {
+    worker?.postMessage(message, transfer)
+  }
+
+  const bridge: PhysicsBridge = {
+    fragments,
+    onMessage: null,
+    start: () => {
+      if (worker) return
+      worker = new Worker(new URL('./physics.worker.ts', import.meta.url), { type: 'module' })
+      worker.onmessage = (event: MessageEvent<PhysicsResponse>) => bridge.onMessage?.(event.data)
+      for (const [key, chunk] of chunks) post({ type: 'chunk', key, positions: chunk.positions, indices: chunk.indices })
+      post({ type: 'wind', ...wind })
+    },
+    stop: () => {
+      worker?.terminate()
+      worker = null
+      fragments.clear()
+    },
+    setChunk: (key, mesh) => {
+      if (!mesh || mesh.indices.length === 0) {
+        chunks.delete(key)
+        post({ type: 'removeChunk', key })
+        return
+      }
+      // colliders only need positions and indices; copy them so the render geometry keeps its buffers
+      const chunk = { positions: mesh.positions.slice(), indices: mesh.indices.slice() }
+      chunks.set(key, chunk)
+      post({ type: 'chunk', key, positions: chunk.positions, indices: chunk.indices })
+    },
+    spawn: (spawned) => {
+      const overflow = fragments.size + spawned.length - maxBodies
+      if (overflow > 0) bridge.remove(Array.from(fragments.keys()).slice(0, overflow))
+
+      const ids = new Uint32Array(spawned.length)
+      const data = new Float32Array(spawned.length * FRAGMENT_STRIDE)
+      spawned.forEach((fragment, i) => {
+        ids[i] = nextId++
+        fragments.set(ids[i], fragment)
+        const o = i * FRAGMENT_STRIDE
+        data.set(fragment.position, o)
+        data[o + 3] = fragment.half
+        data[o + 4] = fragment.density
+        data.set(fragment.velocity ?? [0, 0, 0], o + 5)
+      })
+      post({ type: 'spawn', ids, fragments: data }, [data.buffer])
+      return Array.from(ids)
+    },
+    remove: (ids) => {
+      for (const id of ids) fragments.delete(id)
+      if (ids.length > 0) post({ type: 'remove', ids: Uint32Array.from(ids) })
+    },
+    step: (steps) => {
+      if (fragments.size > 0) post({ type: 'step', steps })
+    },
+    setWind: (heading, speed) => {
+      wind = { heading, speed }
+      post({ type: 'wind', ...wind })
+    },
+  }
+  return bridge
+}
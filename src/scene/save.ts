@@ -0,0 +1,286 @@
+// Save file format. A save is the seed and generator parameters plus whatever was edited since
+// generation: edited chunks as run-length bytes, drilled voxels' sub-cells and the heightfield,
+// base64-encoded inside a JSON header. Loading regenerates the planet and lays the edits back on
+// top (world.ts: saveWorld / restoreWorld). Dynamic water and flowing lava aren't kept. The latest
+// undo steps ride along, so edits can still be taken back after loading.
+
+import { LAT_STEPS, LON_STEPS, SUBDIV_N, WORLD_SIZE } from './constants'
+import { createCommand } from './utils/history'
+import type { EditCommand, HeightChange, VoxelChange } from './utils/history'
+import { CHUNK_SIZE } from './utils/voxelStore'
+
+export const SAVE_FORMAT = 'geosimulator-world'
+export const SAVE_VERSION = 2
+// undo steps kept in a save, newest ones
+export const SAVED_HISTORY_STEPS = 50
+
+// What the planet was generated with, besides the seed
+export type GeneratorParams = {
+  erosionIterations: number
+  foldedStrata: boolean
+  // imported elevation (generation/heightmap.ts), its Float32 surface radii in base64
+  imported?: { name: string; quarries: boolean; heights: string }
+}
+
+export type WorldSave = {
+  format: typeof SAVE_FORMAT
+  version: number
+  // ISO date
+  savedAt: string
+  generator: GeneratorParams & { seed: number; version: number }
+  state: {
+    seaLevel: number
+    // solar clock hours and simulated seconds
+    hours: number
+    time: number
+  }
+  // index into store.chunks and the chunk's voxels as (run, material) byte pairs
+  chunks: { index: number; data: string }[]
+  // flat voxel index and the sub-cell bytes of a drilled voxel
+  partial: { voxel: number; cells: string }[]
+  // Float32 heightfield bytes
+  heights: string
+  // undo stack, oldest first (version 2)
+  history: SavedCommand[]
+}
+
+// An EditCommand: voxel indices as Uint32 bytes, materials before and after as one byte each, the
+// sub-cells of drilled voxels on either side, and (cell, before, after) Float32 triples of heights
+export type SavedCommand = {
+  label: string
+  voxels: string
+  before: string
+  after: string
+  partial: { voxel: number; before: string | null; after: string | null }[]
+  heights: string
+}
+
+// Upgrades of older saves, indexed by the version they upgrade from (MIGRATIONS[1] turns a version 1
+// save into version 2, and so on). Add one whenever SAVE_VERSION goes up.
+const MIGRATIONS: Record<number, (save: Record<string, unknown>) => Record<string, unknown>> = {
+  // version 2 keeps undo steps; older saves have none
+  1: (save) => ({ ...save, history: [] }),
+}
+
+// Checks a parsed save and brings it up to SAVE_VERSION; throws with a message for the user.
+export function migrateSave(value: unknown): WorldSave {
+  if (!value || typeof value !== 'object' || (value as { format?: unknown }).format !== SAVE_FORMAT) {
+    throw new Error('Não é um arquivo de mundo do GeoSimulator')
+  }
+  let save = value as Record<string, unknown>
+  let version = Number(save.version)
+  if (!Number.isInteger(version) || version < 1) throw new Error('Versão do arquivo inválida')
+  if (version > SAVE_VERSION) throw new Error(`Arquivo da versão ${version}, mais nova que a deste simulador (${SAVE_VERSION})`)
+  while (version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) throw new Error(`Não há migração da versão ${version} do arquivo`)
+    save = { ...migrate(save), version: version + 1 }
+    version++
+  }
+  const { generator, state, chunks, partial, heights, history } = save as Partial<WorldSave>
+  if (
+    !generator ||
+    !state ||
+    !Array.isArray(chunks) ||
+    !Array.isArray(partial) ||
+    typeof heights !== 'string' ||
+    !Array.isArray(history)
+  ) {
+    throw new Error('Arquivo de mundo incompleto')
+  }
+  checkSaveData(save as WorldSave)
+  return save as WorldSave
+}
+
+const CHUNK_COUNT = Math.ceil(WORLD_SIZE / CHUNK_SIZE) ** 3
+const HEIGHT_CELLS = LAT_STEPS * LON_STEPS
+
+function isIndex(value: unknown, count: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < count
+}
+
+// base64 that atob rejects is reported like any other damage
+function decodeBytes(text: unknown, message: string) {
+  if (typeof text !== 'string') throw new Error(message)
+  try {
+    return fromBase64(text)
+  } catch {
+    throw new Error(message)
+  }
+}
+
+function isSubCells(cells: Uint8Array | null) {
+  return cells === null || cells.length === SUBDIV_N ** 3
+}
+
+// Decodes everything a load reads, so a truncated or hand-edited save is turned away here with a
+// message rather than failing halfway through restoreWorld.
+function checkSaveData(save: WorldSave) {
+  const { state, chunks, partial, heights, history } = save
+  if (![state.seaLevel, state.hours, state.time].every(Number.isFinite)) throw new Error('Estado do mundo corrompido')
+  for (const chunk of chunks) {
+    if (!isIndex(chunk?.index, CHUNK_COUNT)) throw new Error('Chunk fora do mundo')
+    decodeRuns(decodeBytes(chunk.data, 'Dados de chunk corrompidos'), CHUNK_SIZE ** 3)
+  }
+  for (const drilled of partial) {
+    if (!isIndex(drilled?.voxel, WORLD_SIZE ** 3) || !isSubCells(decodeBytes(drilled.cells, 'Voxel perfurado corrompido'))) {
+      throw new Error('Voxel perfurado corrompido')
+    }
+  }
+  if (decodeBytes(heights, 'Mapa de alturas corrompido').length !== HEIGHT_CELLS * 4) throw new Error('Mapa de alturas de outro tamanho')
+  if (save.generator.imported) importedHeights(save.generator.imported)
+  for (const saved of history) {
+    let command: EditCommand
+    try {
+      command = decodeCommand(saved)
+    } catch {
+      throw new Error('Histórico de edições corrompido')
+    }
+    for (const [voxel, { before, after }] of command.changes) {
+      if (!isIndex(voxel, WORLD_SIZE ** 3) || !isSubCells(before.cells) || !isSubCells(after.cells)) {
+        throw new Error('Histórico de edições corrompido')
+      }
+    }
+    for (const cell of command.heights.keys()) {
+      if (!isIndex(cell, HEIGHT_CELLS)) throw new Error('Histórico de edições corrompido')
+    }
+  }
+}
+
+export function parseSave(text: string) {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new Error('Arquivo de mundo ilegível')
+  }
+  return migrateSave(value)
+}
+
+// The surface radii of an imported relief, one per heightfield cell.
+export function importedHeights(imported: NonNullable<GeneratorParams['imported']>) {
+  const bytes = decodeBytes(imported.heights, 'Relevo importado corrompido')
+  if (bytes.length !== HEIGHT_CELLS * 4) throw new Error('Relevo importado de outro tamanho')
+  return new Float32Array(bytes.buffer)
+}
+
+// Whether the save was made on the world these parameters generate.
+export function saveMatches(save: WorldSave, seed: number, params: GeneratorParams) {
+  const { generator } = save
+  return (
+    generator.seed === seed &&
+    generator.erosionIterations === params.erosionIterations &&
+    generator.foldedStrata === params.foldedStrata &&
+    generator.imported?.heights === params.imported?.heights &&
+    generator.imported?.quarries === params.imported?.quarries
+  )
+}
+
+// (run, value) byte pairs, runs of at most 255
+export function encodeRuns(data: Uint8Array) {
+  const out: number[] = []
+  for (let i = 0; i < data.length; ) {
+    const value = data[i]
+    let run = 1
+    while (run < 255 && i + run < data.length && data[i + run] === value) run++
+    out.push(run, value)
+    i += run
+  }
+  return Uint8Array.from(out)
+}
+
+export function decodeRuns(runs: Uint8Array, length: number) {
+  const out = new Uint8Array(length)
+  let at = 0
+  for (let i = 0; i + 1 < runs.length; i += 2) {
+    if (at + runs[i] > length) break
+    out.fill(runs[i + 1], at, at + runs[i])
+    at += runs[i]
+  }
+  if (at !== length) throw new Error('Dados de chunk corrompidos')
+  return out
+}
+
+export function encodeCommand(command: EditCommand): SavedCommand {
+  const { size } = command.changes
+  const voxels = new Uint32Array(size)
+  const before = new Uint8Array(size)
+  const after = new Uint8Array(size)
+  const partial: SavedCommand['partial'] = []
+  let i = 0
+  command.changes.forEach((change, voxel) => {
+    voxels[i] = voxel
+    before[i] = change.before.material
+    after[i] = change.after.material
+    const { cells: beforeCells } = change.before
+    const { cells: afterCells } = change.after
+    if (beforeCells || afterCells) {
+      partial.push({
+        voxel,
+        before: beforeCells && toBase64(beforeCells),
+        after: afterCells && toBase64(afterCells),
+      })
+    }
+    i++
+  })
+  const heights = new Float32Array(command.heights.size * 3)
+  i = 0
+  command.heights.forEach((change, cell) => {
+    heights[i++] = cell
+    heights[i++] = change.before
+    heights[i++] = change.after
+  })
+  return {
+    label: command.label,
+    voxels: toBase64(new Uint8Array(voxels.buffer)),
+    before: toBase64(before),
+    after: toBase64(after),
+    partial,
+    heights: toBase64(new Uint8Array(heights.buffer)),
+  }
+}
+
+export function decodeCommand(saved: SavedCommand): EditCommand {
+  const voxelBytes = fromBase64(saved.voxels)
+  const before = fromBase64(saved.before)
+  const after = fromBase64(saved.after)
+  const heightBytes = fromBase64(saved.heights)
+  const voxels = new Uint32Array(voxelBytes.buffer, 0, voxelBytes.length >> 2)
+  const heights = new Float32Array(heightBytes.buffer, 0, heightBytes.length >> 2)
+  if (
+    voxels.length * 4 !== voxelBytes.length ||
+    before.length !== voxels.length ||
+    after.length !== voxels.length ||
+    heights.length * 4 !== heightBytes.length ||
+    heights.length % 3 !== 0
+  ) {
+    throw new Error('Histórico de edições corrompido')
+  }
+  const changes = new Map<number, VoxelChange>()
+  voxels.forEach((voxel, i) => {
+    changes.set(voxel, {
+      before: { material: before[i], cells: null },
+      after: { material: after[i], cells: null },
+    })
+  })
+  for (const { voxel, before: beforeCells, after: afterCells } of saved.partial) {
+    const change = changes.get(voxel)
+    if (!change) throw new Error('Histórico de edições corrompido')
+    if (beforeCells) change.before.cells = fromBase64(beforeCells)
+    if (afterCells) change.after.cells = fromBase64(afterCells)
+  }
+  const moved = new Map<number, HeightChange>()
+  for (let i = 0; i < heights.length; i += 3) moved.set(heights[i], { before: heights[i + 1], after: heights[i + 2] })
+  return createCommand(saved.label, changes, moved)
+}
+
+export function toBase64(bytes: Uint8Array) {
+  let text = ''
+  // String.fromCharCode takes its arguments on the stack, so feed it in slices
+  for (let i = 0; i < bytes.length; i += 0x8000) text += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  return btoa(text)
+}
+
+export function fromBase64(text: string) {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0))
+}
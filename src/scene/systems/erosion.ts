@@ -0,0 +1,203 @@
+import { LAT_STEPS, LON_STEPS, PLANET_RADIUS, SEA_LEVEL } from '../constants'
+import type { TerrainData } from '../generation/generatePlanet'
+import { forEachColumnVoxel } from '../utils/columns'
+import type { ColumnIndex } from '../utils/columns'
+import { MATERIAL, isRock } from '../utils/materials'
+import { cellIndex } from '../utils/planet'
+import type { HeightField } from '../utils/planet'
+import { getVoxel, setVoxel } from '../utils/voxelStore'
+import type { VoxelStore } from '../utils/voxelStore'
+import { getKernels } from '../../wasm/loader'
+import type { TalusParams } from '../../wasm/kernels'
+
+export type ErosionOptions = {
+  // hydraulic droplets released per iteration
+  droplets: number
+  // talus relaxation sweeps per iteration
+  thermalPasses: number
+  // droplets that reach the sea drop their load there
+  seaLevel: number
+}
+
+export const DEFAULT_EROSION: ErosionOptions = { droplets: 300, thermalPasses: 1, seaLevel: SEA_LEVEL }
+
+// Distance between cell centres, in voxels, measured on the mean planet radius
+const LAT_SPACING = (Math.PI / LAT_STEPS) * PLANET_RADIUS
+const LON_SPACING = ((Math.PI * 2) / LON_STEPS) * PLANET_RADIUS
+
+// Hydraulic: carrying capacity ∝ slope × speed × water; erosion and deposition move a share of the
+// gap to capacity each step. Heights are in voxels.
+const CAPACITY = 4
+const MIN_SLOPE = 0.02
+const ERODE_RATE = 0.3
+const DEPOSIT_RATE = 0.3
+const EVAPORATION = 0.04
+const MAX_DROPLET_STEPS = 48
+const MAX_ERODE_STEP = 0.25
+// Thermal: loose material slumps where the slope (rise over run) is steeper than the talus angle
+const TALUS = 1.2
+const THERMAL_RATE = 0.25
+
+// Heightfield view of the ground for erosion: `floor` is the top of hard rock under each column
+// (erosion never cuts into it) and `deposits` the thickness of sediment laid down on top.
+export type ErosionField = {
+  heights: HeightField
+  floor: Float32Array
+  deposits: Float32Array
+  // set for every cell whose height changed since the caller last cleared it
+  changed: Uint8Array
+}
+
+function lonSpacing(row: number) {
+  const lat = ((row + 0.5) / LAT_STEPS) * Math.PI - Math.PI / 2
+  return Math.max(0.2, LON_SPACING * Math.cos(lat))
+}
+
+const TALUS_PARAMS: TalusParams = {
+  rows: LAT_STEPS,
+  cols: LON_STEPS,
+  latSpacing: LAT_SPACING,
+  lonSpacings: Float64Array.from({ length: LAT_STEPS }, (_, row) => lonSpacing(row)),
+  talus: TALUS,
+  rate: THERMAL_RATE,
+}
+
+const NEIGHBOURS = [
+  [-1, -1],
+  [-1, 0],
+  [-1, 1],
+  [0, -1],
+  [0, 1],
+  [1, -1],
+  [1, 0],
+  [1, 1],
+] as const
+
+function move(field: ErosionField, cell: number, amount: number) {
+  field.heights[cell] += amount
+  field.deposits[cell] = Math.max(0, field.deposits[cell] + amount)
+  field.changed[cell] = 1
+}
+
+// One droplet rolling down the steepest of the 8 neighbouring cells, picking up soil on slopes
+// and dropping it where it slows down, in pits or in the sea.
+function runDroplet(field: ErosionField, random: () => number, options: ErosionOptions) {
+  const { heights, floor } = field
+  let row = Math.floor(random() * LAT_STEPS)
+  let col = Math.floor(random() * LON_STEPS)
+  let water = 1
+  let speed = 1
+  let sediment = 0
+
+  for (let step = 0; step < MAX_DROPLET_STEPS && water > 0.01; step++) {
+    const cell = cellIndex(row, col)
+    const spacing = lonSpacing(row)
+    let next = -1
+    let nextRow = row
+    let nextCol = col
+    let slope = 0
+    let drop = 0
+    for (const [dr, dc] of NEIGHBOURS) {
+      const n = cellIndex(row + dr, col + dc)
+      if (n === cell) continue
+      const distance = Math.hypot(dr * LAT_SPACING, dc * spacing)
+      const s = (heights[cell] - heights[n]) / distance
+      if (s <= slope) continue
+      slope = s
+      drop = heights[cell] - heights[n]
+      next = n
+      nextRow = row + dr
+      nextCol = col + dc
+    }
+
+    if (next < 0 || heights[cell] < options.seaLevel) {
+      // pit or sea: lay the whole load down here
+      if (sediment > 0) move(field, cell, sediment)
+      return
+    }
+
+    const capacity = Math.max(slope, MIN_SLOPE) * speed * water * CAPACITY
+    if (sediment > capacity) {
+      const amount = (sediment - capacity) * DEPOSIT_RATE
+      move(field, cell, amount)
+      sediment -= amount
+    } else {
+      // never dig below the downstream cell or into hard rock
+      const amount = Math.min((capacity - sediment) * ERODE_RATE, drop, MAX_ERODE_STEP, heights[cell] - floor[cell])
+      if (amount > 0) {
+        move(field, cell, -amount)
+        sediment += amount
+      }
+    }
+
+    speed = Math.sqrt(speed * speed + drop)
+    water *= 1 - EVAPORATION
+    row = Math.min(LAT_STEPS - 1, Math.max(0, nextRow))
+    col = nextCol
+  }
+}
+
+// Moves material from every cell down to its 4-neighbours wherever the slope beats the talus angle.
+function relaxTalus(field: ErosionField) {
+  getKernels().talus(field.heights, field.floor, field.deposits, field.changed, TALUS_PARAMS)
+}
+
+// Runs `iterations` rounds of hydraulic then thermal erosion on the heightfield alone.
+export function erodeHeights(
+  field: ErosionField,
+  random: () => number,
+  iterations: number,
+  options: ErosionOptions = DEFAULT_EROSION,
+) {
+  for (let i = 0; i < iterations; i++) {
+    for (let d = 0; d < options.droplets; d++) runDroplet(field, random, options)
+    for (let p = 0; p < options.thermalPasses; p++) relaxTalus(field)
+  }
+}
+
+// Erosion over an existing world: hard rock (see isRock) at or under each column's surface
+// is the floor nothing wears through.
+export function createErosionField(store: VoxelStore, heights: HeightField, columns: ColumnIndex): ErosionField {
+  const cells = LAT_STEPS * LON_STEPS
+  const floor = new Float32Array(cells)
+  for (let cell = 0; cell < cells; cell++) {
+    forEachColumnVoxel(columns, cell, (x, y, z, r) => {
+      if (r <= heights[cell] + 0.5 && isRock(getVoxel(store, x, y, z))) floor[cell] = r + 0.5
+    })
+  }
+  return { heights, floor, deposits: new Float32Array(cells), changed: new Uint8Array(cells) }
+}
+
+// Erodes a live world and carries the new heights into the voxels: lowered columns lose their
+// soft ground above the new surface, raised ones fill up with sediment. Returns how many voxels changed.
+export function erodeTerrain(
+  field: ErosionField,
+  terrain: TerrainData,
+  columns: ColumnIndex,
+  random: () => number,
+  iterations: number,
+  options: ErosionOptions = DEFAULT_EROSION,
+) {
+  const previous = field.heights.slice()
+  field.changed.fill(0)
+  erodeHeights(field, random, iterations, options)
+
+  let edited = 0
+  for (let cell = 0; cell < field.changed.length; cell++) {
+    if (!field.changed[cell]) continue
+    const before = previous[cell]
+    const after = field.heights[cell]
+    const low = Math.min(before, after)
+    const high = Math.max(before, after)
+    forEachColumnVoxel(columns, cell, (x, y, z, r) => {
+      if (r <= low || r > high) return
+      const material = getVoxel(terrain.store, x, y, z)
+      if (after < before) {
+        if (material !== MATERIAL.air && !isRock(material) && setVoxel(terrain.store, x, y, z, MATERIAL.air)) edited++
+      } else if (material === MATERIAL.air && setVoxel(terrain.store, x, y, z, MATERIAL.sediment)) {
+        edited++
+      }
+    })
+  }
+  return edited
+}
@@ -0,0 +1,184 @@
+import type { TerrainData } from '../generation/generatePlanet'
+import { raiseColumnHeight } from '../utils/columns'
+import { MATERIAL } from '../utils/materials'
+import { stepFrom } from '../utils/planet'
+import { getVoxel, isInside, setVoxel, voxelFromIndex, voxelIndex } from '../utils/voxelStore'
+import type { VoxelStore } from '../utils/voxelStore'
+
+// Temperatures in °C. Lava leaves a vent at eruption temperature and turns into basalt below the solidus.
+export const LAVA_ERUPTION_TEMP = 1200
+export const LAVA_SOLIDUS = 800
+const AMBIENT_TEMP = 20
+// Newtonian cooling per second; thick cells keep their heat longer
+const COOLING_RATE = 0.03
+// Share of the level difference that moves sideways per step at full fluidity
+const SPREAD_RATE = 0.2
+// A cooled cell needs at least this much lava to become a basalt voxel; thinner films just crust away
+const MIN_SOLID_VOLUME = 0.5
+// the same goes for still-hot films thinner than this at the edge of a flow: they crust over at once
+const MIN_VOLUME = 0.01
+export const LAVA_STEP = 0.1
+
+export type LavaVent = {
+  position: [number, number, number]
+  // lava volume (voxels) emitted per second
+  rate: number
+}
+
+// Per-voxel lava state over the whole grid. Lava lives only in empty voxels: volume is the filled
+// fraction (0..1) and temperature the mean temperature of what is there.
+export type LavaField = {
+  volume: Float32Array
+  temperature: Float32Array
+  // indices of cells that hold lava, in the order they were first filled; `listed` marks them
+  active: number[]
+  listed: Uint8Array
+  vents: LavaVent[]
+}
+
+export function createLavaField(store: VoxelStore): LavaField {
+  const total = store.size * store.size * store.size
+  return {
+    volume: new Float32Array(total),
+    temperature: new Float32Array(total),
+    active: [],
+    listed: new Uint8Array(total),
+    vents: [],
+  }
+}
+
+// Places a vent in the first empty voxel at or above `position` (walking away from the centre).
+export function addVent(field: LavaField, store: VoxelStore, position: [number, number, number], rate = 2) {
+  let [x, y, z] = position
+  for (let i = 0; i < 4 && getVoxel(store, x, y, z) !== MATERIAL.air; i++) [x, y, z] = stepFrom(x, y, z, 1)
+  if (!isInside(store, x, y, z) || getVoxel(store, x, y, z) !== MATERIAL.air) return null
+  const vent: LavaVent = { position: [x, y, z], rate }
+  field.vents.push(vent)
+  return vent
+}
+
+// 0 at the solidus, 1 at eruption temperature: hot lava runs, cooling lava creeps.
+function fluidity(temperature: number) {
+  const t = Math.min(1, Math.max(0, (temperature - LAVA_SOLIDUS) / (LAVA_ERUPTION_TEMP - LAVA_SOLIDUS)))
+  return t * t
+}
+
+// Adds lava to a cell, mixing temperatures by volume.
+function pour(field: LavaField, to: number, amount: number, temperature: number) {
+  const volume = field.volume[to]
+  if (!field.listed[to]) {
+    field.listed[to] = 1
+    field.active.push(to)
+  }
+  field.temperature[to] = (field.temperature[to] * volume + temperature * amount) / (volume + amount)
+  field.volume[to] = volume + amount
+}
+
+function canHold(store: VoxelStore, x: number, y: number, z: number) {
+  return isInside(store, x, y, z) && getVoxel(store, x, y, z) === MATERIAL.air
+}
+
+// Indices of the empty neighbours on the tangent plane, i.e. along the two axes other than `downAxis`.
+function sideNeighbours(store: VoxelStore, x: number, y: number, z: number, downAxis: number) {
+  const sides: number[] = []
+  for (let axis = 0; axis < 3; axis++) {
+    if (axis === downAxis) continue
+    for (const side of [-1, 1]) {
+      const nx = axis === 0 ? x + side : x
+      const ny = axis === 1 ? y + side : y
+      const nz = axis === 2 ? z + side : z
+      if (canHold(store, nx, ny, nz)) sides.push(voxelIndex(store, nx, ny, nz))
+    }
+  }
+  return sides
+}
+
+// Advances the automaton by `dt` seconds: vents erupt, lava falls toward the centre, spreads to
+// lower neighbours on the tangent plane, overflows upward (sideways under a roof) when over-full,
+// cools and finally solidifies into basalt. Returns the number of voxels that turned to rock (the
+// grid was edited).
+export function stepLava(field: LavaField, terrain: TerrainData, dt = LAVA_STEP) {
+  const { store, heights } = terrain
+  const { volume, temperature } = field
+
+  for (const vent of field.vents) {
+    let [x, y, z] = vent.position
+    if (!canHold(store, x, y, z)) {
+      // its own lava froze over the vent: keep erupting from the top of the cone
+      ;[x, y, z] = stepFrom(x, y, z, 1)
+      if (!canHold(store, x, y, z)) continue
+      vent.position = [x, y, z]
+    }
+    pour(field, voxelIndex(store, x, y, z), vent.rate * dt, LAVA_ERUPTION_TEMP)
+  }
+
+  const cells = field.active.slice()
+  for (const i of cells) {
+    if (volume[i] <= 0) continue
+    const [x, y, z] = voxelFromIndex(store, i)
+    if (getVoxel(store, x, y, z) !== MATERIAL.air) {
+      // an edit filled this voxel: the lava is gone
+      volume[i] = 0
+      continue
+    }
+
+    // fall
+    const [bx, by, bz] = stepFrom(x, y, z, -1)
+    if (canHold(store, bx, by, bz)) {
+      const below = voxelIndex(store, bx, by, bz)
+      const amount = Math.min(volume[i], 1 - volume[below])
+      if (amount > 0) {
+        pour(field, below, amount, temperature[i])
+        volume[i] -= amount
+      }
+    }
+
+    // spread sideways, slower as the lava cools
+    const sides = sideNeighbours(store, x, y, z, bx !== x ? 0 : by !== y ? 1 : 2)
+    const flow = fluidity(temperature[i]) * SPREAD_RATE
+    if (flow > 0 && volume[i] > MIN_VOLUME) {
+      for (const n of sides) {
+        const amount = (volume[i] - volume[n]) * flow
+        if (amount <= 0) continue
+        pour(field, n, amount, temperature[i])
+        volume[i] -= amount
+      }
+    }
+
+    // over-full cells (next to a vent) push the excess up, or sideways under a roof; with no room
+    // anywhere it stays in the cell until the next step
+    if (volume[i] > 1) {
+      const [ux, uy, uz] = stepFrom(x, y, z, 1)
+      const outlets = canHold(store, ux, uy, uz) ? [voxelIndex(store, ux, uy, uz)] : sides
+      if (outlets.length > 0) {
+        const share = (volume[i] - 1) / outlets.length
+        for (const n of outlets) pour(field, n, share, temperature[i])
+        volume[i] = 1
+      }
+    }
+  }
+
+  let solidified = 0
+  const active: number[] = []
+  for (const i of field.active) {
+    field.listed[i] = 0
+    if (volume[i] <= 0) continue
+    temperature[i] -= ((temperature[i] - AMBIENT_TEMP) * COOLING_RATE * dt) / Math.max(0.25, volume[i])
+    if (temperature[i] > LAVA_SOLIDUS && volume[i] >= MIN_VOLUME) {
+      field.listed[i] = 1
+      active.push(i)
+      continue
+    }
+    if (temperature[i] <= LAVA_SOLIDUS && volume[i] >= MIN_SOLID_VOLUME) {
+      const [x, y, z] = voxelFromIndex(store, i)
+      setVoxel(store, x, y, z, MATERIAL.basalt)
+      // fresh rock on the ground is walkable
+      raiseColumnHeight(heights, x, y, z)
+      solidified++
+    }
+    volume[i] = 0
+    temperature[i] = 0
+  }
+  field.active = active
+  return solidified
+}
@@ -0,0 +1,177 @@
+import {
+  DECAL_IGNORE,
+  GRAVITY,
+  JUMP_SPEED,
+  PLAYER_CROUCH_HEIGHT,
+  PLAYER_EYE_DROP,
+  PLAYER_HEIGHT,
+  PLAYER_RADIUS,
+  STEP_MAX,
+} from '../constants'
+import { resolveCapsule, sweepCapsule } from '../utils/collision'
+import type { VoxelStore } from '../utils/voxelStore'
+
+type Vec3 = [number, number, number]
+
+export const WALK_SPEED = 5
+const CROUCH_SPEED_FACTOR = 0.5
+// m/s the capsule shrinks or grows between standing and crouched
+const CROUCH_RATE = 4
+// rising speed while swimming, and the fastest sink through water
+const SWIM_SPEED = 2
+const MAX_FALL_SPEED = 40
+// a grounded move that makes less than this share of its way tries to step up instead
+const BLOCKED_SHARE = 0.5
+const CONTACT_EPSILON = 1e-5
+
+// Kinematic capsule on the planet: gravity pulls towards the centre, so "up" is always radial.
+export type PlayerBody = {
+  feet: Vec3
+  // speed along the local up, m/s (negative while falling)
+  verticalSpeed: number
+  grounded: boolean
+  // capsule height right now, easing between PLAYER_CROUCH_HEIGHT and PLAYER_HEIGHT
+  height: number
+}
+
+export type PlayerInput = {
+  // wished walking direction in world space; only its tangential part counts, clamped to length 1
+  move: Vec3
+  jump: boolean
+  crouch: boolean
+  // walking speed multiplier (wading)
+  speedFactor?: number
+  // in water, jump swims up and the fall is slowed
+  swimming?: boolean
+}
+
+export function createPlayerBody(feet: Vec3): PlayerBody {
+  return { feet: [...feet], verticalSpeed: 0, grounded: false, height: PLAYER_HEIGHT }
+}
+
+export function isCrouching(body: PlayerBody) {
+  return body.height < PLAYER_HEIGHT
+}
+
+// scratch
+const up: Vec3 = [0, 1, 0]
+const delta: Vec3 = [0, 0, 0]
+const contact: Vec3 = [0, 0, 0]
+const start: Vec3 = [0, 0, 0]
+const trial: Vec3 = [0, 0, 0]
+const stepped: Vec3 = [0, 0, 0]
+const move: Vec3 = [0, 0, 0]
+
+export function playerUp(body: PlayerBody, out: Vec3 = [0, 0, 0]): Vec3 {
+  const length = Math.hypot(body.feet[0], body.feet[1], body.feet[2])
+  if (length < 1e-6) {
+    out[0] = 0
+    out[1] = 1
+    out[2] = 0
+    return out
+  }
+  for (let a = 0; a < 3; a++) out[a] = body.feet[a] / length
+  return out
+}
+
+export function eyePosition(body: PlayerBody, out: Vec3 = [0, 0, 0]): Vec3 {
+  playerUp(body, out)
+  const eye = body.height - PLAYER_EYE_DROP
+  for (let a = 0; a < 3; a++) out[a] = body.feet[a] + out[a] * eye
+  return out
+}
+
+function dot(a: Vec3, b: Vec3) {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+}
+
+function sweep(store: VoxelStore, feet: Vec3, height: number, scale: number, direction: Vec3) {
+  contact[0] = contact[1] = contact[2] = 0
+  for (let a = 0; a < 3; a++) delta[a] = direction[a] * scale
+  sweepCapsule(store, feet, up, PLAYER_RADIUS, height, delta, contact)
+  return dot(contact, up)
+}
+
+// Would the capsule fit at `height` where it stands?
+function fits(store: VoxelStore, body: PlayerBody, height: number) {
+  for (let a = 0; a < 3; a++) trial[a] = body.feet[a]
+  contact[0] = contact[1] = contact[2] = 0
+  resolveCapsule(store, trial, up, PLAYER_RADIUS, height, contact)
+  return Math.hypot(contact[0], contact[1], contact[2]) < 1e-3
+}
+
+// Walks along `move` (tangent, already scaled to this step), sliding along walls. A grounded body
+// that gets stuck tries again lifted by STEP_MAX and then settles back down onto whatever it climbed.
+function walk(store: VoxelStore, body: PlayerBody, move: Vec3) {
+  const length = Math.hypot(move[0], move[1], move[2])
+  if (length < 1e-9) return
+  const { feet, height } = body
+  for (let a = 0; a < 3; a++) start[a] = feet[a]
+  sweep(store, feet, height, 1, move)
+  const progress = (dot(feet, move) - dot(start, move)) / length
+  if (!body.grounded || progress >= BLOCKED_SHARE * length) return
+
+  for (let a = 0; a < 3; a++) stepped[a] = start[a]
+  sweep(store, stepped, height, STEP_MAX, up)
+  // reach at least a radius over the ledge, or the rounded bottom lands on its corner and slides off
+  sweep(store, stepped, height, Math.max(1, PLAYER_RADIUS / length), move)
+  const landed = sweep(store, stepped, height, -STEP_MAX, up) > CONTACT_EPSILON
+  const steppedProgress = (dot(stepped, move) - dot(start, move)) / length
+  if (landed && steppedProgress > progress + 1e-4) {
+    for (let a = 0; a < 3; a++) feet[a] = stepped[a]
+  }
+}
+
+// One kinematic step: crouch, jump or fall, walk with step-up and sliding, then land.
+export function stepPlayer(store: VoxelStore, body: PlayerBody, input: PlayerInput, dt: number) {
+  playerUp(body, up)
+
+  // crouching shrinks right away; standing back up needs the headroom
+  const targetHeight = input.crouch ? PLAYER_CROUCH_HEIGHT : PLAYER_HEIGHT
+  if (targetHeight < body.height) body.height = Math.max(targetHeight, body.height - CROUCH_RATE * dt)
+  else if (targetHeight > body.height) {
+    const next = Math.min(targetHeight, body.height + CROUCH_RATE * dt)
+    if (fits(store, body, next)) body.height = next
+  }
+
+  let jumped = false
+  if (input.swimming && input.jump) {
+    body.verticalSpeed = SWIM_SPEED
+  } else if (body.grounded && input.jump && !isCrouching(body)) {
+    body.verticalSpeed = JUMP_SPEED
+    jumped = true
+  } else {
+    body.verticalSpeed = Math.max(-MAX_FALL_SPEED, body.verticalSpeed - GRAVITY * dt)
+    if (input.swimming) body.verticalSpeed = Math.max(-SWIM_SPEED, body.verticalSpeed)
+  }
+
+  // walking: tangential part of the wish, clamped to unit length
+  const along = dot(input.move, up)
+  for (let a = 0; a < 3; a++) move[a] = input.move[a] - up[a] * along
+  const wish = Math.hypot(move[0], move[1], move[2])
+  const speed =
+    (WALK_SPEED * (input.speedFactor ?? 1) * (isCrouching(body) ? CROUCH_SPEED_FACTOR : 1) * dt) / Math.max(1, wish)
+  for (let a = 0; a < 3; a++) move[a] *= speed
+  walk(store, body, move)
+
+  const wasGrounded = body.grounded && !jumped
+  const lift = sweep(store, body.feet, body.height, body.verticalSpeed * dt, up)
+  if (lift > CONTACT_EPSILON && body.verticalSpeed <= 0) {
+    body.grounded = true
+    body.verticalSpeed = 0
+  } else {
+    // a bump of the head ends the rise
+    if (lift < -CONTACT_EPSILON && body.verticalSpeed > 0) body.verticalSpeed = 0
+    body.grounded = false
+  }
+
+  // stay on the ground walking down steps and slopes instead of falling off every small drop
+  if (!body.grounded && wasGrounded && body.verticalSpeed <= 0) {
+    for (let a = 0; a < 3; a++) trial[a] = body.feet[a]
+    if (sweep(store, trial, body.height, -DECAL_IGNORE, up) > CONTACT_EPSILON) {
+      for (let a = 0; a < 3; a++) body.feet[a] = trial[a]
+      body.grounded = true
+      body.verticalSpeed = 0
+    }
+  }
+}
@@ -0,0 +1,99 @@
+// Central simulation clock. Systems register a fixed tick and are stepped from simulated time,
+// which runs at `scale` × real time (0 while paused), independently of the frame rate. Rendering
+// reads the systems' state every frame and can interpolate with `tickAlpha`.
+// The views put the player and the debris worker on the same clock, so they stop while paused too.
+
+// Simulated seconds per real second offered in the UI; the fast ones are for geologic processes
+export const TIME_SCALES = [1, 10, 1000] as const
+
+// Cap on ticks one system runs per frame, so a large scale or a slow frame can't stall rendering
+const DEFAULT_MAX_TICKS = 4
+
+export type SimulationSystem = {
+  id: string
+  // simulated seconds per tick
+  step: number
+  tick: (dt: number, time: number) => void
+  maxTicksPerFrame?: number
+  // Past the per-frame cap, 'drop' lets the system fall behind simulated time (fixed-step automata);
+  // 'stretch' folds the rest into the last tick's dt (systems that integrate any dt exactly).
+  catchUp?: 'drop' | 'stretch'
+  // ticks much finer than the simulation proper (the player, debris): left out when sizing a single step
+  fine?: boolean
+}
+
+type ScheduledSystem = SimulationSystem & {
+  // simulated time owed to the system, in seconds
+  accumulator: number
+}
+
+export type Scheduler = {
+  // simulated seconds since the world started
+  time: number
+  paused: boolean
+  scale: number
+  // single steps queued while paused
+  pendingSteps: number
+  systems: ScheduledSystem[]
+}
+
+export function createScheduler(scale = 1): Scheduler {
+  return { time: 0, paused: false, scale, pendingSteps: 0, systems: [] }
+}
+
+// Adds a system (after the ones already registered: ticks run in registration order) and returns
+// a function that removes it, to be used as an effect cleanup.
+export function registerSystem(scheduler: Scheduler, system: SimulationSystem) {
+  const scheduled: ScheduledSystem = { ...system, accumulator: 0 }
+  scheduler.systems.push(scheduled)
+  return () => {
+    const index = scheduler.systems.indexOf(scheduled)
+    if (index >= 0) scheduler.systems.splice(index, 1)
+  }
+}
+
+function runSystem(system: ScheduledSystem, time: number) {
+  const maxTicks = system.maxTicksPerFrame ?? DEFAULT_MAX_TICKS
+  let ticks = 0
+  while (system.accumulator >= system.step && ticks < maxTicks) {
+    const last = ticks === maxTicks - 1
+    const dt = last && system.catchUp === 'stretch' ? system.accumulator : system.step
+    system.accumulator -= dt
+    system.tick(dt, time - system.accumulator)
+    ticks++
+  }
+  // whatever is left past the cap is dropped
+  if (system.accumulator >= system.step) system.accumulator %= system.step
+}
+
+// Moves simulated time on by `delta` real seconds; when paused, only queued single steps run.
+export function advanceScheduler(scheduler: Scheduler, delta: number) {
+  let dt = scheduler.paused ? 0 : delta * scheduler.scale
+  if (scheduler.paused && scheduler.pendingSteps > 0) {
+    // one step = the shortest tick of the simulation proper, so none of it moves by more than one tick
+    const steps = scheduler.systems.filter((system) => !system.fine).map((system) => system.step)
+    if (steps.length > 0) dt = scheduler.pendingSteps * Math.min(...steps)
+    scheduler.pendingSteps = 0
+  }
+  if (dt > 0) tickScheduler(scheduler, dt)
+}
+
+// Runs `dt` simulated seconds right away, paused or not; headless runs drive the clock with this.
+export function tickScheduler(scheduler: Scheduler, dt: number) {
+  scheduler.time += dt
+  for (const system of scheduler.systems) {
+    system.accumulator += dt
+    runSystem(system, scheduler.time)
+  }
+}
+
+// Queues one step of simulated time, run on the next frame; only meaningful while paused.
+export function stepScheduler(scheduler: Scheduler) {
+  if (scheduler.paused) scheduler.pendingSteps++
+}
+
+// How far a system is into its next tick (0..1), to interpolate what it draws.
+export function tickAlpha(scheduler: Scheduler, id: string) {
+  const system = scheduler.systems.find((s) => s.id === id)
+  return system ? Math.min(1, system.accumulator / system.step) : 0
+}
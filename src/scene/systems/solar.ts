@@ -0,0 +1,145 @@
+import { EARTH_AXIAL_TILT, LAT_STEPS, LON_STEPS, SEA_LEVEL } from '../constants'
+import { cellDirection, cellIndex, cellOf } from '../utils/planet'
+import type { HeightField } from '../utils/planet'
+import { getKernels } from '../../wasm/loader'
+
+export const HOURS_PER_DAY = 24
+export const DAYS_PER_YEAR = 365
+// Local solar time is measured on the meridian through the player's starting point (+Z)
+export const REFERENCE_LONGITUDE = Math.PI / 2
+// day of the year of the December solstice, when the sun stands over the southern tropic
+const DECEMBER_SOLSTICE = 355
+
+// Simulated calendar. The planet spins about +Y (north) and `hours` counts from midnight of the
+// first day of the year at the reference meridian.
+export type SolarClock = {
+  hours: number
+  // observer latitude in radians; the sky colour and reports follow the sun as seen from there
+  latitude: number
+  // simulated hours per real second (0 = frozen)
+  rate: number
+}
+
+export function createSolarClock(day = 172, hour = 9, latitude = 0, rate = 0.2): SolarClock {
+  return { hours: day * HOURS_PER_DAY + hour, latitude, rate }
+}
+
+export function advanceClock(clock: SolarClock, seconds: number) {
+  clock.hours = (clock.hours + clock.rate * seconds) % (DAYS_PER_YEAR * HOURS_PER_DAY)
+}
+
+export function dayOfYear(hours: number) {
+  return Math.floor(hours / HOURS_PER_DAY) % DAYS_PER_YEAR
+}
+
+export function hourOfDay(hours: number) {
+  return ((hours % HOURS_PER_DAY) + HOURS_PER_DAY) % HOURS_PER_DAY
+}
+
+// Latitude of the subsolar point: swings between the tropics over the year
+export function solarDeclination(hours: number) {
+  const day = hours / HOURS_PER_DAY
+  return -EARTH_AXIAL_TILT * Math.cos((2 * Math.PI * (day - DECEMBER_SOLSTICE)) / DAYS_PER_YEAR)
+}
+
+// Unit vector from the planet centre towards the sun, in world space. The planet rotates
+// eastwards (towards -longitude), so the subsolar point drifts to +longitude through the day.
+export function sunDirection(hours: number, out: [number, number, number] = [0, 0, 0]) {
+  const declination = solarDeclination(hours)
+  const lon = REFERENCE_LONGITUDE + (2 * Math.PI * (hourOfDay(hours) - 12)) / HOURS_PER_DAY
+  const cosDec = Math.cos(declination)
+  out[0] = cosDec * Math.cos(lon)
+  out[1] = Math.sin(declination)
+  out[2] = cosDec * Math.sin(lon)
+  return out
+}
+
+// Surface normal of the observer: a latitude on the reference meridian
+export function observerDirection(latitude: number, out: [number, number, number] = [0, 0, 0]) {
+  const cosLat = Math.cos(latitude)
+  out[0] = cosLat * Math.cos(REFERENCE_LONGITUDE)
+  out[1] = Math.sin(latitude)
+  out[2] = cosLat * Math.sin(REFERENCE_LONGITUDE)
+  return out
+}
+
+// Sine of the sun's elevation above the horizon of a surface normal
+export function sunElevation(sun: readonly number[], normal: readonly number[]) {
+  return sun[0] * normal[0] + sun[1] * normal[1] + sun[2] * normal[2]
+}
+
+// Stylized surface energy balance, in °C and W/m². Ground relaxes towards an equilibrium set by
+// the sunlight it receives, so afternoons are warmer than mornings and summers lag the solstice.
+const SURFACE_IRRADIANCE = 1000
+const NIGHT_TEMPERATURE = -5
+const SOLAR_WARMING = 0.07
+// °C lost per voxel of altitude above the sea (matches the lapse of the generation climate)
+const LAPSE_RATE = 0.6
+// hours for the ground to close ~63% of the gap to equilibrium
+const THERMAL_RESPONSE = 6
+
+export type SurfaceClimate = {
+  // W/m² reaching each heightfield cell right now
+  insolation: Float32Array
+  // surface temperature of each cell, °C
+  temperature: Float32Array
+  hours: number
+}
+
+function equilibrium(insolation: number, height: number) {
+  return NIGHT_TEMPERATURE + SOLAR_WARMING * insolation - LAPSE_RATE * Math.max(0, height - SEA_LEVEL)
+}
+
+// Cell normals, computed once: insolation is refreshed every frame
+let cellNormals: Float32Array | null = null
+
+function getCellNormals() {
+  if (cellNormals) return cellNormals
+  cellNormals = new Float32Array(LAT_STEPS * LON_STEPS * 3)
+  for (let row = 0; row < LAT_STEPS; row++) {
+    for (let col = 0; col < LON_STEPS; col++) cellNormals.set(cellDirection(row, col), cellIndex(row, col) * 3)
+  }
+  return cellNormals
+}
+
+function fillInsolation(target: Float32Array, sun: readonly number[], weight = 1) {
+  getKernels().insolation(getCellNormals(), target, sun, SURFACE_IRRADIANCE, weight)
+}
+
+// Starts every cell at the equilibrium of its mean insolation over the current day, so the
+// field doesn't need a spin-up before it can be queried.
+export function createSurfaceClimate(heights: HeightField, hours: number): SurfaceClimate {
+  const cells = LAT_STEPS * LON_STEPS
+  const mean = new Float32Array(cells)
+  const sun: [number, number, number] = [0, 0, 0]
+  const start = hours - hourOfDay(hours)
+  for (let h = 0; h < HOURS_PER_DAY; h++) fillInsolation(mean, sunDirection(start + h + 0.5, sun), 1 / HOURS_PER_DAY)
+
+  const climate: SurfaceClimate = { insolation: new Float32Array(cells), temperature: new Float32Array(cells), hours }
+  for (let cell = 0; cell < cells; cell++) climate.temperature[cell] = equilibrium(mean[cell], heights[cell])
+  fillInsolation(climate.insolation, sunDirection(hours, sun))
+  return climate
+}
+
+// Recomputes insolation for the clock's time and lets temperatures follow it.
+export function updateSurfaceClimate(climate: SurfaceClimate, heights: HeightField, sun: readonly number[], hours: number) {
+  let elapsed = hours - climate.hours
+  // the clock wraps at the end of the year; a backwards jump (a time set by hand) resets nothing
+  if (elapsed < 0) elapsed = 0
+  climate.hours = hours
+  climate.insolation.fill(0)
+  fillInsolation(climate.insolation, sun)
+  const blend = 1 - Math.exp(-elapsed / THERMAL_RESPONSE)
+  for (let cell = 0; cell < climate.temperature.length; cell++) {
+    const target = equilibrium(climate.insolation[cell], heights[cell])
+    climate.temperature[cell] += (target - climate.temperature[cell]) * blend
+  }
+}
+
+export function insolationAt(climate: SurfaceClimate, x: number, y: number, z: number) {
+  return climate.insolation[cellOf(x, y, z)]
+}
+
+export function surfaceTemperatureAt(climate: SurfaceClimate, x: number, y: number, z: number) {
+  return climate.temperature[cellOf(x, y, z)]
+}
@@ -0,0 +1,376 @@
+import { BEDROCK_RADIUS } from '../constants'
+import { MATERIAL, MATERIALS } from '../utils/materials'
+import type { MaterialId } from '../utils/materials'
+import { forEachVoxel, getPartial, getVoxel, isInside, readBox, setVoxel, voxelIndex } from '../utils/voxelStore'
+import type { VoxelStore } from '../utils/voxelStore'
+
+// Why a voxel lost its support:
+// - 'disconnected': no chain of solid voxels links it to bedrock (a floating piece)
+// - 'overhang': it sticks out further than its material's `maxOverhang` from a supported column
+export type SupportFailure = 'disconnected' | 'overhang'
+
+export type CollapsedVoxel = {
+  position: [number, number, number]
+  material: MaterialId
+  // sub-cells of a drilled voxel, so its remainder falls as it was
+  cells?: Uint8Array
+  reason: SupportFailure
+}
+
+export type CollapseEvent = {
+  voxels: CollapsedVoxel[]
+  counts: Record<SupportFailure, number>
+  // voxels per material
+  materials: Record<number, number>
+  // mean position of the collapsed voxels, in voxel units
+  centre: [number, number, number]
+}
+
+export type SupportOptions = {
+  // also enforce the per-material overhang limits, not just connectivity
+  overhang?: boolean
+  // the cells an edit changed: only the voxels they can affect are checked (findUnsupportedNear)
+  near?: Cell[]
+}
+
+type Cell = [number, number, number]
+
+// no voxel's support reaches further than this from a column
+const MAX_OVERHANG = Math.max(...Object.values(MATERIALS).map((info) => info.maxOverhang))
+const FACES: Cell[] = [
+  [1, 0, 0],
+  [-1, 0, 0],
+  [0, 1, 0],
+  [0, -1, 0],
+  [0, 0, 1],
+  [0, 0, -1],
+]
+
+// Support analysis over the whole grid:
+// 1. flood-fill from bedrock through face neighbours; anything not reached is disconnected;
+// 2. a voxel is a column if the voxel below it (one step toward the centre along its dominant
+//    axis) is a column too, down to bedrock;
+// 3. breadth-first from the columns, a voxel's overhang is its distance to the nearest column.
+// A span between two columns therefore holds up to 2 × maxOverhang + 1 voxels.
+export function findUnsupported(store: VoxelStore, options: SupportOptions = {}): CollapsedVoxel[] {
+  const s = store.size
+  const min = store.min
+  const total = s * s * s
+  const materials = new Uint8Array(total)
+  const reach = new Int16Array(total).fill(-1)
+  const queue = new Int32Array(total)
+  let head = 0
+  let tail = 0
+
+  const bedrock2 = BEDROCK_RADIUS * BEDROCK_RADIUS
+  forEachVoxel(store, (x, y, z, material) => {
+    const i = voxelIndex(store, x, y, z)
+    materials[i] = material
+    if (x * x + y * y + z * z <= bedrock2) {
+      reach[i] = 0
+      queue[tail++] = i
+    }
+  })
+
+  const s2 = s * s
+  const visitNeighbours = (i: number, visit: (j: number) => void) => {
+    const lx = Math.floor(i / s2)
+    const ly = Math.floor(i / s) % s
+    const lz = i % s
+    if (lx > 0) visit(i - s2)
+    if (lx < s - 1) visit(i + s2)
+    if (ly > 0) visit(i - s)
+    if (ly < s - 1) visit(i + s)
+    if (lz > 0) visit(i - 1)
+    if (lz < s - 1) visit(i + 1)
+  }
+
+  // 1. connectivity; `reach` doubles as the visited mark
+  const connected = new Uint8Array(total)
+  for (let q = 0; q < tail; q++) connected[queue[q]] = 1
+  while (head < tail) {
+    visitNeighbours(queue[head++], (j) => {
+      if (materials[j] === MATERIAL.air || connected[j]) return
+      connected[j] = 1
+      queue[tail++] = j
+    })
+  }
+
+  if (options.overhang ?? true) {
+    // 2. columns: walk down until a known cell, air or bedrock, then label the whole walk
+    const column = new Int8Array(total) // 0 unknown, 1 column, -1 not
+    const path = new Int32Array(s * 3)
+    for (let q = 0; q < tail; q++) {
+      const start = queue[q]
+      if (column[start] !== 0) continue
+      let length = 0
+      let i = start
+      let result: number
+      for (;;) {
+        if (!connected[i]) {
+          result = -1
+          break
+        }
+        if (column[i] !== 0) {
+          result = column[i]
+          break
+        }
+        if (reach[i] === 0) {
+          result = 1
+          break
+        }
+        path[length++] = i
+        const x = Math.floor(i / s2) + min
+        const y = (Math.floor(i / s) % s) + min
+        const z = (i % s) + min
+        const ax = Math.abs(x)
+        const ay = Math.abs(y)
+        const az = Math.abs(z)
+        if (ax >= ay && ax >= az) i -= Math.sign(x) * s2
+        else if (ay >= az) i -= Math.sign(y) * s
+        else i -= Math.sign(z)
+      }
+      for (let p = 0; p < length; p++) column[path[p]] = result
+    }
+
+    // 3. overhang distance from the nearest column
+    head = 0
+    tail = 0
+    reach.fill(-1)
+    for (let i = 0; i < total; i++) {
+      if (connected[i] && (column[i] === 1 || column[i] === 0)) {
+        // bedrock cells are never walked (column 0) but support everything above them
+        reach[i] = 0
+        queue[tail++] = i
+      }
+    }
+    while (head < tail) {
+      const i = queue[head++]
+      const next = reach[i] + 1
+      visitNeighbours(i, (j) => {
+        if (!connected[j] || reach[j] !== -1) return
+        reach[j] = next
+        queue[tail++] = j
+      })
+    }
+  }
+
+  const failed: CollapsedVoxel[] = []
+  forEachVoxel(store, (x, y, z, material) => {
+    const i = voxelIndex(store, x, y, z)
+    let reason: SupportFailure | null = null
+    if (!connected[i]) reason = 'disconnected'
+    else if ((options.overhang ?? true) && reach[i] > (MATERIALS[material]?.maxOverhang ?? 0)) reason = 'overhang'
+    if (!reason) return
+    failed.push({ position: [x, y, z], material, cells: getPartial(store, x, y, z), reason })
+  })
+  return failed
+}
+
+// The voxel a column rests on: one step toward the centre along the dominant axis.
+function below(x: number, y: number, z: number): Cell {
+  const ax = Math.abs(x)
+  const ay = Math.abs(y)
+  const az = Math.abs(z)
+  if (ax >= ay && ax >= az) return [x - Math.sign(x), y, z]
+  if (ay >= az) return [x, y - Math.sign(y), z]
+  return [x, y, z - Math.sign(z)]
+}
+
+// The same analysis as findUnsupported, limited to what changing `cells` can have undermined, on a
+// grid that was stable before. A voxel's support only depends on the voxels within MAX_OVERHANG of
+// it and on the columns those rest on, so the voxels to check are the ones within MAX_OVERHANG of
+// the cells or of any column resting on them; their overhangs are measured inside a window
+// MAX_OVERHANG wider. A failing group with no supported solid neighbour is disconnected.
+export function findUnsupportedNear(store: VoxelStore, cells: Cell[]): CollapsedVoxel[] {
+  // the cells and every solid voxel whose column runs down through one of them
+  const affected = new Map<number, Cell>()
+  const pending = cells.filter(([x, y, z]) => isInside(store, x, y, z))
+  pending.forEach((cell) => affected.set(voxelIndex(store, ...cell), cell))
+  while (pending.length > 0) {
+    const [x, y, z] = pending.pop()!
+    for (const [dx, dy, dz] of FACES) {
+      const above: Cell = [x + dx, y + dy, z + dz]
+      if (getVoxel(store, ...above) === MATERIAL.air) continue
+      const index = voxelIndex(store, ...above)
+      if (affected.has(index)) continue
+      const [bx, by, bz] = below(...above)
+      if (bx !== x || by !== y || bz !== z) continue
+      affected.set(index, above)
+      pending.push(above)
+    }
+  }
+  if (affected.size === 0) return []
+
+  // voxels to check (the box lo..hi), and the window around them (x0..x1 and so on)
+  let [lx0, ly0, lz0] = [Infinity, Infinity, Infinity]
+  let [lx1, ly1, lz1] = [-Infinity, -Infinity, -Infinity]
+  affected.forEach(([x, y, z]) => {
+    lx0 = Math.min(lx0, x - MAX_OVERHANG)
+    ly0 = Math.min(ly0, y - MAX_OVERHANG)
+    lz0 = Math.min(lz0, z - MAX_OVERHANG)
+    lx1 = Math.max(lx1, x + MAX_OVERHANG)
+    ly1 = Math.max(ly1, y + MAX_OVERHANG)
+    lz1 = Math.max(lz1, z + MAX_OVERHANG)
+  })
+  const max = store.min + store.size - 1
+  const x0 = Math.max(store.min, lx0 - MAX_OVERHANG)
+  const y0 = Math.max(store.min, ly0 - MAX_OVERHANG)
+  const z0 = Math.max(store.min, lz0 - MAX_OVERHANG)
+  const x1 = Math.min(max, lx1 + MAX_OVERHANG)
+  const y1 = Math.min(max, ly1 + MAX_OVERHANG)
+  const z1 = Math.min(max, lz1 + MAX_OVERHANG)
+  const nx = x1 - x0 + 1
+  const ny = y1 - y0 + 1
+  const nz = z1 - z0 + 1
+  const strideX = ny * nz
+  const total = nx * strideX
+  const at = (x: number, y: number, z: number) => (x - x0) * strideX + (y - y0) * nz + (z - z0)
+  const inWindow = (x: number, y: number, z: number) =>
+    x >= x0 && x <= x1 && y >= y0 && y <= y1 && z >= z0 && z <= z1
+  const inChecked = (x: number, y: number, z: number) =>
+    x >= lx0 && x <= lx1 && y >= ly0 && y <= ly1 && z >= lz0 && z <= lz1
+
+  // window cells in `at` order
+  const materials = new Uint8Array(total)
+  readBox(store, x0, y0, z0, x1, y1, z1, materials)
+
+  // columns: walk down until a known cell, air or bedrock, then label the walk inside the window
+  const column = new Int8Array(total) // 0 unknown, 1 column, -1 not
+  const path = new Int32Array(nx + ny + nz)
+  const isColumn = (x: number, y: number, z: number) => {
+    let length = 0
+    let result: number
+    for (;;) {
+      const i = inWindow(x, y, z) ? at(x, y, z) : -1
+      if ((i >= 0 ? materials[i] : getVoxel(store, x, y, z)) === MATERIAL.air) {
+        result = -1
+        break
+      }
+      if (i >= 0 && column[i] !== 0) {
+        result = column[i]
+        break
+      }
+      if (x * x + y * y + z * z <= BEDROCK_RADIUS * BEDROCK_RADIUS) {
+        result = 1
+        break
+      }
+      if (i >= 0) path[length++] = i
+      const ax = Math.abs(x)
+      const ay = Math.abs(y)
+      const az = Math.abs(z)
+      if (ax >= ay && ax >= az) x -= Math.sign(x)
+      else if (ay >= az) y -= Math.sign(y)
+      else z -= Math.sign(z)
+    }
+    for (let p = 0; p < length; p++) column[path[p]] = result
+    return result === 1
+  }
+
+  // overhang distance from the nearest column, as far as MAX_OVERHANG + 1
+  const reach = new Int16Array(total).fill(-1)
+  const queue = new Int32Array(total)
+  let head = 0
+  let tail = 0
+  for (let x = x0, i = 0; x <= x1; x++) {
+    for (let y = y0; y <= y1; y++) {
+      for (let z = z0; z <= z1; z++, i++) {
+        if (materials[i] === MATERIAL.air || !isColumn(x, y, z)) continue
+        reach[i] = 0
+        queue[tail++] = i
+      }
+    }
+  }
+  const visit = (j: number, next: number) => {
+    if (materials[j] === MATERIAL.air || reach[j] !== -1) return
+    reach[j] = next
+    queue[tail++] = j
+  }
+  while (head < tail) {
+    const i = queue[head++]
+    const next = reach[i] + 1
+    if (next > MAX_OVERHANG + 1) continue
+    const wx = Math.floor(i / strideX)
+    const wy = Math.floor(i / nz) % ny
+    const wz = i % nz
+    if (wx > 0) visit(i - strideX, next)
+    if (wx < nx - 1) visit(i + strideX, next)
+    if (wy > 0) visit(i - nz, next)
+    if (wy < ny - 1) visit(i + nz, next)
+    if (wz > 0) visit(i - 1, next)
+    if (wz < nz - 1) visit(i + 1, next)
+  }
+
+  const failing = new Map<number, Cell>()
+  for (let x = Math.max(x0, lx0); x <= Math.min(x1, lx1); x++) {
+    for (let y = Math.max(y0, ly0); y <= Math.min(y1, ly1); y++) {
+      for (let z = Math.max(z0, lz0), i = at(x, y, z); z <= Math.min(z1, lz1); z++, i++) {
+        const material = materials[i]
+        if (material === MATERIAL.air) continue
+        if (reach[i] === -1 || reach[i] > (MATERIALS[material]?.maxOverhang ?? 0)) failing.set(i, [x, y, z])
+      }
+    }
+  }
+
+  // outside the checked box everything still stands, as it did before the edit
+  const supported = (x: number, y: number, z: number) =>
+    inWindow(x, y, z)
+      ? materials[at(x, y, z)] !== MATERIAL.air && !(inChecked(x, y, z) && failing.has(at(x, y, z)))
+      : getVoxel(store, x, y, z) !== MATERIAL.air
+  const failed: CollapsedVoxel[] = []
+  const grouped = new Set<number>()
+  failing.forEach((start, startIndex) => {
+    if (grouped.has(startIndex)) return
+    const group = [start]
+    grouped.add(startIndex)
+    let resting = false
+    for (let g = 0; g < group.length; g++) {
+      const [x, y, z] = group[g]
+      for (const [dx, dy, dz] of FACES) {
+        const [ux, uy, uz] = [x + dx, y + dy, z + dz]
+        if (supported(ux, uy, uz)) resting = true
+        if (!inChecked(ux, uy, uz) || !inWindow(ux, uy, uz)) continue
+        const j = at(ux, uy, uz)
+        if (!failing.has(j) || grouped.has(j)) continue
+        grouped.add(j)
+        group.push([ux, uy, uz])
+      }
+    }
+    const reason: SupportFailure = resting ? 'overhang' : 'disconnected'
+    for (const [x, y, z] of group) {
+      failed.push({ position: [x, y, z], material: materials[at(x, y, z)], cells: getPartial(store, x, y, z), reason })
+    }
+  })
+  return failed
+}
+
+// Removes every unsupported voxel from the grid. What falls can leave voxels beyond it hanging (a
+// granite beam held up through a sand voxel that was past its limit), so the voxels around each
+// fall are checked again until nothing more fails. Without the overhang limits one pass is enough:
+// removing disconnected voxels disconnects nothing else. Returns null when nothing failed.
+export function collapseUnsupported(store: VoxelStore, options: SupportOptions = {}): CollapseEvent | null {
+  const overhang = options.overhang ?? true
+  const voxels: CollapsedVoxel[] = []
+  let failed = options.near && overhang ? findUnsupportedNear(store, options.near) : findUnsupported(store, options)
+  while (failed.length > 0) {
+    for (const voxel of failed) {
+      setVoxel(store, ...voxel.position, MATERIAL.air)
+      voxels.push(voxel)
+    }
+    failed = overhang ? findUnsupportedNear(store, failed.map((voxel) => voxel.position)) : []
+  }
+  if (voxels.length === 0) return null
+
+  const counts: Record<SupportFailure, number> = { disconnected: 0, overhang: 0 }
+  const materials: Record<number, number> = {}
+  const centre: [number, number, number] = [0, 0, 0]
+  for (const voxel of voxels) {
+    const [x, y, z] = voxel.position
+    counts[voxel.reason]++
+    materials[voxel.material] = (materials[voxel.material] ?? 0) + 1
+    centre[0] += x / voxels.length
+    centre[1] += y / voxels.length
+    centre[2] += z / voxels.length
+  }
+  return { voxels, counts, materials, centre }
+}
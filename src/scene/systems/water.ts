@@ -0,0 +1,259 @@
+import { SEA_LEVEL, VOXEL_SIZE } from '../constants'
+import { MATERIAL } from '../utils/materials'
+import { cellOf, stepFrom } from '../utils/planet'
+import type { HeightField } from '../utils/planet'
+import { CHUNK_SIZE, getVoxel, isInside, voxelIndex } from '../utils/voxelStore'
+import type { VoxelStore } from '../utils/voxelStore'
+
+// Share of the level difference that moves sideways per step
+const SPREAD_RATE = 0.25
+// Films thinner than this evaporate
+const MIN_VOLUME = 0.01
+// Transfers smaller than this don't keep a cell awake
+const SETTLE_EPSILON = 1e-4
+export const WATER_STEP = 0.1
+
+// Per-voxel water over the whole grid, in empty voxels only (volume = filled fraction 0..1).
+// Ocean cells are the sea below `seaLevel` connected to the open seabed: a bottomless reservoir that
+// stays full, soaks up whatever flows into it and floods any empty voxel under sea level it touches.
+// Everything else (flooded pits, poured water, rain) is simulated cell by cell and falls asleep
+// once it stops moving; edits wake the cells of the chunks they touch.
+export type WaterField = {
+  seaLevel: number
+  volume: Float32Array
+  ocean: Uint8Array
+  active: number[]
+  listed: Uint8Array
+  // last seen version of every chunk, to notice edits
+  chunkVersions: Int32Array
+  // bumped whenever any volume changes, so the surface mesh knows when to rebuild
+  revision: number
+}
+
+function isOpen(store: VoxelStore, x: number, y: number, z: number) {
+  return isInside(store, x, y, z) && getVoxel(store, x, y, z) === MATERIAL.air
+}
+
+function isUnderSea(field: WaterField, x: number, y: number, z: number) {
+  return Math.sqrt(x * x + y * y + z * z) <= field.seaLevel
+}
+
+// Fills every empty voxel under `seaLevel` with water. Those reachable from the open seabed
+// (columns whose ground lies below sea level) become ocean; the rest are groundwater sitting in
+// pits, free to drain once excavation opens a way out.
+export function createWaterField(store: VoxelStore, heights: HeightField, seaLevel = SEA_LEVEL): WaterField {
+  const s = store.size
+  const total = s * s * s
+  const field: WaterField = {
+    seaLevel,
+    volume: new Float32Array(total),
+    ocean: new Uint8Array(total),
+    active: [],
+    listed: new Uint8Array(total),
+    chunkVersions: Int32Array.from(store.chunks, (chunk) => chunk.version),
+    revision: 0,
+  }
+
+  const queue: number[] = []
+  const r = Math.ceil(seaLevel)
+  for (let x = -r; x <= r; x++) {
+    for (let y = -r; y <= r; y++) {
+      for (let z = -r; z <= r; z++) {
+        if (!isUnderSea(field, x, y, z) || !isOpen(store, x, y, z)) continue
+        const i = voxelIndex(store, x, y, z)
+        field.volume[i] = 1
+        if (heights[cellOf(x, y, z)] < seaLevel - 0.5) {
+          field.ocean[i] = 1
+          queue.push(i)
+        }
+      }
+    }
+  }
+  // spread the ocean through connected water
+  for (let head = 0; head < queue.length; head++) {
+    forNeighbours(store, queue[head], (j) => {
+      if (field.volume[j] > 0 && !field.ocean[j]) {
+        field.ocean[j] = 1
+        queue.push(j)
+      }
+    })
+  }
+  return field
+}
+
+function forNeighbours(store: VoxelStore, i: number, visit: (j: number, x: number, y: number, z: number) => void) {
+  const s = store.size
+  const x = Math.floor(i / (s * s)) + store.min
+  const y = (Math.floor(i / s) % s) + store.min
+  const z = (i % s) + store.min
+  if (isInside(store, x - 1, y, z)) visit(i - s * s, x - 1, y, z)
+  if (isInside(store, x + 1, y, z)) visit(i + s * s, x + 1, y, z)
+  if (isInside(store, x, y - 1, z)) visit(i - s, x, y - 1, z)
+  if (isInside(store, x, y + 1, z)) visit(i + s, x, y + 1, z)
+  if (isInside(store, x, y, z - 1)) visit(i - 1, x, y, z - 1)
+  if (isInside(store, x, y, z + 1)) visit(i + 1, x, y, z + 1)
+}
+
+function wake(field: WaterField, i: number) {
+  if (field.listed[i]) return
+  field.listed[i] = 1
+  field.active.push(i)
+}
+
+// Adds water to a cell; ocean cells are always full, so they swallow it.
+function pour(field: WaterField, to: number, amount: number) {
+  if (field.ocean[to]) return
+  field.volume[to] += amount
+  wake(field, to)
+}
+
+// Adds `amount` voxels of water at a point (world units), e.g. a bucket or a rain drop.
+export function addWater(field: WaterField, store: VoxelStore, position: [number, number, number], amount: number) {
+  const x = Math.round(position[0] / VOXEL_SIZE)
+  const y = Math.round(position[1] / VOXEL_SIZE)
+  const z = Math.round(position[2] / VOXEL_SIZE)
+  if (!isOpen(store, x, y, z)) return false
+  pour(field, voxelIndex(store, x, y, z), amount)
+  field.revision++
+  return true
+}
+
+// Filled fraction (0..1) of the voxel at integer coordinates.
+export function getWaterVolume(field: WaterField, store: VoxelStore, x: number, y: number, z: number) {
+  return isInside(store, x, y, z) ? field.volume[voxelIndex(store, x, y, z)] : 0
+}
+
+// True when a point (world units) lies inside water, counting partly filled cells from their bottom.
+export function isUnderwater(field: WaterField, store: VoxelStore, position: { x: number; y: number; z: number }) {
+  const x = Math.round(position.x / VOXEL_SIZE)
+  const y = Math.round(position.y / VOXEL_SIZE)
+  const z = Math.round(position.z / VOXEL_SIZE)
+  const volume = getWaterVolume(field, store, x, y, z)
+  if (volume <= 0) return false
+  if (volume >= 1) return true
+  // height of the point above the cell's inner face, along the cell's down axis
+  const [bx, by] = stepFrom(x, y, z, -1)
+  const axis = bx !== x ? 'x' : by !== y ? 'y' : 'z'
+  const centre = axis === 'x' ? x : axis === 'y' ? y : z
+  const height = Math.abs(position[axis] / VOXEL_SIZE) - (Math.abs(centre) - 0.5)
+  return height <= volume
+}
+
+// Wakes the water in chunks edited since the last step, and floods new openings next to the ocean.
+function wakeEdited(field: WaterField, store: VoxelStore) {
+  store.chunks.forEach((chunk, c) => {
+    if (field.chunkVersions[c] === chunk.version) return
+    field.chunkVersions[c] = chunk.version
+    const ox = chunk.cx * CHUNK_SIZE + store.min
+    const oy = chunk.cy * CHUNK_SIZE + store.min
+    const oz = chunk.cz * CHUNK_SIZE + store.min
+    for (let x = ox; x < ox + CHUNK_SIZE; x++) {
+      for (let y = oy; y < oy + CHUNK_SIZE; y++) {
+        for (let z = oz; z < oz + CHUNK_SIZE; z++) {
+          const i = voxelIndex(store, x, y, z)
+          if (field.volume[i] > 0) wake(field, i)
+        }
+      }
+    }
+  })
+}
+
+// Advances the water by one step: ocean cells flood open voxels under sea level next to them;
+// other water falls toward the centre, spreads to lower neighbours and pushes any excess upward.
+// Cells that neither gave nor received water fall asleep.
+export function stepWater(field: WaterField, store: VoxelStore) {
+  wakeEdited(field, store)
+  if (field.active.length === 0) return false
+
+  const { volume, ocean } = field
+  const moved = new Set<number>()
+  const cells = field.active
+  field.active = []
+  for (const i of cells) field.listed[i] = 0
+
+  const drain = (i: number, amount: number) => {
+    volume[i] -= amount
+    moved.add(i)
+  }
+
+  for (const i of cells) {
+    if (volume[i] <= 0) continue
+    const s = store.size
+    const x = Math.floor(i / (s * s)) + store.min
+    const y = (Math.floor(i / s) % s) + store.min
+    const z = (i % s) + store.min
+    if (getVoxel(store, x, y, z) !== MATERIAL.air) {
+      // an edit filled this voxel: the water is displaced and gone
+      volume[i] = 0
+      ocean[i] = 0
+      moved.add(i)
+      continue
+    }
+
+    if (ocean[i]) {
+      forNeighbours(store, i, (j, nx, ny, nz) => {
+        if (ocean[j] || !isOpen(store, nx, ny, nz) || !isUnderSea(field, nx, ny, nz)) return
+        ocean[j] = 1
+        volume[j] = 1
+        moved.add(j)
+        wake(field, j)
+      })
+      continue
+    }
+
+    // fall
+    const [bx, by, bz] = stepFrom(x, y, z, -1)
+    if (isOpen(store, bx, by, bz)) {
+      const b = voxelIndex(store, bx, by, bz)
+      const amount = ocean[b] ? volume[i] : Math.min(volume[i], 1 - volume[b])
+      if (amount > SETTLE_EPSILON) {
+        pour(field, b, amount)
+        drain(i, amount)
+      }
+    }
+
+    // spread sideways to lower neighbours
+    const downAxis = bx !== x ? 0 : by !== y ? 1 : 2
+    const sides: number[] = []
+    for (let axis = 0; axis < 3; axis++) {
+      if (axis === downAxis) continue
+      for (const side of [-1, 1]) {
+        const nx = axis === 0 ? x + side : x
+        const ny = axis === 1 ? y + side : y
+        const nz = axis === 2 ? z + side : z
+        if (isOpen(store, nx, ny, nz)) sides.push(voxelIndex(store, nx, ny, nz))
+      }
+    }
+    if (volume[i] > MIN_VOLUME) {
+      for (const n of sides) {
+        const amount = (volume[i] - volume[n]) * SPREAD_RATE
+        if (amount <= SETTLE_EPSILON) continue
+        pour(field, n, amount)
+        drain(i, amount)
+      }
+    }
+
+    // over-full cells push the excess up, or sideways under a roof; with no room anywhere it stays
+    // in the cell until an edit opens a way out
+    if (volume[i] > 1) {
+      const [ux, uy, uz] = stepFrom(x, y, z, 1)
+      const outlets = isOpen(store, ux, uy, uz) ? [voxelIndex(store, ux, uy, uz)] : sides
+      if (outlets.length > 0) {
+        const excess = volume[i] - 1
+        for (const n of outlets) pour(field, n, excess / outlets.length)
+        drain(i, excess)
+      }
+    }
+  }
+
+  // whoever lost water may now pull from its neighbours; thin films evaporate
+  for (const i of moved) {
+    if (volume[i] < MIN_VOLUME && !ocean[i]) volume[i] = 0
+    wake(field, i)
+    forNeighbours(store, i, (j) => {
+      if (volume[j] > 0 && !ocean[j]) wake(field, j)
+    })
+  }
+  if (moved.size > 0) field.revision++
+  return moved.size > 0
+}
@@ -0,0 +1,188 @@
+import { LAT_STEPS, LON_STEPS, VOXEL_SIZE } from '../constants'
+import { cellDirection, cellIndex } from '../utils/planet'
+import type { HeightField } from '../utils/planet'
+import { createRng } from '../utils/rng'
+import type { VoxelStore } from '../utils/voxelStore'
+import { addWater } from './water'
+import type { WaterField } from './water'
+
+export type WeatherState = 'clear' | 'rain' | 'storm'
+
+type WeatherProfile = {
+  // seconds a spell lasts
+  duration: [number, number]
+  // wind speed, m/s
+  wind: [number, number]
+  // rain drops per second over the whole planet, and the water (voxels) each one carries
+  drops: number
+  dropVolume: number
+  // 0..1, dims the sun and greys the sky
+  cover: number
+  // chance of moving on to each state when the spell ends
+  next: Record<WeatherState, number>
+}
+
+export const WEATHER: Record<WeatherState, WeatherProfile> = {
+  clear: { duration: [60, 180], wind: [0, 4], drops: 0, dropVolume: 0, cover: 0, next: { clear: 0, rain: 0.75, storm: 0.25 } },
+  rain: { duration: [40, 120], wind: [2, 8], drops: 6, dropVolume: 0.25, cover: 0.55, next: { clear: 0.6, rain: 0, storm: 0.4 } },
+  storm: { duration: [20, 60], wind: [10, 20], drops: 16, dropVolume: 0.4, cover: 0.85, next: { clear: 0.3, rain: 0.7, storm: 0 } },
+}
+
+export const WEATHER_STATES = Object.keys(WEATHER) as WeatherState[]
+
+// seconds for wind and cloud cover to ease halfway to a new spell's values
+const EASE_HALF_LIFE = 4
+
+// Seeded weather: the same seed gives the same sequence of spells, durations and winds as long
+// as nothing is forced or scheduled. Wind is a heading (radians clockwise from north, the way it
+// blows towards) and a speed, applied in each point's local tangent plane.
+export type WeatherSystem = {
+  state: WeatherState
+  elapsed: number
+  duration: number
+  heading: number
+  speed: number
+  targetHeading: number
+  targetSpeed: number
+  cover: number
+  // held until released (null = natural sequence)
+  forced: WeatherState | null
+  // spells queued at absolute times (seconds since the system started)
+  schedule: { state: WeatherState; at: number }[]
+  time: number
+  random: () => number
+  // where drops land is drawn from its own stream, so rain doesn't shift the spell sequence
+  rain: () => number
+  // fraction of a drop still owed from earlier steps
+  owed: number
+}
+
+function range(random: () => number, [min, max]: [number, number]) {
+  return min + (max - min) * random()
+}
+
+function enter(weather: WeatherSystem, state: WeatherState) {
+  const profile = WEATHER[state]
+  weather.state = state
+  weather.elapsed = 0
+  weather.duration = range(weather.random, profile.duration)
+  weather.targetHeading = weather.random() * Math.PI * 2
+  weather.targetSpeed = range(weather.random, profile.wind)
+}
+
+function pickNext(weather: WeatherSystem): WeatherState {
+  const next = WEATHER[weather.state].next
+  let roll = weather.random()
+  for (const state of WEATHER_STATES) {
+    roll -= next[state]
+    if (roll < 0) return state
+  }
+  return 'clear'
+}
+
+export function createWeather(seed: number, initial: WeatherState = 'clear'): WeatherSystem {
+  const weather: WeatherSystem = {
+    state: initial,
+    elapsed: 0,
+    duration: 0,
+    heading: 0,
+    speed: 0,
+    targetHeading: 0,
+    targetSpeed: 0,
+    cover: WEATHER[initial].cover,
+    forced: null,
+    schedule: [],
+    time: 0,
+    random: createRng(seed, 'weather'),
+    rain: createRng(seed, 'weather-rain'),
+    owed: 0,
+  }
+  enter(weather, initial)
+  weather.heading = weather.targetHeading
+  weather.speed = weather.targetSpeed
+  return weather
+}
+
+export function forceWeather(weather: WeatherSystem, state: WeatherState | null) {
+  weather.forced = state
+}
+
+export function scheduleWeather(weather: WeatherSystem, state: WeatherState, delay: number) {
+  weather.schedule.push({ state, at: weather.time + Math.max(0, delay) })
+  weather.schedule.sort((a, b) => a.at - b.at)
+}
+
+// Advances the weather by `dt` seconds; returns true when the state changed.
+export function stepWeather(weather: WeatherSystem, dt: number) {
+  const previous = weather.state
+  weather.time += dt
+  weather.elapsed += dt
+
+  while (weather.schedule.length > 0 && weather.schedule[0].at <= weather.time) {
+    enter(weather, weather.schedule.shift()!.state)
+  }
+  if (weather.forced) {
+    if (weather.state !== weather.forced) enter(weather, weather.forced)
+  } else if (weather.elapsed >= weather.duration) {
+    enter(weather, pickNext(weather))
+  }
+
+  const blend = 1 - Math.pow(0.5, dt / EASE_HALF_LIFE)
+  // turn the short way round
+  const turn = Math.atan2(Math.sin(weather.targetHeading - weather.heading), Math.cos(weather.targetHeading - weather.heading))
+  weather.heading = (weather.heading + turn * blend + Math.PI * 2) % (Math.PI * 2)
+  weather.speed += (weather.targetSpeed - weather.speed) * blend
+  weather.cover += (WEATHER[weather.state].cover - weather.cover) * blend
+  return weather.state !== previous
+}
+
+// Drops this step's rain on random surface cells (onto the top face of each column); returns how
+// many drops reached the ground. Drops that hit a solid voxel above the surface are lost.
+export function rainOnTerrain(weather: WeatherSystem, water: WaterField, store: VoxelStore, heights: HeightField, dt: number) {
+  const profile = WEATHER[weather.state]
+  weather.owed += profile.drops * dt
+  let landed = 0
+  for (; weather.owed >= 1; weather.owed--) {
+    // uniform over the sphere's area, not over rows, so the poles don't get more rain
+    const lat = Math.asin(weather.rain() * 2 - 1)
+    const row = Math.min(LAT_STEPS - 1, Math.floor(((lat + Math.PI / 2) / Math.PI) * LAT_STEPS))
+    const col = Math.floor(weather.rain() * LON_STEPS)
+    const [x, y, z] = cellDirection(row, col)
+    const r = (heights[cellIndex(row, col)] + 0.5) * VOXEL_SIZE
+    if (addWater(water, store, [x * r, y * r, z * r], profile.dropVolume)) landed++
+  }
+  return landed
+}
+
+// Wind velocity (m/s) at a point, tangent to the surface: the heading is measured from local
+// north (towards +Y) through east.
+export function windAt(heading: number, speed: number, x: number, y: number, z: number, out: [number, number, number] = [0, 0, 0]) {
+  const length = Math.hypot(x, y, z) || 1
+  const ux = x / length
+  const uy = y / length
+  const uz = z / length
+  // north = +Y minus its radial part; at the poles any tangent will do
+  let nx = -uy * ux
+  let ny = 1 - uy * uy
+  let nz = -uy * uz
+  const nLength = Math.hypot(nx, ny, nz)
+  if (nLength < 1e-6) {
+    nx = 1
+    ny = 0
+    nz = 0
+  } else {
+    nx /= nLength
+    ny /= nLength
+    nz /= nLength
+  }
+  // east = north × up
+  const ex = ny * uz - nz * uy
+  const ey = nz * ux - nx * uz
+  const ez = nx * uy - ny * ux
+  const c = Math.cos(heading) * speed
+  const s = Math.sin(heading) * speed
+  out[0] = nx * c + ex * s
+  out[1] = ny * c + ey * s
+  out[2] = nz * c + ez * s
+  return out
+}
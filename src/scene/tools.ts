@@ -0,0 +1,19 @@
+import { MATERIAL } from './utils/materials'
+import type { MaterialId } from './utils/materials'
+import type { FillShape } from './utils/shaping'
+
+// What a click on the terrain does
+export type SceneTool = 'dig' | 'place' | 'drill' | 'fill' | 'flatten' | 'vent' | 'water' | 'core'
+
+// Settings of the shaping tools
+export type ToolOptions = {
+  // what 'place' and 'fill' put down
+  material: MaterialId
+  shape: FillShape
+  // of the 'fill' and 'flatten' brushes, in voxels
+  radius: number
+  // furthest voxel the player can use a tool on, metres from the eyes
+  reach: number
+}
+
+export const DEFAULT_TOOL_OPTIONS: ToolOptions = { material: MATERIAL.dirt, shape: 'sphere', radius: 2, reach: 8 }
@@ -0,0 +1,287 @@
+import { MATERIAL } from './materials'
+import type { MaterialId } from './materials'
+import { CHUNK_SIZE, getPartial, getVoxel, isOpaque, subCellIndex, takeDirtyChunks, voxelFromIndex } from './voxelStore'
+import type { VoxelChunk, VoxelStore } from './voxelStore'
+
+export type ChunkMeshGroup = {
+  material: MaterialId
+  start: number
+  count: number
+}
+
+// Plain typed arrays so the result can be turned into a BufferGeometry (or posted to a worker) as-is.
+export type ChunkMeshData = {
+  positions: Float32Array
+  normals: Float32Array
+  uvs: Float32Array
+  indices: Uint32Array
+  groups: ChunkMeshGroup[]
+}
+
+type QuadList = {
+  positions: number[]
+  normals: number[]
+  uvs: number[]
+}
+
+// Emits only faces between a solid voxel and empty space, merging coplanar faces of the same
+// material into larger rectangles (greedy meshing). UVs are in voxel units so textures tile once per voxel.
+// Drilled voxels are meshed separately, one quad per exposed sub-cell face.
+export function meshChunk(store: VoxelStore, chunk: VoxelChunk, voxelSize: number): ChunkMeshData {
+  const quadsByMaterial = new Map<MaterialId, QuadList>()
+  const ox = chunk.cx * CHUNK_SIZE + store.min
+  const oy = chunk.cy * CHUNK_SIZE + store.min
+  const oz = chunk.cz * CHUNK_SIZE + store.min
+  const origin = [ox, oy, oz]
+  const mask = new Uint8Array(CHUNK_SIZE * CHUNK_SIZE)
+  const cell = [0, 0, 0]
+
+  for (let d = 0; d < 3; d++) {
+    const u = (d + 1) % 3
+    const v = (d + 2) % 3
+    for (const side of [1, -1]) {
+      for (let slice = 0; slice < CHUNK_SIZE; slice++) {
+        // mask of exposed faces on this slice, holding the material that owns the face
+        let exposed = 0
+        for (let i = 0; i < CHUNK_SIZE; i++) {
+          for (let j = 0; j < CHUNK_SIZE; j++) {
+            cell[d] = origin[d] + slice
+            cell[u] = origin[u] + i
+            cell[v] = origin[v] + j
+            const material = getVoxel(store, cell[0], cell[1], cell[2])
+            let face = 0
+            if (material !== MATERIAL.air && !getPartial(store, cell[0], cell[1], cell[2])) {
+              cell[d] += side
+              if (!isOpaque(store, cell[0], cell[1], cell[2])) face = material
+            }
+            mask[i * CHUNK_SIZE + j] = face
+            if (face) exposed++
+          }
+        }
+        if (exposed === 0) continue
+
+        for (let i = 0; i < CHUNK_SIZE; i++) {
+          for (let j = 0; j < CHUNK_SIZE; ) {
+            const material = mask[i * CHUNK_SIZE + j]
+            if (!material) {
+              j++
+              continue
+            }
+            let h = 1
+            while (j + h < CHUNK_SIZE && mask[i * CHUNK_SIZE + j + h] === material) h++
+            let w = 1
+            grow: while (i + w < CHUNK_SIZE) {
+              for (let k = 0; k < h; k++) if (mask[(i + w) * CHUNK_SIZE + j + k] !== material) break grow
+              w++
+            }
+            for (let a = 0; a < w; a++) mask.fill(0, (i + a) * CHUNK_SIZE + j, (i + a) * CHUNK_SIZE + j + h)
+
+            let quads = quadsByMaterial.get(material)
+            if (!quads) {
+              quads = { positions: [], normals: [], uvs: [] }
+              quadsByMaterial.set(material, quads)
+            }
+            pushQuad(quads, d, side, origin[d] + slice, origin[u] + i, origin[v] + j, w, h, voxelSize)
+            j += h
+          }
+        }
+      }
+    }
+  }
+
+  meshPartialVoxels(store, origin, quadsByMaterial, voxelSize)
+  return packQuads(quadsByMaterial)
+}
+
+function meshPartialVoxels(store: VoxelStore, origin: number[], quadsByMaterial: Map<MaterialId, QuadList>, voxelSize: number) {
+  const n = store.subdiv
+  const step = 1 / n
+  const cell = [0, 0, 0]
+  const sub = [0, 0, 0]
+  const neighbour = [0, 0, 0]
+  for (const [index, cells] of store.partial) {
+    const [x, y, z] = voxelFromIndex(store, index)
+    if (x < origin[0] || y < origin[1] || z < origin[2]) continue
+    if (x >= origin[0] + CHUNK_SIZE || y >= origin[1] + CHUNK_SIZE || z >= origin[2] + CHUNK_SIZE) continue
+    cell[0] = x
+    cell[1] = y
+    cell[2] = z
+
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        for (let k = 0; k < n; k++) {
+          const material = cells[subCellIndex(store, i, j, k)]
+          if (material === MATERIAL.air) continue
+          sub[0] = i
+          sub[1] = j
+          sub[2] = k
+          for (let d = 0; d < 3; d++) {
+            const u = (d + 1) % 3
+            const v = (d + 2) % 3
+            for (const side of [1, -1]) {
+              if (isSubCellSolid(store, cell, sub, d, side, neighbour)) continue
+              let quads = quadsByMaterial.get(material)
+              if (!quads) {
+                quads = { positions: [], normals: [], uvs: [] }
+                quadsByMaterial.set(material, quads)
+              }
+              const planeD = cell[d] - 0.5 + (sub[d] + (side > 0 ? 1 : 0)) * step
+              pushFace(quads, d, side, planeD, cell[u] - 0.5 + sub[u] * step, cell[v] - 0.5 + sub[v] * step, step, step, voxelSize)
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+// Whether the sub-cell next to `sub` (one step along axis d) is filled, looking into the
+// neighbouring voxel when the step leaves the drilled voxel.
+function isSubCellSolid(store: VoxelStore, cell: number[], sub: number[], d: number, side: number, scratch: number[]) {
+  const n = store.subdiv
+  const next = sub[d] + side
+  if (next >= 0 && next < n) {
+    scratch[0] = sub[0]
+    scratch[1] = sub[1]
+    scratch[2] = sub[2]
+    scratch[d] = next
+    return getPartial(store, cell[0], cell[1], cell[2])![subCellIndex(store, scratch[0], scratch[1], scratch[2])] !== MATERIAL.air
+  }
+  scratch[0] = cell[0]
+  scratch[1] = cell[1]
+  scratch[2] = cell[2]
+  scratch[d] += side
+  const material = getVoxel(store, scratch[0], scratch[1], scratch[2])
+  if (material === MATERIAL.air) return false
+  const cells = getPartial(store, scratch[0], scratch[1], scratch[2])
+  if (!cells) return true
+  const wrapped = [sub[0], sub[1], sub[2]]
+  wrapped[d] = side > 0 ? 0 : n - 1
+  return cells[subCellIndex(store, wrapped[0], wrapped[1], wrapped[2])] !== MATERIAL.air
+}
+
+function pushQuad(
+  quads: QuadList,
+  d: number,
+  side: number,
+  layer: number,
+  startU: number,
+  startV: number,
+  w: number,
+  h: number,
+  voxelSize: number,
+) {
+  // voxel centres sit on integer coordinates, so faces lie on the half-integers
+  pushFace(quads, d, side, layer + side * 0.5, startU - 0.5, startV - 0.5, w, h, voxelSize)
+}
+
+// Rectangle on the plane `planeD` of axis d, spanning w × h voxel units from (u0, v0).
+function pushFace(
+  quads: QuadList,
+  d: number,
+  side: number,
+  planeD: number,
+  u0: number,
+  v0: number,
+  w: number,
+  h: number,
+  voxelSize: number,
+) {
+  const u = (d + 1) % 3
+  const v = (d + 2) % 3
+  const corners = [
+    [u0, v0],
+    [u0 + w, v0],
+    [u0 + w, v0 + h],
+    [u0, v0 + h],
+  ]
+  // e_u × e_v = e_d, so this order faces +d; flip it for the negative side
+  if (side < 0) corners.reverse()
+  const normal = [0, 0, 0]
+  normal[d] = side
+  const p = [0, 0, 0]
+  p[d] = planeD
+  for (const [cu, cv] of corners) {
+    p[u] = cu
+    p[v] = cv
+    quads.positions.push(p[0] * voxelSize, p[1] * voxelSize, p[2] * voxelSize)
+    quads.normals.push(normal[0], normal[1], normal[2])
+    quads.uvs.push(cu, cv)
+  }
+}
+
+function packQuads(quadsByMaterial: Map<MaterialId, QuadList>): ChunkMeshData {
+  let vertexCount = 0
+  for (const quads of quadsByMaterial.values()) vertexCount += quads.positions.length / 3
+
+  const positions = new Float32Array(vertexCount * 3)
+  const normals = new Float32Array(vertexCount * 3)
+  const uvs = new Float32Array(vertexCount * 2)
+  const indices = new Uint32Array((vertexCount / 4) * 6)
+  const groups: ChunkMeshGroup[] = []
+
+  let vertex = 0
+  let index = 0
+  const materials = Array.from(quadsByMaterial.keys()).sort((a, b) => a - b)
+  for (const material of materials) {
+    const quads = quadsByMaterial.get(material)!
+    positions.set(quads.positions, vertex * 3)
+    normals.set(quads.normals, vertex * 3)
+    uvs.set(quads.uvs, vertex * 2)
+    const start = index
+    const quadCount = quads.positions.length / 12
+    for (let q = 0; q < quadCount; q++) {
+      const base = vertex + q * 4
+      indices[index++] = base
+      indices[index++] = base + 1
+      indices[index++] = base + 2
+      indices[index++] = base
+      indices[index++] = base + 2
+      indices[index++] = base + 3
+    }
+    vertex += quadCount * 4
+    groups.push({ material, start, count: index - start })
+  }
+
+  return { positions, normals, uvs, indices, groups }
+}
+
+// The store the meshes on screen were built from and the keys of its chunks that have one.
+export type MeshedChunks = {
+  store: VoxelStore | null
+  keys: Set<number>
+}
+
+// A chunk mesh to rebuild, or to drop when `data` is null. Keys are x-major chunk indices.
+export type ChunkMeshUpdate = {
+  key: number
+  data: ChunkMeshData | null
+}
+
+// Re-meshes the chunks of `store` edited since the last call. A different store than last time
+// (a new seed, an import or a loaded save) is meshed whole, and the old store's chunks it leaves
+// empty are dropped: its dirty flags know nothing about them.
+export function remeshChunks(meshed: MeshedChunks, store: VoxelStore, voxelSize: number) {
+  const n = store.chunksPerAxis
+  const dirty = takeDirtyChunks(store)
+  const swapped = meshed.store !== store
+  const stale = swapped ? new Set(meshed.keys) : new Set<number>()
+  if (swapped) {
+    meshed.store = store
+    meshed.keys.clear()
+  }
+  const updates: ChunkMeshUpdate[] = []
+  for (const chunk of swapped ? store.chunks : dirty) {
+    const key = (chunk.cx * n + chunk.cy) * n + chunk.cz
+    if (chunk.solidCount === 0) {
+      meshed.keys.delete(key)
+      if (!swapped) updates.push({ key, data: null })
+      continue
+    }
+    stale.delete(key)
+    meshed.keys.add(key)
+    updates.push({ key, data: meshChunk(store, chunk, voxelSize) })
+  }
+  for (const key of stale) updates.push({ key, data: null })
+  return updates
+}
@@ -0,0 +1,129 @@
+import { SUBVOXEL_SIZE, VOXEL_SIZE } from '../constants'
+import { MATERIAL } from './materials'
+import { getPartial, getVoxel, subCellIndex } from './voxelStore'
+import type { VoxelStore } from './voxelStore'
+
+type Vec3 = [number, number, number]
+
+// A contact counts as floor when its push is within 60° of up; floors only ever lift the capsule,
+// so standing on the voxel staircase of a slope doesn't slide it sideways.
+const FLOOR_COS = 0.5
+// sphere centres along the capsule axis are at most this many radii apart
+const SPHERE_SPACING = 1
+
+// scratch
+const centre: Vec3 = [0, 0, 0]
+const push: Vec3 = [0, 0, 0]
+
+// Separation of a sphere from an axis-aligned box (centre b, half-size `half`): writes into `push`
+// the smallest move that takes the sphere out and returns its length (0 when they don't touch).
+function sphereBoxPush(c: Vec3, radius: number, bx: number, by: number, bz: number, half: number) {
+  const dx = c[0] - Math.max(bx - half, Math.min(bx + half, c[0]))
+  const dy = c[1] - Math.max(by - half, Math.min(by + half, c[1]))
+  const dz = c[2] - Math.max(bz - half, Math.min(bz + half, c[2]))
+  const dist = Math.hypot(dx, dy, dz)
+  if (dist >= radius) return 0
+  if (dist > 1e-6) {
+    const depth = radius - dist
+    push[0] = (dx / dist) * depth
+    push[1] = (dy / dist) * depth
+    push[2] = (dz / dist) * depth
+    return depth
+  }
+  // centre inside the box: leave through the nearest face
+  const ox = c[0] - bx
+  const oy = c[1] - by
+  const oz = c[2] - bz
+  const px = half - Math.abs(ox)
+  const py = half - Math.abs(oy)
+  const pz = half - Math.abs(oz)
+  push[0] = push[1] = push[2] = 0
+  if (px <= py && px <= pz) push[0] = Math.sign(ox || 1) * (px + radius)
+  else if (py <= pz) push[1] = Math.sign(oy || 1) * (py + radius)
+  else push[2] = Math.sign(oz || 1) * (pz + radius)
+  return Math.hypot(push[0], push[1], push[2])
+}
+
+// Moves `feet` by `push`, turning floor pushes into a lift along `up`, and adds the move to `contact`.
+function applyPush(feet: Vec3, up: Vec3, contact: Vec3) {
+  const length = Math.hypot(push[0], push[1], push[2])
+  const lift = push[0] * up[0] + push[1] * up[1] + push[2] * up[2]
+  if (lift > FLOOR_COS * length) {
+    // rise just far enough along up to clear the contact plane
+    const rise = (length * length) / lift
+    push[0] = up[0] * rise
+    push[1] = up[1] * rise
+    push[2] = up[2] * rise
+  }
+  for (let a = 0; a < 3; a++) {
+    feet[a] += push[a]
+    contact[a] += push[a]
+  }
+}
+
+// Pushes a capsule (feet at `feet`, axis along the unit `up`, `height` from feet to top) out of every
+// solid voxel and drilled sub-voxel it overlaps. The capsule is a column of spheres, each resolved
+// against the boxes around it. Moves `feet` in place and adds the total push to `contact`.
+export function resolveCapsule(store: VoxelStore, feet: Vec3, up: Vec3, radius: number, height: number, contact: Vec3) {
+  const span = Math.max(0, height - 2 * radius)
+  const spheres = Math.ceil(span / (radius * SPHERE_SPACING)) + 1
+  const n = store.subdiv
+  const halfVoxel = VOXEL_SIZE / 2
+  const halfSub = SUBVOXEL_SIZE / 2
+  for (let s = 0; s < spheres; s++) {
+    const along = radius + (spheres > 1 ? (span * s) / (spheres - 1) : 0)
+    for (let a = 0; a < 3; a++) centre[a] = feet[a] + up[a] * along
+    const x0 = Math.round((centre[0] - radius) / VOXEL_SIZE)
+    const x1 = Math.round((centre[0] + radius) / VOXEL_SIZE)
+    const y0 = Math.round((centre[1] - radius) / VOXEL_SIZE)
+    const y1 = Math.round((centre[1] + radius) / VOXEL_SIZE)
+    const z0 = Math.round((centre[2] - radius) / VOXEL_SIZE)
+    const z1 = Math.round((centre[2] + radius) / VOXEL_SIZE)
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        for (let z = z0; z <= z1; z++) {
+          if (getVoxel(store, x, y, z) === MATERIAL.air) continue
+          const cells = getPartial(store, x, y, z)
+          if (!cells) {
+            if (sphereBoxPush(centre, radius, x * VOXEL_SIZE, y * VOXEL_SIZE, z * VOXEL_SIZE, halfVoxel) === 0) continue
+            applyPush(feet, up, contact)
+            for (let a = 0; a < 3; a++) centre[a] = feet[a] + up[a] * along
+            continue
+          }
+          for (let i = 0; i < n; i++) {
+            for (let j = 0; j < n; j++) {
+              for (let k = 0; k < n; k++) {
+                if (cells[subCellIndex(store, i, j, k)] === MATERIAL.air) continue
+                const bx = (x - 0.5) * VOXEL_SIZE + (i + 0.5) * SUBVOXEL_SIZE
+                const by = (y - 0.5) * VOXEL_SIZE + (j + 0.5) * SUBVOXEL_SIZE
+                const bz = (z - 0.5) * VOXEL_SIZE + (k + 0.5) * SUBVOXEL_SIZE
+                if (sphereBoxPush(centre, radius, bx, by, bz, halfSub) === 0) continue
+                applyPush(feet, up, contact)
+                for (let a = 0; a < 3; a++) centre[a] = feet[a] + up[a] * along
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+// Swept move: `delta` is split into steps no longer than half the radius, each resolved before the
+// next, so the capsule can't tunnel through a voxel or a sub-voxel sliver. Walls slide it along.
+export function sweepCapsule(
+  store: VoxelStore,
+  feet: Vec3,
+  up: Vec3,
+  radius: number,
+  height: number,
+  delta: Vec3,
+  contact: Vec3,
+) {
+  const length = Math.hypot(delta[0], delta[1], delta[2])
+  const steps = Math.max(1, Math.ceil(length / (radius / 2)))
+  for (let s = 0; s < steps; s++) {
+    for (let a = 0; a < 3; a++) feet[a] += delta[a] / steps
+    resolveCapsule(store, feet, up, radius, height, contact)
+  }
+}
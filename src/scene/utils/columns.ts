@@ -0,0 +1,84 @@
+import { BEDROCK_RADIUS, LAT_STEPS, LON_STEPS } from '../constants'
+import type { HeightField } from './planet'
+import { cellOf } from './planet'
+import { MATERIAL } from './materials'
+import { getVoxel } from './voxelStore'
+import type { VoxelStore } from './voxelStore'
+
+// Voxels grouped by the heightfield cell they fall into, so a column edit (or a height change)
+// can find its voxels without scanning the grid. `voxels` holds the grid coordinates of column
+// `c` from `offsets[c]` to `offsets[c + 1]`, inner to outer, three numbers per voxel.
+export type ColumnIndex = {
+  offsets: Int32Array
+  voxels: Int16Array
+}
+
+// Columns only cover the shell above bedrock, where the surface can actually move.
+export function createColumnIndex(store: VoxelStore): ColumnIndex {
+  const half = store.size / 2
+  const inner = Math.floor(BEDROCK_RADIUS)
+  const entries: { cell: number; r: number; x: number; y: number; z: number }[] = []
+  for (let x = store.min; x < store.min + store.size; x++) {
+    for (let y = store.min; y < store.min + store.size; y++) {
+      for (let z = store.min; z < store.min + store.size; z++) {
+        const r = Math.sqrt(x * x + y * y + z * z)
+        if (r < inner || r > half) continue
+        entries.push({ cell: cellOf(x, y, z), r, x, y, z })
+      }
+    }
+  }
+  entries.sort((a, b) => a.cell - b.cell || a.r - b.r)
+
+  const offsets = new Int32Array(LAT_STEPS * LON_STEPS + 1)
+  const voxels = new Int16Array(entries.length * 3)
+  entries.forEach((entry, i) => {
+    offsets[entry.cell + 1]++
+    voxels[i * 3] = entry.x
+    voxels[i * 3 + 1] = entry.y
+    voxels[i * 3 + 2] = entry.z
+  })
+  for (let c = 0; c < LAT_STEPS * LON_STEPS; c++) offsets[c + 1] += offsets[c]
+  return { offsets, voxels }
+}
+
+// Calls `visit` for each voxel of a column, inner to outer.
+export function forEachColumnVoxel(
+  columns: ColumnIndex,
+  cell: number,
+  visit: (x: number, y: number, z: number, r: number) => void,
+) {
+  const v = columns.voxels
+  for (let i = columns.offsets[cell]; i < columns.offsets[cell + 1]; i++) {
+    const x = v[i * 3]
+    const y = v[i * 3 + 1]
+    const z = v[i * 3 + 2]
+    visit(x, y, z, Math.sqrt(x * x + y * y + z * z))
+  }
+}
+
+// Drops the surface of edited columns onto the top face of their highest solid voxel at or under
+// the current surface, so removed ground doesn't leave the player standing on air. Voxels above
+// the surface (quarry blocks, rubble) are obstacles, not ground, and don't lift it.
+export function refreshColumnHeights(store: VoxelStore, heights: HeightField, columns: ColumnIndex, cells: Iterable<number>) {
+  for (const cell of cells) {
+    let top = -Infinity
+    forEachColumnVoxel(columns, cell, (x, y, z, r) => {
+      if (r <= heights[cell] + 0.5 && getVoxel(store, x, y, z) !== MATERIAL.air) top = r
+    })
+    if (top > -Infinity) heights[cell] = Math.min(heights[cell], top + 0.5)
+  }
+}
+
+// A voxel added on the surface (or in a dip of it) becomes ground: lift the column onto its top face.
+export function raiseColumnHeight(heights: HeightField, x: number, y: number, z: number) {
+  const r = Math.sqrt(x * x + y * y + z * z)
+  const cell = cellOf(x, y, z)
+  if (r <= heights[cell] + 1 && heights[cell] < r + 0.5) heights[cell] = r + 0.5
+}
+
+// Heightfield cells of a list of voxel positions (voxel units), without repeats.
+export function cellsOfVoxels(positions: Iterable<readonly [number, number, number]>) {
+  const cells = new Set<number>()
+  for (const [x, y, z] of positions) cells.add(cellOf(x, y, z))
+  return cells
+}
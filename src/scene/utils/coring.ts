@@ -0,0 +1,123 @@
+import { SUBVOXEL_SIZE, VOXEL_SIZE } from '../constants'
+import { MATERIAL, MATERIALS } from './materials'
+import type { MaterialId } from './materials'
+import { getPartial, getVoxel, subCellIndex } from './voxelStore'
+import type { VoxelStore } from './voxelStore'
+
+// Longest core the tool pulls, in metres
+export const CORE_LENGTH = 16
+// Sampling step along the core: a fifth of a sub-voxel, so thin remainders aren't skipped
+const CORE_STEP = SUBVOXEL_SIZE / 5
+
+// 'vertical' cores point at the planet centre; 'oriented' ones go straight into the face that was hit
+export type CoreMode = 'vertical' | 'oriented'
+
+// One run of the same material, depths in metres from the collar (where the core starts)
+export type CoreInterval = {
+  from: number
+  to: number
+  material: MaterialId
+}
+
+export type CoreSample = {
+  // collar position and unit direction, world units
+  position: [number, number, number]
+  direction: [number, number, number]
+  // of the collar, degrees
+  latitude: number
+  longitude: number
+  length: number
+  intervals: CoreInterval[]
+}
+
+export type SavedCore = CoreSample & {
+  id: number
+  label: string
+}
+
+// Material at a world point, reading drilled voxels sub-cell by sub-cell.
+export function materialAt(store: VoxelStore, px: number, py: number, pz: number) {
+  const x = Math.round(px / VOXEL_SIZE)
+  const y = Math.round(py / VOXEL_SIZE)
+  const z = Math.round(pz / VOXEL_SIZE)
+  const material = getVoxel(store, x, y, z)
+  const cells = material === MATERIAL.air ? undefined : getPartial(store, x, y, z)
+  if (!cells) return material
+  const n = store.subdiv
+  const sub = (v: number, c: number) => Math.min(n - 1, Math.max(0, Math.floor((v / VOXEL_SIZE - c + 0.5) * n)))
+  return cells[subCellIndex(store, sub(px, x), sub(py, y), sub(pz, z))]
+}
+
+// Runs a core from `position` along `direction` (normalized here) and logs the materials it cuts,
+// voids (caves, drilled holes) included as air.
+export function sampleCore(
+  store: VoxelStore,
+  position: [number, number, number],
+  direction: [number, number, number],
+  length = CORE_LENGTH,
+): CoreSample {
+  const norm = Math.hypot(...direction) || 1
+  const d: [number, number, number] = [direction[0] / norm, direction[1] / norm, direction[2] / norm]
+  const intervals: CoreInterval[] = []
+  for (let t = 0; t < length; t += CORE_STEP) {
+    const material = materialAt(
+      store,
+      position[0] + d[0] * (t + CORE_STEP / 2),
+      position[1] + d[1] * (t + CORE_STEP / 2),
+      position[2] + d[2] * (t + CORE_STEP / 2),
+    )
+    const last = intervals[intervals.length - 1]
+    const to = Math.min(length, t + CORE_STEP)
+    if (last && last.material === material) last.to = to
+    else intervals.push({ from: t, to, material })
+  }
+  const r = Math.hypot(...position) || 1
+  return {
+    position,
+    direction: d,
+    latitude: (Math.asin(position[1] / r) * 180) / Math.PI,
+    longitude: (Math.atan2(position[2], position[0]) * 180) / Math.PI,
+    length,
+    intervals,
+  }
+}
+
+export function materialName(material: MaterialId) {
+  return material === MATERIAL.air ? 'Vazio' : MATERIALS[material]?.name ?? `#${material}`
+}
+
+const CSV_HEADER = 'core_id,label,latitude,longitude,dir_x,dir_y,dir_z,from_m,to_m,material_id,material'
+
+// One row per interval; metres to the centimetre.
+export function coresToCsv(cores: SavedCore[]) {
+  const rows = [CSV_HEADER]
+  for (const core of cores) {
+    for (const interval of core.intervals) {
+      rows.push(
+        [
+          core.id,
+          `"${core.label.replace(/"/g, '""')}"`,
+          core.latitude.toFixed(3),
+          core.longitude.toFixed(3),
+          ...core.direction.map((v) => v.toFixed(4)),
+          interval.from.toFixed(2),
+          interval.to.toFixed(2),
+          interval.material,
+          `"${materialName(interval.material)}"`,
+        ].join(','),
+      )
+    }
+  }
+  return rows.join('\n') + '\n'
+}
+
+export function coresToJson(cores: SavedCore[]) {
+  return JSON.stringify(
+    cores.map((core) => ({
+      ...core,
+      intervals: core.intervals.map((interval) => ({ ...interval, name: materialName(interval.material) })),
+    })),
+    null,
+    2,
+  )
+}
@@ -0,0 +1,118 @@
+import { SUBVOXEL_SIZE, VOXEL_SIZE } from '../constants'
+import type { DebrisFragment } from '../physicsBridge'
+import type { CollapsedVoxel } from '../systems/structure'
+import type { DrilledCell } from './drilling'
+import { MATERIAL, MATERIALS } from './materials'
+import type { MaterialId } from './materials'
+import { getPartial, getVoxel, setPartial, setVoxel, subCellIndex } from './voxelStore'
+import type { VoxelStore } from './voxelStore'
+
+// Fragments weigh what their material does (kg/m³); unknown IDs fall back to loose rock.
+function densityOf(material: MaterialId) {
+  return MATERIALS[material]?.density ?? 2600
+}
+// Outward speed given to drill cuttings so they clear the hole before falling.
+const EJECT_SPEED = 1.5
+
+// Turns drilled sub-cells into sub-voxel-sized fragments thrown out along the drilled face.
+export function fragmentsFromCells(cells: DrilledCell[], normal: [number, number, number]): DebrisFragment[] {
+  return cells.map((cell) => ({
+    position: [cell.position[0] * VOXEL_SIZE, cell.position[1] * VOXEL_SIZE, cell.position[2] * VOXEL_SIZE],
+    velocity: [normal[0] * EJECT_SPEED, normal[1] * EJECT_SPEED, normal[2] * EJECT_SPEED],
+    half: SUBVOXEL_SIZE / 2,
+    density: densityOf(cell.material),
+    material: cell.material,
+  }))
+}
+
+// Falling pieces are shrunk a little so they don't wedge against the faces of the hole they left.
+const FRAGMENT_GAP = 0.95
+
+export type CollapseStyle = 'blocks' | 'debris'
+
+// Turns collapsed voxels into fragments: 'blocks' keeps each voxel whole, 'debris' breaks it into
+// 2×2×2 pieces. Drilled voxels always fall as their remaining sub-cells.
+export function fragmentsFromVoxels(voxels: CollapsedVoxel[], style: CollapseStyle, subdiv: number): DebrisFragment[] {
+  const fragments: DebrisFragment[] = []
+  const push = (x: number, y: number, z: number, size: number, material: MaterialId) => {
+    fragments.push({
+      position: [x * VOXEL_SIZE, y * VOXEL_SIZE, z * VOXEL_SIZE],
+      half: (size * VOXEL_SIZE * FRAGMENT_GAP) / 2,
+      density: densityOf(material),
+      material,
+    })
+  }
+  for (const voxel of voxels) {
+    const [x, y, z] = voxel.position
+    if (voxel.cells) {
+      const n = subdiv
+      voxel.cells.forEach((material, index) => {
+        if (material === MATERIAL.air) return
+        const i = Math.floor(index / (n * n))
+        const j = Math.floor(index / n) % n
+        const k = index % n
+        push(x + (i + 0.5) / n - 0.5, y + (j + 0.5) / n - 0.5, z + (k + 0.5) / n - 0.5, 1 / n, material)
+      })
+    } else if (style === 'blocks') {
+      push(x, y, z, 1, voxel.material)
+    } else {
+      for (let c = 0; c < 8; c++) {
+        push(x + ((c & 1) - 0.5) / 2, y + (((c >> 1) & 1) - 0.5) / 2, z + (((c >> 2) & 1) - 0.5) / 2, 0.5, voxel.material)
+      }
+    }
+  }
+  return fragments
+}
+
+// Writes a resting fragment back into the grid as the block of sub-cells closest to its size,
+// inside the voxel under its centre (rotation is ignored). Fragments as large as a voxel fill it
+// whole; smaller ones turn an empty voxel into a remainder. Sub-cells that are already solid are
+// skipped, so a fragment landing in a full spot just disappears. Returns true if anything was written.
+export function depositFragment(
+  store: VoxelStore,
+  position: [number, number, number],
+  half: number,
+  material: MaterialId,
+) {
+  const n = store.subdiv
+  const px = position[0] / VOXEL_SIZE
+  const py = position[1] / VOXEL_SIZE
+  const pz = position[2] / VOXEL_SIZE
+  const x = Math.round(px)
+  const y = Math.round(py)
+  const z = Math.round(pz)
+  const current = getVoxel(store, x, y, z)
+  const span = Math.max(1, Math.round((half * 2) / SUBVOXEL_SIZE))
+
+  if (span >= n) {
+    return current === MATERIAL.air && setVoxel(store, x, y, z, material)
+  }
+
+  let cells = getPartial(store, x, y, z)?.slice()
+  if (!cells) {
+    if (current !== MATERIAL.air) return false
+    cells = new Uint8Array(n * n * n)
+  }
+  // first sub-cell of the span×span×span block centred on the fragment
+  const first = (v: number, cell: number) => Math.min(n - span, Math.max(0, Math.round((v - cell + 0.5) * n - span / 2)))
+  const i0 = first(px, x)
+  const j0 = first(py, y)
+  const k0 = first(pz, z)
+  let written = false
+  for (let i = i0; i < i0 + span; i++) {
+    for (let j = j0; j < j0 + span; j++) {
+      for (let k = k0; k < k0 + span; k++) {
+        const index = subCellIndex(store, i, j, k)
+        if (cells[index] !== MATERIAL.air) continue
+        cells[index] = material
+        written = true
+      }
+    }
+  }
+  if (!written) return false
+
+  if (current === MATERIAL.air) setVoxel(store, x, y, z, material)
+  // a remainder filled back up becomes a whole voxel again
+  if (cells.every((cell) => cell !== MATERIAL.air)) return setVoxel(store, x, y, z, getVoxel(store, x, y, z))
+  return setPartial(store, x, y, z, cells)
+}
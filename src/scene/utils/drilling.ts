@@ -0,0 +1,94 @@
+import { MATERIAL, MATERIALS, UNBREAKABLE_HARDNESS, isRock } from './materials'
+import type { MaterialId } from './materials'
+import { getPartial, getVoxel, setPartial, subCellIndex } from './voxelStore'
+import type { VoxelStore } from './voxelStore'
+
+// Fraction of the hit face covered by the drill bit's square cross-section.
+export const DRILL_FACE_AREA = 0.15
+// Sub-cell layers bored per click through rock of hardness 1; harder rock takes proportionally more clicks.
+const DRILL_POWER = 16
+
+export type DrilledCell = {
+  // sub-cell centre in voxel units
+  position: [number, number, number]
+  material: MaterialId
+}
+
+// Hard rock the drill bites into; softer ground is left to the other tools and bedrock can't be cut.
+export function isDrillable(material: MaterialId) {
+  return isRock(material) && MATERIALS[material].hardness < UNBREAKABLE_HARDNESS
+}
+
+// How many sub-cell layers one click bores into a material (at least one, at most the whole voxel).
+export function drillDepth(material: MaterialId, subdiv: number) {
+  const hardness = MATERIALS[material]?.hardness ?? UNBREAKABLE_HARDNESS
+  return Math.max(1, Math.min(subdiv, Math.floor(DRILL_POWER / hardness)))
+}
+
+// Bores a square prism into one voxel, along the axis of the face that was hit and centred on the
+// hit point, `depth` sub-cell layers deep (counting only layers that still hold material). The voxel
+// keeps its remaining sub-cells (see VoxelStore.partial), so later drilling can widen or deepen the
+// hole. `local` is the hit point relative to the voxel centre, in voxel units.
+export function drillVoxel(
+  store: VoxelStore,
+  x: number,
+  y: number,
+  z: number,
+  normal: [number, number, number],
+  local: [number, number, number],
+  depth = store.subdiv,
+): DrilledCell[] {
+  const material = getVoxel(store, x, y, z)
+  if (material === MATERIAL.air) return []
+
+  const n = store.subdiv
+  const cells = getPartial(store, x, y, z)?.slice() ?? new Uint8Array(n * n * n).fill(material)
+
+  // Determine axis (0=x,1=y,2=z) from the face normal; the two other axes form the face plane
+  const abs = normal.map(Math.abs)
+  const axis = abs[0] > abs[1] && abs[0] > abs[2] ? 0 : abs[2] > abs[1] ? 2 : 1
+  const axisU = (axis + 1) % 3
+  const axisV = (axis + 2) % 3
+  const halfS = Math.sqrt(DRILL_FACE_AREA) / 2
+
+  // prism cells grouped by layer, counted inwards from the face that was hit
+  const layers: number[][] = Array.from({ length: n }, () => [])
+  const centre = [0, 0, 0]
+  const coords = [0, 0, 0]
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      for (let k = 0; k < n; k++) {
+        const index = subCellIndex(store, i, j, k)
+        if (cells[index] === MATERIAL.air) continue
+        coords[0] = i
+        coords[1] = j
+        coords[2] = k
+        centre[axisU] = (coords[axisU] + 0.5) / n - 0.5
+        centre[axisV] = (coords[axisV] + 0.5) / n - 0.5
+        const inPrism = Math.abs(centre[axisU] - local[axisU]) <= halfS && Math.abs(centre[axisV] - local[axisV]) <= halfS
+        if (!inPrism) continue
+        layers[normal[axis] > 0 ? n - 1 - coords[axis] : coords[axis]].push(index)
+      }
+    }
+  }
+
+  const removed: DrilledCell[] = []
+  let bored = 0
+  for (const layer of layers) {
+    if (layer.length === 0) continue
+    if (bored++ === depth) break
+    for (const index of layer) {
+      const i = Math.floor(index / (n * n))
+      const j = Math.floor(index / n) % n
+      const k = index % n
+      removed.push({
+        position: [x + (i + 0.5) / n - 0.5, y + (j + 0.5) / n - 0.5, z + (k + 0.5) / n - 0.5],
+        material: cells[index],
+      })
+      cells[index] = MATERIAL.air
+    }
+  }
+
+  if (removed.length > 0) setPartial(store, x, y, z, cells)
+  return removed
+}
@@ -0,0 +1,203 @@
+import { getVoxel, setPartial, setVoxel, voxelFromIndex } from './voxelStore'
+import type { VoxelState, VoxelStore } from './voxelStore'
+
+// Undo/redo for terrain edits. An edit runs with the store's journal on, which keeps each touched
+// voxel's state from before its first change; with the states after it, that is a command that can
+// be undone (lay the before states back) and redone or replayed on another copy of the world (lay
+// the after states). The surface heights the edit moved are kept the same way, since they can't be
+// worked out again from the voxels. The applied commands, oldest first, are the undo stack.
+
+// rough heap cost of one recorded voxel, bytes, besides its sub-cell arrays, and of one height
+const CHANGE_BYTES = 64
+const HEIGHT_BYTES = 48
+// the undo and redo stacks together stay under this; the oldest commands go first
+export const HISTORY_BYTES = 16 * 1024 * 1024
+
+export type VoxelChange = {
+  before: VoxelState
+  after: VoxelState
+}
+
+export type HeightChange = {
+  before: number
+  after: number
+}
+
+export type EditCommand = {
+  // what made it, e.g. the WorldEdit type, or 'stroke' for a drag
+  label: string
+  // keyed by voxel index
+  changes: Map<number, VoxelChange>
+  // keyed by heightfield cell
+  heights: Map<number, HeightChange>
+  bytes: number
+}
+
+export type EditHistory = {
+  undo: EditCommand[]
+  redo: EditCommand[]
+  bytes: number
+  maxBytes: number
+  // while a drag runs, its edits merge into this one command
+  group: EditCommand | null
+}
+
+export function createHistory(maxBytes = HISTORY_BYTES): EditHistory {
+  return { undo: [], redo: [], bytes: 0, maxBytes, group: null }
+}
+
+function stateBytes(state: VoxelState) {
+  return state.cells?.byteLength ?? 0
+}
+
+function sameState(a: VoxelState, b: VoxelState) {
+  return a.material === b.material && a.cells === b.cells
+}
+
+export function createCommand(
+  label: string,
+  changes = new Map<number, VoxelChange>(),
+  heights = new Map<number, HeightChange>(),
+): EditCommand {
+  let bytes = heights.size * HEIGHT_BYTES
+  changes.forEach((change) => (bytes += CHANGE_BYTES + stateBytes(change.before) + stateBytes(change.after)))
+  return { label, changes, heights, bytes }
+}
+
+export function startRecording(store: VoxelStore) {
+  store.journal = new Map()
+}
+
+// Ends the recording and returns what changed as a command, or null when nothing did. `heights`
+// is the heightfield as it was when the recording started, `current` as it is now.
+export function stopRecording(
+  store: VoxelStore,
+  label: string,
+  heights: Float32Array,
+  current: Float32Array,
+): EditCommand | null {
+  const journal = store.journal
+  store.journal = null
+  if (!journal) return null
+  const changes = new Map<number, VoxelChange>()
+  journal.forEach((before, index) => {
+    const [x, y, z] = voxelFromIndex(store, index)
+    const after = { material: getVoxel(store, x, y, z), cells: store.partial.get(index) ?? null }
+    if (!sameState(before, after)) changes.set(index, { before, after })
+  })
+  if (changes.size === 0) return null
+  const moved = new Map<number, HeightChange>()
+  for (let cell = 0; cell < current.length; cell++) {
+    if (heights[cell] !== current[cell]) moved.set(cell, { before: heights[cell], after: current[cell] })
+  }
+  return createCommand(label, changes, moved)
+}
+
+// Drops the oldest commands (redo ones first: they are the furthest from the present) until the
+// stacks fit the budget. The newest undo step is always kept.
+function trim(history: EditHistory) {
+  while (history.bytes > history.maxBytes && history.redo.length > 0) history.bytes -= history.redo.shift()!.bytes
+  while (history.bytes > history.maxBytes && history.undo.length > 1) history.bytes -= history.undo.shift()!.bytes
+}
+
+function merge(into: EditCommand, command: EditCommand) {
+  command.changes.forEach((change, index) => {
+    const earlier = into.changes.get(index)
+    if (!earlier) {
+      into.changes.set(index, change)
+      into.bytes += CHANGE_BYTES + stateBytes(change.before) + stateBytes(change.after)
+      return
+    }
+    into.bytes += stateBytes(change.after) - stateBytes(earlier.after)
+    earlier.after = change.after
+  })
+  command.heights.forEach((change, cell) => {
+    const earlier = into.heights.get(cell)
+    if (earlier) {
+      earlier.after = change.after
+      return
+    }
+    into.heights.set(cell, { ...change })
+    into.bytes += HEIGHT_BYTES
+  })
+}
+
+// Records a new command: it joins the open group, or becomes the next undo step. Either way
+// whatever could be redone is gone.
+export function pushCommand(history: EditHistory, command: EditCommand) {
+  history.redo.forEach((undone) => (history.bytes -= undone.bytes))
+  history.redo.length = 0
+  if (history.group) {
+    merge(history.group, command)
+    return
+  }
+  history.undo.push(command)
+  history.bytes += command.bytes
+  trim(history)
+}
+
+// Records a command that finishes an earlier one, e.g. rubble coming to rest after the dig that
+// knocked it loose: it joins `owner` while that is still the newest undo step (outside a drag),
+// and is a step of its own otherwise.
+export function extendCommand(history: EditHistory, owner: EditCommand | undefined, command: EditCommand) {
+  if (!owner || history.group || history.undo[history.undo.length - 1] !== owner) {
+    pushCommand(history, command)
+    return
+  }
+  history.redo.forEach((undone) => (history.bytes -= undone.bytes))
+  history.redo.length = 0
+  const bytes = owner.bytes
+  merge(owner, command)
+  history.bytes += owner.bytes - bytes
+  trim(history)
+}
+
+// Edits until endGroup are one undo step.
+export function beginGroup(history: EditHistory, label: string) {
+  endGroup(history)
+  history.group = createCommand(label)
+}
+
+export function endGroup(history: EditHistory) {
+  const group = history.group
+  history.group = null
+  if (!group) return
+  group.changes.forEach((change, index) => {
+    if (sameState(change.before, change.after)) {
+      group.bytes -= CHANGE_BYTES + stateBytes(change.before) + stateBytes(change.after)
+      group.changes.delete(index)
+    }
+  })
+  group.heights.forEach((change, cell) => {
+    if (change.before !== change.after) return
+    group.bytes -= HEIGHT_BYTES
+    group.heights.delete(cell)
+  })
+  if (group.changes.size > 0) pushCommand(history, group)
+}
+
+// Moves the newest step to the redo stack and returns it, for the caller to lay its before states back.
+export function takeUndo(history: EditHistory) {
+  endGroup(history)
+  const command = history.undo.pop()
+  if (command) history.redo.push(command)
+  return command ?? null
+}
+
+export function takeRedo(history: EditHistory) {
+  endGroup(history)
+  const command = history.redo.pop()
+  if (command) history.undo.push(command)
+  return command ?? null
+}
+
+// Lays one side of a command on the store and heightfield, without recording it.
+export function applyCommand(store: VoxelStore, heights: Float32Array, command: EditCommand, side: keyof VoxelChange) {
+  command.changes.forEach((change, index) => {
+    const { material, cells } = change[side]
+    const [x, y, z] = voxelFromIndex(store, index)
+    setVoxel(store, x, y, z, material)
+    if (cells) setPartial(store, x, y, z, cells)
+  })
+  command.heights.forEach((change, cell) => (heights[cell] = change[side]))
+}
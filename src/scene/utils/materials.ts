@@ -0,0 +1,85 @@
+// Geology palette shared by generation, rendering and UI (hex strings so this stays renderer-free).
+export const COLORS = {
+  ocean: '#1c4fa1',
+  rock: '#f5f5f5',
+  lava: '#ff5a3c',
+  sand: '#c2a46b',
+  grass: '#4a7c59',
+  snow: '#ffffff',
+  dirt: '#8B4513',
+  basalt: '#3a3a40',
+  sediment: '#a58a62',
+  sandstone: '#d2b48c',
+  limestone: '#d6d2c2',
+  granite: '#9e8e8a',
+  bedrock: '#2f2d2d',
+  ironOre: '#7a3b2e',
+  quartz: '#e8eef5',
+}
+
+// Material IDs stored in the voxel grid (one byte per voxel). 0 is always empty space.
+export const MATERIAL = {
+  air: 0,
+  dirt: 1,
+  rock: 2,
+  sand: 3,
+  grass: 4,
+  snow: 5,
+  // cooled lava (systems/lava.ts)
+  basalt: 6,
+  // eroded soil laid down by water and slumping (systems/erosion.ts)
+  sediment: 7,
+  // stratigraphy below the soil (generation/strata.ts); `rock` is the marble band
+  sandstone: 8,
+  limestone: 9,
+  granite: 10,
+  bedrock: 11,
+  // ore and mineral pockets inside the strata
+  ironOre: 12,
+  quartz: 13,
+} as const
+
+export type MaterialId = number
+
+export type MaterialInfo = {
+  name: string
+  color: string
+  // which PBR texture set the material is drawn with ('none' = flat colour)
+  texture: 'ground' | 'rock' | 'none'
+  // multiplied over the texture, white keeps the photo colours
+  tint: string
+  // how many voxels it may reach sideways from a column that rests on bedrock (see systems/structure.ts)
+  maxOverhang: number
+  // bulk density, kg/m³ (mass of debris)
+  density: number
+  // resistance to the drill on a 0–10 scale: soft ground < ROCK_HARDNESS ≤ rock < UNBREAKABLE_HARDNESS
+  hardness: number
+}
+
+export const ROCK_HARDNESS = 3
+export const UNBREAKABLE_HARDNESS = 10
+
+export const MATERIALS: Record<number, MaterialInfo> = {
+  [MATERIAL.dirt]: { name: 'Terra', color: COLORS.dirt, texture: 'ground', tint: '#ffffff', maxOverhang: 1, density: 1500, hardness: 1 },
+  [MATERIAL.rock]: { name: 'Mármore', color: COLORS.rock, texture: 'rock', tint: '#ffffff', maxOverhang: 5, density: 2700, hardness: 4 },
+  [MATERIAL.sand]: { name: 'Areia', color: COLORS.sand, texture: 'ground', tint: '#f0dca8', maxOverhang: 0, density: 1600, hardness: 1 },
+  [MATERIAL.grass]: { name: 'Grama', color: COLORS.grass, texture: 'ground', tint: '#8fbf78', maxOverhang: 1, density: 1400, hardness: 1 },
+  [MATERIAL.snow]: { name: 'Neve', color: COLORS.snow, texture: 'none', tint: '#f4f8ff', maxOverhang: 0, density: 400, hardness: 0.5 },
+  [MATERIAL.basalt]: { name: 'Basalto', color: COLORS.basalt, texture: 'rock', tint: '#5a5a62', maxOverhang: 4, density: 3000, hardness: 6 },
+  [MATERIAL.sediment]: { name: 'Sedimento', color: COLORS.sediment, texture: 'ground', tint: '#cdb68c', maxOverhang: 0, density: 1700, hardness: 1 },
+  [MATERIAL.sandstone]: { name: 'Arenito', color: COLORS.sandstone, texture: 'rock', tint: '#e3c08e', maxOverhang: 3, density: 2300, hardness: 3 },
+  [MATERIAL.limestone]: { name: 'Calcário', color: COLORS.limestone, texture: 'rock', tint: '#dcd8c6', maxOverhang: 4, density: 2500, hardness: 3.5 },
+  [MATERIAL.granite]: { name: 'Granito', color: COLORS.granite, texture: 'rock', tint: '#b59c96', maxOverhang: 6, density: 2750, hardness: 7 },
+  [MATERIAL.bedrock]: { name: 'Rocha-mãe', color: COLORS.bedrock, texture: 'rock', tint: '#45413f', maxOverhang: 8, density: 3000, hardness: 10 },
+  [MATERIAL.ironOre]: { name: 'Minério de ferro', color: COLORS.ironOre, texture: 'rock', tint: '#9a4e3c', maxOverhang: 4, density: 5000, hardness: 5.5 },
+  [MATERIAL.quartz]: { name: 'Quartzo', color: COLORS.quartz, texture: 'none', tint: '#eef3fa', maxOverhang: 5, density: 2650, hardness: 7 },
+}
+
+export function isSolid(material: MaterialId) {
+  return material !== MATERIAL.air
+}
+
+// Hard rock (as opposed to soil, sand and snow): walls the player bumps into and the floor erosion stops at
+export function isRock(material: MaterialId) {
+  return (MATERIALS[material]?.hardness ?? 0) >= ROCK_HARDNESS
+}
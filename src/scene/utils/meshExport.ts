@@ -0,0 +1,419 @@
+import { meshChunk } from './chunkMesher'
+import type { ChunkMeshData, ChunkMeshGroup } from './chunkMesher'
+import { MATERIAL, MATERIALS } from './materials'
+import type { MaterialId, MaterialInfo } from './materials'
+import { createVoxelStore, forEachChunkVoxel, getPartial, getVoxel, isOpaque, setPartial, setVoxel, subCellIndex } from './voxelStore'
+import type { VoxelStore } from './voxelStore'
+
+// Terrain export for other tools: glTF 2.0 (binary, with the PBR textures embedded), OBJ + MTL
+// (pointing at the texture files shipped in public/textures) and binary STL for slicers. glTF and
+// OBJ get the greedy surface the game draws, one group per material; STL gets a watertight surface
+// (see buildWatertightMesh). Positions are in metres: voxel coordinates times `scale`.
+
+type Cell = [number, number, number]
+
+export type ExportFormat = 'gltf' | 'obj' | 'stl'
+
+// Inclusive voxel bounds
+export type ExportRegion = { min: Cell; max: Cell }
+
+export type ExportRequest = {
+  format: ExportFormat
+  // metres per VOXEL_SIZE
+  scale: number
+  // null exports the whole world
+  region: ExportRegion | null
+}
+
+export type ExportFile = {
+  name: string
+  contents: BlobPart
+  type: string
+}
+
+// A PBR texture set as image bytes (JPEG), keyed like MaterialInfo.texture
+export type TextureSet = { color: Uint8Array; normal: Uint8Array; roughness: Uint8Array }
+export type ExportTextures = Record<Exclude<MaterialInfo['texture'], 'none'>, TextureSet>
+
+// Files of each texture set in public/textures, as the MTL refers to them
+export const TEXTURE_FILES: Record<keyof ExportTextures, Record<keyof TextureSet, string>> = {
+  ground: {
+    color: 'Ground086_1K-JPG_Color.jpg',
+    normal: 'Ground086_1K-JPG_NormalGL.jpg',
+    roughness: 'Ground086_1K-JPG_Roughness.jpg',
+  },
+  rock: {
+    color: 'Rock058_1K-JPG_Color.jpg',
+    normal: 'Rock058_1K-JPG_NormalGL.jpg',
+    roughness: 'Rock058_1K-JPG_Roughness.jpg',
+  },
+}
+
+// untextured materials still get the ground normal map, as in the game
+const FLAT_ROUGHNESS = 0.75
+
+const MATERIAL_KEYS = Object.fromEntries(Object.entries(MATERIAL).map(([key, id]) => [id, key])) as Record<number, string>
+
+// A copy of the store holding only the region: everything outside is empty, so the cut surfaces close.
+export function cropStore(store: VoxelStore, region: ExportRegion) {
+  const cropped = createVoxelStore(store.size, store.subdiv)
+  for (let x = region.min[0]; x <= region.max[0]; x++) {
+    for (let y = region.min[1]; y <= region.max[1]; y++) {
+      for (let z = region.min[2]; z <= region.max[2]; z++) {
+        const material = getVoxel(store, x, y, z)
+        if (material === MATERIAL.air) continue
+        setVoxel(cropped, x, y, z, material)
+        const cells = getPartial(store, x, y, z)
+        if (cells) setPartial(cropped, x, y, z, cells)
+      }
+    }
+  }
+  return cropped
+}
+
+// The visible surface of every chunk in one mesh, with one group per material, `scale` metres per voxel.
+export function buildSurfaceMesh(store: VoxelStore, scale: number): ChunkMeshData {
+  const parts = store.chunks.filter((chunk) => chunk.solidCount > 0).map((chunk) => meshChunk(store, chunk, scale))
+  let vertexCount = 0
+  let indexCount = 0
+  for (const part of parts) {
+    vertexCount += part.positions.length / 3
+    indexCount += part.indices.length
+  }
+  const positions = new Float32Array(vertexCount * 3)
+  const normals = new Float32Array(vertexCount * 3)
+  const uvs = new Float32Array(vertexCount * 2)
+  const indices = new Uint32Array(indexCount)
+
+  let vertex = 0
+  const offsets = parts.map((part) => {
+    positions.set(part.positions, vertex * 3)
+    normals.set(part.normals, vertex * 3)
+    uvs.set(part.uvs, vertex * 2)
+    const offset = vertex
+    vertex += part.positions.length / 3
+    return offset
+  })
+  // regroup the triangles by material across chunks
+  const materials = [...new Set(parts.flatMap((part) => part.groups.map((group) => group.material)))].sort((a, b) => a - b)
+  const groups: ChunkMeshGroup[] = []
+  let index = 0
+  for (const material of materials) {
+    const start = index
+    parts.forEach((part, p) => {
+      for (const group of part.groups) {
+        if (group.material !== material) continue
+        for (let i = group.start; i < group.start + group.count; i++) indices[index++] = part.indices[i] + offsets[p]
+      }
+    })
+    groups.push({ material, start, count: index - start })
+  }
+  return { positions, normals, uvs, indices, groups }
+}
+
+// corners of a unit face in its (u, v) plane
+const QUAD = [
+  [0, 0],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+]
+const QUAD_REVERSED = [...QUAD].reverse()
+
+// Whether a cell of the sub-voxel lattice (`n` cells per voxel) holds material.
+function latticeSolid(store: VoxelStore, n: number, fx: number, fy: number, fz: number) {
+  const x = Math.floor(fx / n)
+  const y = Math.floor(fy / n)
+  const z = Math.floor(fz / n)
+  if (getVoxel(store, x, y, z) === MATERIAL.air) return false
+  const cells = getPartial(store, x, y, z)
+  return !cells || cells[subCellIndex(store, fx - x * n, fy - y * n, fz - z * n)] !== MATERIAL.air
+}
+
+// A closed surface for printing: every face between solid and empty on one uniform lattice (voxels,
+// or sub-voxels when anything is drilled, since mixing the two leaves T-junctions), corners welded so
+// each edge is shared by the faces on both sides. Voxels touching only along an edge share it four ways.
+export function buildWatertightMesh(store: VoxelStore, scale: number) {
+  const n = store.partial.size > 0 ? store.subdiv : 1
+  const step = scale / n
+  const span = store.size * n + 1
+  const corners = new Map<number, number>()
+  const positions: number[] = []
+  const indices: number[] = []
+  const corner = [0, 0, 0]
+  const face = [0, 0, 0, 0]
+
+  const vertexAt = (cx: number, cy: number, cz: number) => {
+    // lattice corners counted from the store's low corner
+    const lx = cx - store.min * n
+    const ly = cy - store.min * n
+    const lz = cz - store.min * n
+    const key = (lx * span + ly) * span + lz
+    let vertex = corners.get(key)
+    if (vertex === undefined) {
+      vertex = positions.length / 3
+      corners.set(key, vertex)
+      // voxel centres sit on integers, so the lattice starts half a voxel below them
+      positions.push(cx * step - scale / 2, cy * step - scale / 2, cz * step - scale / 2)
+    }
+    return vertex
+  }
+
+  const fine = [0, 0, 0]
+  const visitCell = (fx: number, fy: number, fz: number) => {
+    fine[0] = fx
+    fine[1] = fy
+    fine[2] = fz
+    for (let d = 0; d < 3; d++) {
+      const u = (d + 1) % 3
+      const v = (d + 2) % 3
+      for (const side of [1, -1]) {
+        fine[d] += side
+        const open = !latticeSolid(store, n, fine[0], fine[1], fine[2])
+        fine[d] -= side
+        if (!open) continue
+        // e_u × e_v = e_d, so this order faces +d; flip it for the negative side
+        const quad = side > 0 ? QUAD : QUAD_REVERSED
+        quad.forEach(([du, dv], q) => {
+          corner[d] = fine[d] + (side > 0 ? 1 : 0)
+          corner[u] = fine[u] + du
+          corner[v] = fine[v] + dv
+          face[q] = vertexAt(corner[0], corner[1], corner[2])
+        })
+        indices.push(face[0], face[1], face[2], face[0], face[2], face[3])
+      }
+    }
+  }
+
+  for (const chunk of store.chunks) {
+    if (chunk.solidCount === 0) continue
+    const n3 = n * n * n
+    forEachChunkVoxel(store, chunk, (x, y, z) => {
+      const cells = getPartial(store, x, y, z)
+      // whole voxels buried on all six sides have nothing to show
+      if (
+        !cells &&
+        isOpaque(store, x + 1, y, z) &&
+        isOpaque(store, x - 1, y, z) &&
+        isOpaque(store, x, y + 1, z) &&
+        isOpaque(store, x, y - 1, z) &&
+        isOpaque(store, x, y, z + 1) &&
+        isOpaque(store, x, y, z - 1)
+      ) {
+        return
+      }
+      for (let c = 0; c < n3; c++) {
+        if (cells && cells[c] === MATERIAL.air) continue
+        const i = Math.floor(c / (n * n))
+        const j = Math.floor(c / n) % n
+        const k = c % n
+        visitCell(x * n + i, y * n + j, z * n + k)
+      }
+    })
+  }
+  return { positions: Float32Array.from(positions), indices: Uint32Array.from(indices) }
+}
+
+// Binary STL: 80-byte header, triangle count, then normal, three corners and a spare u16 per triangle.
+export function toStl(mesh: { positions: Float32Array; indices: Uint32Array }) {
+  const triangles = mesh.indices.length / 3
+  const view = new DataView(new ArrayBuffer(84 + triangles * 50))
+  const header = 'GeoSimulator terrain'
+  for (let i = 0; i < header.length; i++) view.setUint8(i, header.charCodeAt(i))
+  view.setUint32(80, triangles, true)
+  const { positions, indices } = mesh
+  let at = 84
+  for (let t = 0; t < triangles; t++) {
+    const a = indices[t * 3] * 3
+    const b = indices[t * 3 + 1] * 3
+    const c = indices[t * 3 + 2] * 3
+    const e1 = [positions[b] - positions[a], positions[b + 1] - positions[a + 1], positions[b + 2] - positions[a + 2]]
+    const e2 = [positions[c] - positions[a], positions[c + 1] - positions[a + 1], positions[c + 2] - positions[a + 2]]
+    const normal = [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]]
+    const length = Math.hypot(normal[0], normal[1], normal[2]) || 1
+    for (const value of normal) {
+      view.setFloat32(at, value / length, true)
+      at += 4
+    }
+    for (const corner of [a, b, c]) {
+      for (let k = 0; k < 3; k++) {
+        view.setFloat32(at, positions[corner + k], true)
+        at += 4
+      }
+    }
+    at += 2
+  }
+  return view.buffer
+}
+
+function hexToRgb(hex: string) {
+  const value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((channel) => channel / 255)
+}
+
+function srgbToLinear(channel: number) {
+  return channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4
+}
+
+function materialName(material: MaterialId) {
+  return MATERIAL_KEYS[material] ?? `material${material}`
+}
+
+// OBJ with one `usemtl` block per material and its MTL; the MTL names the texture files of public/textures.
+export function toObj(mesh: ChunkMeshData, name: string) {
+  const lines = [`# GeoSimulator terrain`, `mtllib ${name}.mtl`, `o ${name}`]
+  const { positions, normals, uvs } = mesh
+  const fixed = (value: number) => Number(value.toFixed(5))
+  for (let i = 0; i < positions.length; i += 3) lines.push(`v ${fixed(positions[i])} ${fixed(positions[i + 1])} ${fixed(positions[i + 2])}`)
+  for (let i = 0; i < uvs.length; i += 2) lines.push(`vt ${fixed(uvs[i])} ${fixed(uvs[i + 1])}`)
+  for (let i = 0; i < normals.length; i += 3) lines.push(`vn ${normals[i]} ${normals[i + 1]} ${normals[i + 2]}`)
+  for (const group of mesh.groups) {
+    lines.push(`usemtl ${materialName(group.material)}`)
+    for (let i = group.start; i < group.start + group.count; i += 3) {
+      // OBJ counts from 1; position, uv and normal share the index
+      const [a, b, c] = [mesh.indices[i] + 1, mesh.indices[i + 1] + 1, mesh.indices[i + 2] + 1]
+      lines.push(`f ${a}/${a}/${a} ${b}/${b}/${b} ${c}/${c}/${c}`)
+    }
+  }
+
+  const mtl = ['# GeoSimulator terrain materials']
+  for (const group of mesh.groups) {
+    const info = MATERIALS[group.material]
+    if (!info) continue
+    const [r, g, b] = hexToRgb(info.tint)
+    mtl.push('', `newmtl ${materialName(group.material)}`, `Kd ${r.toFixed(4)} ${g.toFixed(4)} ${b.toFixed(4)}`, 'Ks 0 0 0', 'illum 1')
+    if (info.texture === 'none') {
+      mtl.push(`Pr ${FLAT_ROUGHNESS}`, `norm ${TEXTURE_FILES.ground.normal}`)
+      continue
+    }
+    const files = TEXTURE_FILES[info.texture]
+    mtl.push(`map_Kd ${files.color}`, `norm ${files.normal}`, `map_Pr ${files.roughness}`)
+  }
+  return { obj: lines.join('\n') + '\n', mtl: mtl.join('\n') + '\n' }
+}
+
+// Binary glTF: one mesh with a primitive per material, sharing the vertex attributes. Roughness maps
+// are greyscale, so they double as metallicRoughness textures (green = roughness) with metallic 0.
+export function toGlb(mesh: ChunkMeshData, textures: ExportTextures) {
+  const chunks: Uint8Array[] = []
+  const bufferViews: Record<string, unknown>[] = []
+  let byteLength = 0
+  const addView = (bytes: Uint8Array, target?: number) => {
+    const padding = (4 - (bytes.byteLength % 4)) % 4
+    bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: bytes.byteLength, ...(target ? { target } : {}) })
+    chunks.push(bytes, new Uint8Array(padding))
+    byteLength += bytes.byteLength + padding
+    return bufferViews.length - 1
+  }
+  const ARRAY_BUFFER = 34962
+  const ELEMENT_ARRAY_BUFFER = 34963
+  const FLOAT = 5126
+  const UNSIGNED_INT = 5125
+
+  const { positions, normals, uvs, indices } = mesh
+  const vertexCount = positions.length / 3
+  const min = [Infinity, Infinity, Infinity]
+  const max = [-Infinity, -Infinity, -Infinity]
+  for (let i = 0; i < positions.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], positions[i])
+    max[i % 3] = Math.max(max[i % 3], positions[i])
+  }
+  // glTF puts the texture origin at the top left
+  const flipped = uvs.map((value, i) => (i % 2 === 1 ? -value : value))
+  const accessors: Record<string, unknown>[] = [
+    { bufferView: addView(new Uint8Array(positions.buffer), ARRAY_BUFFER), componentType: FLOAT, count: vertexCount, type: 'VEC3', min, max },
+    { bufferView: addView(new Uint8Array(normals.buffer), ARRAY_BUFFER), componentType: FLOAT, count: vertexCount, type: 'VEC3' },
+    { bufferView: addView(new Uint8Array(flipped.buffer), ARRAY_BUFFER), componentType: FLOAT, count: vertexCount, type: 'VEC2' },
+  ]
+
+  const images: Record<string, unknown>[] = []
+  const textureIndex = new Map<Uint8Array, number>()
+  const texture = (bytes: Uint8Array) => {
+    let index = textureIndex.get(bytes)
+    if (index === undefined) {
+      images.push({ bufferView: addView(bytes), mimeType: 'image/jpeg' })
+      index = images.length - 1
+      textureIndex.set(bytes, index)
+    }
+    return { index }
+  }
+
+  const materials: Record<string, unknown>[] = []
+  const primitives = mesh.groups.map((group) => {
+    const groupIndices = indices.slice(group.start, group.start + group.count)
+    accessors.push({
+      bufferView: addView(new Uint8Array(groupIndices.buffer), ELEMENT_ARRAY_BUFFER),
+      componentType: UNSIGNED_INT,
+      count: group.count,
+      type: 'SCALAR',
+    })
+    const info = MATERIALS[group.material]
+    const baseColorFactor = [...hexToRgb(info?.tint ?? '#ffffff').map(srgbToLinear), 1]
+    const set = info && info.texture !== 'none' ? textures[info.texture] : null
+    materials.push({
+      name: materialName(group.material),
+      pbrMetallicRoughness: set
+        ? { baseColorFactor, baseColorTexture: texture(set.color), metallicRoughnessTexture: texture(set.roughness), metallicFactor: 0 }
+        : { baseColorFactor, metallicFactor: 0, roughnessFactor: FLAT_ROUGHNESS },
+      normalTexture: texture((set ?? textures.ground).normal),
+    })
+    return { attributes: { POSITION: 0, NORMAL: 1, TEXCOORD_0: 2 }, indices: accessors.length - 1, material: materials.length - 1 }
+  })
+
+  const json = {
+    asset: { version: '2.0', generator: 'GeoSimulator' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ name: 'terrain', mesh: 0 }],
+    meshes: [{ name: 'terrain', primitives }],
+    materials,
+    textures: images.map((_image, source) => ({ source, sampler: 0 })),
+    // repeat in both directions: uvs count voxels
+    samplers: [{ wrapS: 10497, wrapT: 10497 }],
+    images,
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength }],
+  }
+
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json))
+  // the JSON chunk pads with spaces, the binary one with zeros
+  const jsonLength = Math.ceil(jsonBytes.byteLength / 4) * 4
+  const glb = new Uint8Array(12 + 8 + jsonLength + 8 + byteLength)
+  const view = new DataView(glb.buffer)
+  view.setUint32(0, 0x46546c67, true) // 'glTF'
+  view.setUint32(4, 2, true)
+  view.setUint32(8, glb.byteLength, true)
+  view.setUint32(12, jsonLength, true)
+  view.setUint32(16, 0x4e4f534a, true) // 'JSON'
+  glb.fill(0x20, 20, 20 + jsonLength)
+  glb.set(jsonBytes, 20)
+  view.setUint32(20 + jsonLength, byteLength, true)
+  view.setUint32(24 + jsonLength, 0x004e4942, true) // 'BIN'
+  let at = 28 + jsonLength
+  for (const chunk of chunks) {
+    glb.set(chunk, at)
+    at += chunk.byteLength
+  }
+  return glb.buffer
+}
+
+// The files for one export request; glTF needs the texture bytes, the other formats don't.
+export function exportTerrain(store: VoxelStore, request: ExportRequest, textures: ExportTextures | null): ExportFile[] {
+  const source = request.region ? cropStore(store, request.region) : store
+  const name = 'terreno'
+  switch (request.format) {
+    case 'stl':
+      return [{ name: `${name}.stl`, contents: toStl(buildWatertightMesh(source, request.scale)), type: 'model/stl' }]
+    case 'obj': {
+      const { obj, mtl } = toObj(buildSurfaceMesh(source, request.scale), name)
+      return [
+        { name: `${name}.obj`, contents: obj, type: 'model/obj' },
+        { name: `${name}.mtl`, contents: mtl, type: 'model/mtl' },
+      ]
+    }
+    case 'gltf':
+      if (!textures) throw new Error('Texturas não carregadas')
+      return [{ name: `${name}.glb`, contents: toGlb(buildSurfaceMesh(source, request.scale), textures), type: 'model/gltf-binary' }]
+  }
+}
@@ -0,0 +1,61 @@
+import { LAT_STEPS, LON_STEPS } from '../constants'
+
+// Surface radius (in voxels) for each latitude/longitude cell, row-major by latitude from the south pole.
+export type HeightField = Float32Array
+
+export function createHeightField() {
+  return new Float32Array(LAT_STEPS * LON_STEPS)
+}
+
+export function cellIndex(row: number, col: number) {
+  const r = Math.min(LAT_STEPS - 1, Math.max(0, row))
+  const c = ((col % LON_STEPS) + LON_STEPS) % LON_STEPS
+  return r * LON_STEPS + c
+}
+
+// One voxel toward (direction -1) or away from (1) the planet centre, along the dominant axis. The
+// fluid automata (lava, water) fall and overflow along it.
+export function stepFrom(x: number, y: number, z: number, direction: 1 | -1): [number, number, number] {
+  const ax = Math.abs(x)
+  const ay = Math.abs(y)
+  const az = Math.abs(z)
+  if (ax >= ay && ax >= az) return [x + direction * (Math.sign(x) || 1), y, z]
+  if (ay >= az) return [x, y + direction * (Math.sign(y) || 1), z]
+  return [x, y, z + direction * (Math.sign(z) || 1)]
+}
+
+// Continuous (row, col) coordinates of a direction; cell centres sit on integer values.
+function gridCoords(x: number, y: number, z: number): [number, number] {
+  const r = Math.sqrt(x * x + y * y + z * z) || 1
+  const lat = Math.asin(Math.max(-1, Math.min(1, y / r)))
+  const lon = Math.atan2(z, x)
+  return [((lat + Math.PI / 2) / Math.PI) * LAT_STEPS - 0.5, ((lon + Math.PI) / (Math.PI * 2)) * LON_STEPS - 0.5]
+}
+
+// Cell that a direction (not necessarily normalized) falls into.
+export function cellOf(x: number, y: number, z: number) {
+  const [row, col] = gridCoords(x, y, z)
+  return cellIndex(Math.round(row), Math.round(col))
+}
+
+// Unit vector pointing through the centre of a cell.
+export function cellDirection(row: number, col: number): [number, number, number] {
+  const lat = ((row + 0.5) / LAT_STEPS) * Math.PI - Math.PI / 2
+  const lon = ((col + 0.5) / LON_STEPS) * Math.PI * 2 - Math.PI
+  const cosLat = Math.cos(lat)
+  return [cosLat * Math.cos(lon), Math.sin(lat), cosLat * Math.sin(lon)]
+}
+
+// Bilinear surface radius along a direction, so the voxelized sphere has no steps at cell borders.
+export function sampleHeightField(heights: HeightField, x: number, y: number, z: number) {
+  const [row, col] = gridCoords(x, y, z)
+  const r0 = Math.floor(row)
+  const c0 = Math.floor(col)
+  const fr = row - r0
+  const fc = col - c0
+  const h00 = heights[cellIndex(r0, c0)]
+  const h01 = heights[cellIndex(r0, c0 + 1)]
+  const h10 = heights[cellIndex(r0 + 1, c0)]
+  const h11 = heights[cellIndex(r0 + 1, c0 + 1)]
+  return (h00 * (1 - fc) + h01 * fc) * (1 - fr) + (h10 * (1 - fc) + h11 * fc) * fr
+}
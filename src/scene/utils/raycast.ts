@@ -0,0 +1,141 @@
+import { VOXEL_SIZE } from '../constants'
+import { MATERIAL } from './materials'
+import type { MaterialId } from './materials'
+import { getPartial, getVoxel, subCellIndex } from './voxelStore'
+import type { VoxelStore } from './voxelStore'
+
+type Vec3 = [number, number, number]
+
+// The first solid voxel (or sub-voxel of a drilled one) along a ray.
+export type VoxelHit = {
+  cell: Vec3
+  // outward unit normal of the face the ray came in through
+  normal: Vec3
+  // where the ray meets that face, world units
+  point: Vec3
+  // from the ray origin, world units
+  distance: number
+  // of the hit voxel, or of the hit sub-cell in a drilled one
+  material: MaterialId
+}
+
+export function createVoxelHit(): VoxelHit {
+  return { cell: [0, 0, 0], normal: [0, 0, 0], point: [0, 0, 0], distance: 0, material: MATERIAL.air }
+}
+
+// Amanatides–Woo traversal of a unit grid: cell, distance to each axis's next boundary, distance
+// between boundaries, and the axis crossed to enter the current cell (-1 for the starting cell).
+type Walk = { cell: Vec3; step: Vec3; next: Vec3; delta: Vec3; t: number; axis: number }
+
+const voxelWalk: Walk = { cell: [0, 0, 0], step: [0, 0, 0], next: [0, 0, 0], delta: [0, 0, 0], t: 0, axis: -1 }
+const subWalk: Walk = { cell: [0, 0, 0], step: [0, 0, 0], next: [0, 0, 0], delta: [0, 0, 0], t: 0, axis: -1 }
+// scratch: ray start in voxel-grid units, and the entry point into a drilled voxel's sub-grid
+const start: Vec3 = [0, 0, 0]
+const entry: Vec3 = [0, 0, 0]
+const dir: Vec3 = [0, 0, 0]
+
+// `p` in grid units (cell i spans [i, i + 1)), `d` a unit direction.
+function beginWalk(walk: Walk, p: Vec3, d: Vec3, t0: number) {
+  for (let a = 0; a < 3; a++) {
+    walk.cell[a] = Math.floor(p[a])
+    walk.step[a] = Math.sign(d[a])
+    walk.delta[a] = d[a] !== 0 ? Math.abs(1 / d[a]) : Infinity
+    const toBoundary = d[a] > 0 ? walk.cell[a] + 1 - p[a] : p[a] - walk.cell[a]
+    walk.next[a] = d[a] !== 0 ? t0 + toBoundary * walk.delta[a] : Infinity
+  }
+  walk.t = t0
+  walk.axis = -1
+}
+
+function advanceWalk(walk: Walk) {
+  const { next } = walk
+  const axis = next[0] < next[1] ? (next[0] < next[2] ? 0 : 2) : next[1] < next[2] ? 1 : 2
+  walk.cell[axis] += walk.step[axis]
+  walk.t = next[axis]
+  next[axis] += walk.delta[axis]
+  walk.axis = axis
+}
+
+function writeHit(hit: VoxelHit, cell: Vec3, axis: number, d: Vec3, t: number, origin: Vec3, material: MaterialId) {
+  for (let a = 0; a < 3; a++) {
+    hit.cell[a] = cell[a]
+    hit.normal[a] = a === axis ? -Math.sign(d[a]) : 0
+    hit.point[a] = origin[a] + d[a] * t
+  }
+  hit.distance = t
+  hit.material = material
+}
+
+// Walks the sub-grid of a drilled voxel from where the ray enters it. `t` is in world units.
+function hitSubCells(
+  store: VoxelStore,
+  cells: Uint8Array,
+  origin: Vec3,
+  d: Vec3,
+  t: number,
+  axis: number,
+  maxDistance: number,
+  hit: VoxelHit,
+) {
+  const n = store.subdiv
+  const cell = voxelWalk.cell
+  // entry point in sub-cell units inside this voxel, nudged off the boundaries it sits on
+  for (let a = 0; a < 3; a++) {
+    const local = (origin[a] + d[a] * t) / VOXEL_SIZE + 0.5 - cell[a]
+    entry[a] = Math.min(n - 1e-6, Math.max(1e-6, local * n))
+  }
+  const scale = VOXEL_SIZE / n
+  beginWalk(subWalk, entry, d, 0)
+  subWalk.axis = axis
+  for (;;) {
+    const [i, j, k] = subWalk.cell
+    if (i < 0 || j < 0 || k < 0 || i >= n || j >= n || k >= n) return false
+    const distance = t + subWalk.t * scale
+    if (distance > maxDistance) return false
+    const material = cells[subCellIndex(store, i, j, k)]
+    // a solid sub-cell the ray starts inside can't be seen from here
+    if (material !== MATERIAL.air && subWalk.axis >= 0) {
+      writeHit(hit, cell, subWalk.axis, d, distance, origin, material)
+      return true
+    }
+    advanceWalk(subWalk)
+  }
+}
+
+// Steps through the voxels a ray crosses, in order, and stops at the first solid one (drilled voxels
+// are walked sub-cell by sub-cell). `direction` needn't be normalized. Solid the ray starts inside is
+// skipped, so a camera clipped into rock still picks what it sees. Writes into `hit` and returns
+// whether anything was hit within `maxDistance`.
+export function raycastVoxels(
+  store: VoxelStore,
+  origin: Vec3,
+  direction: Vec3,
+  maxDistance: number,
+  hit: VoxelHit = createVoxelHit(),
+) {
+  const length = Math.hypot(direction[0], direction[1], direction[2])
+  if (length < 1e-9) return false
+  const d = dir
+  for (let a = 0; a < 3; a++) {
+    d[a] = direction[a] / length
+    start[a] = origin[a] / VOXEL_SIZE + 0.5
+  }
+  beginWalk(voxelWalk, start, d, 0)
+  const maxT = maxDistance / VOXEL_SIZE
+  while (voxelWalk.t <= maxT) {
+    const [x, y, z] = voxelWalk.cell
+    const material = getVoxel(store, x, y, z)
+    if (material !== MATERIAL.air) {
+      const t = voxelWalk.t * VOXEL_SIZE
+      const cells = getPartial(store, x, y, z)
+      if (cells) {
+        if (hitSubCells(store, cells, origin, d, t, voxelWalk.axis, maxDistance, hit)) return true
+      } else if (voxelWalk.axis >= 0) {
+        writeHit(hit, voxelWalk.cell, voxelWalk.axis, d, t, origin, material)
+        return true
+      }
+    }
+    advanceWalk(voxelWalk)
+  }
+  return false
+}
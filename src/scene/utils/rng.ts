@@ -0,0 +1,146 @@
+// Seeded randomness for procedural generation. Every consumer asks for a stream keyed by the
+// global seed plus its own layerId, so adding a layer never shifts the numbers another layer sees.
+
+export function mulberry32(seed: number) {
+  let t = seed >>> 0
+  return () => {
+    t += 0x6d2b79f5
+    let r = Math.imul(t ^ (t >>> 15), 1 | t)
+    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r)
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// FNV-1a, used to turn a layerId into 32 bits
+function hashString(text: string) {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+function mix(h: number) {
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+export function layerSeed(seed: number, layerId: string) {
+  return mix((seed >>> 0) ^ mix(hashString(layerId)))
+}
+
+export function createRng(seed: number, layerId: string) {
+  return mulberry32(layerSeed(seed, layerId))
+}
+
+// Lattice hash in [0, 1) for integer coordinates.
+function hash3(base: number, i: number, j: number, k: number) {
+  let h = base
+  h = mix(h ^ Math.imul(i, 374761393))
+  h = mix(h ^ Math.imul(j, 668265263))
+  h = mix(h ^ Math.imul(k, 2147483647))
+  return h / 4294967296
+}
+
+function fade(t: number) {
+  return t * t * t * (t * (t * 6 - 15) + 10)
+}
+
+function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t
+}
+
+// 12 edge directions of a cube, the classic gradient set
+const GRADIENTS = [
+  [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+  [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+  [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+]
+
+export type FbmOptions = {
+  octaves?: number
+  lacunarity?: number
+  gain?: number
+  kind?: 'value' | 'gradient'
+}
+
+export type NoiseField = {
+  // per-lattice-point white noise in [0, 1)
+  white: (i: number, j: number, k?: number) => number
+  // smooth value noise in [0, 1)
+  value: (x: number, y: number, z: number) => number
+  // Perlin-style gradient noise, roughly in [-1, 1]
+  gradient: (x: number, y: number, z: number) => number
+  // fractal sum of octaves, weighted by amplitude; stays within [-1, 1]
+  fbm: (x: number, y: number, z: number, options?: FbmOptions) => number
+}
+
+export function createNoise(seed: number, layerId: string): NoiseField {
+  const base = layerSeed(seed, layerId)
+
+  const white = (i: number, j: number, k = 0) => hash3(base, i, j, k)
+
+  const value = (x: number, y: number, z: number) => {
+    const xi = Math.floor(x)
+    const yi = Math.floor(y)
+    const zi = Math.floor(z)
+    const u = fade(x - xi)
+    const v = fade(y - yi)
+    const w = fade(z - zi)
+    const c = (dx: number, dy: number, dz: number) => hash3(base, xi + dx, yi + dy, zi + dz)
+    return lerp(
+      lerp(lerp(c(0, 0, 0), c(1, 0, 0), u), lerp(c(0, 1, 0), c(1, 1, 0), u), v),
+      lerp(lerp(c(0, 0, 1), c(1, 0, 1), u), lerp(c(0, 1, 1), c(1, 1, 1), u), v),
+      w,
+    )
+  }
+
+  const gradient = (x: number, y: number, z: number) => {
+    const xi = Math.floor(x)
+    const yi = Math.floor(y)
+    const zi = Math.floor(z)
+    const xf = x - xi
+    const yf = y - yi
+    const zf = z - zi
+    const g = (dx: number, dy: number, dz: number) => {
+      const grad = GRADIENTS[Math.floor(hash3(base, xi + dx, yi + dy, zi + dz) * GRADIENTS.length)]
+      return grad[0] * (xf - dx) + grad[1] * (yf - dy) + grad[2] * (zf - dz)
+    }
+    const u = fade(xf)
+    const v = fade(yf)
+    const w = fade(zf)
+    return lerp(
+      lerp(lerp(g(0, 0, 0), g(1, 0, 0), u), lerp(g(0, 1, 0), g(1, 1, 0), u), v),
+      lerp(lerp(g(0, 0, 1), g(1, 0, 1), u), lerp(g(0, 1, 1), g(1, 1, 1), u), v),
+      w,
+    )
+  }
+
+  const fbm = (x: number, y: number, z: number, options: FbmOptions = {}) => {
+    const { octaves = 4, lacunarity = 2, gain = 0.5, kind = 'gradient' } = options
+    let sum = 0
+    let amplitude = 1
+    let total = 0
+    let frequency = 1
+    for (let o = 0; o < octaves; o++) {
+      // offset each octave so their lattices do not line up
+      const ox = o * 17.13
+      const n =
+        kind === 'value'
+          ? value(x * frequency + ox, y * frequency + ox, z * frequency + ox) * 2 - 1
+          : gradient(x * frequency + ox, y * frequency + ox, z * frequency + ox)
+      sum += n * amplitude
+      total += amplitude
+      amplitude *= gain
+      frequency *= lacunarity
+    }
+    return sum / total
+  }
+
+  return { white, value, gradient, fbm }
+}
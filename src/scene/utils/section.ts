@@ -0,0 +1,109 @@
+import { SUBVOXEL_SIZE, VOXEL_SIZE } from '../constants'
+import { materialAt } from './coring'
+import { MATERIAL } from './materials'
+import type { VoxelStore } from './voxelStore'
+
+type Vec3 = [number, number, number]
+
+export type SectionAxis = 'x' | 'y' | 'z' | 'custom'
+
+// A cut through the planet: everything on the side the normal points to is hidden.
+export type SectionPlane = {
+  axis: SectionAxis
+  // distance of the plane from the planet centre along its normal, metres
+  offset: number
+  // direction of a 'custom' plane's normal, degrees
+  azimuth: number
+  elevation: number
+}
+
+export const DEFAULT_SECTION: SectionPlane = { axis: 'z', offset: 0, azimuth: 30, elevation: 20 }
+
+export function sectionNormal(plane: SectionPlane, out: Vec3 = [0, 0, 0]): Vec3 {
+  out[0] = out[1] = out[2] = 0
+  if (plane.axis === 'x') out[0] = 1
+  else if (plane.axis === 'y') out[1] = 1
+  else if (plane.axis === 'z') out[2] = 1
+  else {
+    const azimuth = (plane.azimuth * Math.PI) / 180
+    const elevation = (plane.elevation * Math.PI) / 180
+    out[0] = Math.cos(elevation) * Math.cos(azimuth)
+    out[1] = Math.sin(elevation)
+    out[2] = Math.cos(elevation) * Math.sin(azimuth)
+  }
+  return out
+}
+
+// Quads of the cut face, two triangles each, facing along the plane normal.
+export type SectionCap = {
+  positions: Float32Array
+  // voxel material of each vertex
+  materials: Uint8Array
+  indices: Uint32Array
+}
+
+// The cut face of the terrain on a section plane. The plane is sampled on a grid of sub-voxel
+// cells (aligned with the voxels for X/Y/Z cuts, so those are exact) and each run of one material
+// along a row becomes a quad, lifted `lift` to the kept side so the clipping leaves it alone.
+export function buildSectionCap(store: VoxelStore, plane: SectionPlane, lift = 0.002): SectionCap {
+  const n = sectionNormal(plane)
+  // in-plane axes with u × v = n
+  const u: Vec3 = plane.axis === 'x' ? [0, 1, 0] : plane.axis === 'y' ? [0, 0, 1] : [1, 0, 0]
+  if (plane.axis === 'custom') {
+    const helper: Vec3 = Math.abs(n[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0]
+    u[0] = helper[1] * n[2] - helper[2] * n[1]
+    u[1] = helper[2] * n[0] - helper[0] * n[2]
+    u[2] = helper[0] * n[1] - helper[1] * n[0]
+    const length = Math.hypot(...u)
+    for (let a = 0; a < 3; a++) u[a] /= length
+  }
+  const v: Vec3 = [n[1] * u[2] - n[2] * u[1], n[2] * u[0] - n[0] * u[2], n[0] * u[1] - n[1] * u[0]]
+
+  // the store's extent across the plane; an oblique plane may cut it up to its diagonal
+  const lo = plane.axis === 'custom' ? -store.size * VOXEL_SIZE * 0.87 : (store.min - 0.5) * VOXEL_SIZE
+  const step = SUBVOXEL_SIZE
+  const count = Math.ceil((plane.axis === 'custom' ? -2 * lo : store.size * VOXEL_SIZE) / step)
+
+  const positions: number[] = []
+  const materials: number[] = []
+  const indices: number[] = []
+  // samples sit a hair inside the kept side, so a cut on a voxel boundary reads the kept voxel
+  const sample = plane.offset - 1e-4
+  const level = plane.offset - lift
+  const quad = (a0: number, a1: number, b0: number, b1: number, material: number) => {
+    const base = positions.length / 3
+    for (const [a, b] of [
+      [a0, b0],
+      [a1, b0],
+      [a1, b1],
+      [a0, b1],
+    ]) {
+      for (let axis = 0; axis < 3; axis++) positions.push(n[axis] * level + u[axis] * a + v[axis] * b)
+      materials.push(material)
+    }
+    indices.push(base, base + 1, base + 2, base, base + 2, base + 3)
+  }
+
+  for (let j = 0; j < count; j++) {
+    const b = lo + (j + 0.5) * step
+    let runStart = 0
+    let runMaterial: number = MATERIAL.air
+    for (let i = 0; i <= count; i++) {
+      const a = lo + (i + 0.5) * step
+      const material =
+        i < count
+          ? materialAt(
+              store,
+              n[0] * sample + u[0] * a + v[0] * b,
+              n[1] * sample + u[1] * a + v[1] * b,
+              n[2] * sample + u[2] * a + v[2] * b,
+            )
+          : MATERIAL.air
+      if (material === runMaterial) continue
+      if (runMaterial !== MATERIAL.air) quad(lo + runStart * step, lo + i * step, b - step / 2, b + step / 2, runMaterial)
+      runStart = i
+      runMaterial = material
+    }
+  }
+  return { positions: new Float32Array(positions), materials: new Uint8Array(materials), indices: new Uint32Array(indices) }
+}
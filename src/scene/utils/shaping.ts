@@ -0,0 +1,64 @@
+import { MATERIAL, MATERIALS, UNBREAKABLE_HARDNESS } from './materials'
+import type { MaterialId } from './materials'
+import { getVoxel, setVoxel } from './voxelStore'
+import type { VoxelStore } from './voxelStore'
+
+type Cell = [number, number, number]
+
+export type FillShape = 'box' | 'sphere'
+
+// Terrain-shaping brushes. Bedrock is never touched, so the planet keeps its foundation.
+function isFixed(material: MaterialId) {
+  return material !== MATERIAL.air && (MATERIALS[material]?.hardness ?? UNBREAKABLE_HARDNESS) >= UNBREAKABLE_HARDNESS
+}
+
+// Sets one voxel unless it is bedrock; true when it changed.
+export function shapeVoxel(store: VoxelStore, x: number, y: number, z: number, material: MaterialId) {
+  if (isFixed(getVoxel(store, x, y, z))) return false
+  return setVoxel(store, x, y, z, material)
+}
+
+// Fills a cube (half-size `radius`) or a ball of `radius` voxels around `centre` with `material`
+// (air digs it out) and returns the voxels that changed.
+export function fillRegion(store: VoxelStore, centre: Cell, radius: number, shape: FillShape, material: MaterialId): Cell[] {
+  const changed: Cell[] = []
+  const r = Math.max(0, Math.round(radius))
+  const [cx, cy, cz] = centre
+  for (let x = cx - r; x <= cx + r; x++) {
+    for (let y = cy - r; y <= cy + r; y++) {
+      for (let z = cz - r; z <= cz + r; z++) {
+        if (shape === 'sphere' && (x - cx) ** 2 + (y - cy) ** 2 + (z - cz) ** 2 > (radius + 0.5) ** 2) continue
+        if (shapeVoxel(store, x, y, z, material)) changed.push([x, y, z])
+      }
+    }
+  }
+  return changed
+}
+
+// Levels the ground within `radius` voxels (across the surface) of `centre` to the height of
+// `centre`'s top, measured from the planet centre: voxels above it are cut away and empty ones
+// below, down to `radius` deep, are filled with `material`.
+export function flattenRegion(store: VoxelStore, centre: Cell, radius: number, material: MaterialId): Cell[] {
+  const changed: Cell[] = []
+  const length = Math.hypot(centre[0], centre[1], centre[2])
+  if (length < 1e-6) return changed
+  const up = [centre[0] / length, centre[1] / length, centre[2] / length]
+  const level = length + 0.5
+  const r = Math.ceil(radius) + 1
+  const [cx, cy, cz] = centre
+  for (let x = cx - r; x <= cx + r; x++) {
+    for (let y = cy - r; y <= cy + r; y++) {
+      for (let z = cz - r; z <= cz + r; z++) {
+        const height = x * up[0] + y * up[1] + z * up[2]
+        const across = Math.hypot(x - up[0] * height, y - up[1] * height, z - up[2] * height)
+        if (across > radius + 0.5 || height < level - radius - 1) continue
+        const target = height > level ? MATERIAL.air : material
+        const current = getVoxel(store, x, y, z)
+        // cut everything above the level; below it only fill gaps
+        if (target !== MATERIAL.air && current !== MATERIAL.air) continue
+        if (shapeVoxel(store, x, y, z, target)) changed.push([x, y, z])
+      }
+    }
+  }
+  return changed
+}
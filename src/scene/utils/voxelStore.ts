@@ -0,0 +1,231 @@
+import { MATERIAL } from './materials'
+import type { MaterialId } from './materials'
+
+// Voxels are grouped in cubic chunks so edits only touch (and re-mesh) a small block of memory.
+export const CHUNK_SIZE = 16
+const CHUNK_VOLUME = CHUNK_SIZE * CHUNK_SIZE * CHUNK_SIZE
+
+export type VoxelChunk = {
+  cx: number
+  cy: number
+  cz: number
+  data: Uint8Array
+  solidCount: number
+  dirty: boolean
+  version: number
+}
+
+// Cubic grid of `size`³ voxels centred on the origin: valid coordinates are [-size/2, size/2).
+// A drilled voxel keeps its material in the grid and gets a `subdiv`³ sub-cell array in `partial`
+// (one material byte per sub-cell, 0 = drilled out).
+export type VoxelStore = {
+  size: number
+  min: number
+  subdiv: number
+  chunksPerAxis: number
+  chunks: VoxelChunk[]
+  partial: Map<number, Uint8Array>
+  revision: number
+  // while set, the state of every voxel before its first change, keyed by voxel index (utils/history.ts)
+  journal: Map<number, VoxelState> | null
+}
+
+// A voxel's material and, when drilled, its sub-cells. Sub-cell arrays are replaced, never
+// written in place, so a state can hold on to the store's array.
+export type VoxelState = {
+  material: MaterialId
+  cells: Uint8Array | null
+}
+
+export function createVoxelStore(size: number, subdiv = 4): VoxelStore {
+  const chunksPerAxis = Math.ceil(size / CHUNK_SIZE)
+  const chunks: VoxelChunk[] = []
+  for (let cx = 0; cx < chunksPerAxis; cx++) {
+    for (let cy = 0; cy < chunksPerAxis; cy++) {
+      for (let cz = 0; cz < chunksPerAxis; cz++) {
+        chunks.push({ cx, cy, cz, data: new Uint8Array(CHUNK_VOLUME), solidCount: 0, dirty: false, version: 0 })
+      }
+    }
+  }
+  // chunks are pushed x-major so chunkAt can index them directly
+  return { size, min: -Math.floor(size / 2), subdiv, chunksPerAxis, chunks, partial: new Map(), revision: 0, journal: null }
+}
+
+export function isInside(store: VoxelStore, x: number, y: number, z: number) {
+  const max = store.min + store.size
+  return x >= store.min && x < max && y >= store.min && y < max && z >= store.min && z < max
+}
+
+function chunkAt(store: VoxelStore, lx: number, ly: number, lz: number) {
+  const n = store.chunksPerAxis
+  const cx = Math.floor(lx / CHUNK_SIZE)
+  const cy = Math.floor(ly / CHUNK_SIZE)
+  const cz = Math.floor(lz / CHUNK_SIZE)
+  return store.chunks[(cx * n + cy) * n + cz]
+}
+
+function localIndex(lx: number, ly: number, lz: number) {
+  return ((lx % CHUNK_SIZE) * CHUNK_SIZE + (ly % CHUNK_SIZE)) * CHUNK_SIZE + (lz % CHUNK_SIZE)
+}
+
+// Flat index of a voxel inside the store, handy as a numeric key for sparse per-voxel data.
+export function voxelIndex(store: VoxelStore, x: number, y: number, z: number) {
+  const s = store.size
+  return ((x - store.min) * s + (y - store.min)) * s + (z - store.min)
+}
+
+export function voxelFromIndex(store: VoxelStore, index: number): [number, number, number] {
+  const s = store.size
+  const z = index % s
+  const y = Math.floor(index / s) % s
+  const x = Math.floor(index / (s * s))
+  return [x + store.min, y + store.min, z + store.min]
+}
+
+export function getVoxel(store: VoxelStore, x: number, y: number, z: number): MaterialId {
+  if (!isInside(store, x, y, z)) return MATERIAL.air
+  const lx = x - store.min
+  const ly = y - store.min
+  const lz = z - store.min
+  return chunkAt(store, lx, ly, lz).data[localIndex(lx, ly, lz)]
+}
+
+function markDirty(store: VoxelStore, lx: number, ly: number, lz: number) {
+  const n = store.chunksPerAxis
+  const cx = Math.floor(lx / CHUNK_SIZE)
+  const cy = Math.floor(ly / CHUNK_SIZE)
+  const cz = Math.floor(lz / CHUNK_SIZE)
+  if (cx < 0 || cy < 0 || cz < 0 || cx >= n || cy >= n || cz >= n) return
+  const chunk = store.chunks[(cx * n + cy) * n + cz]
+  chunk.dirty = true
+  chunk.version++
+}
+
+function record(store: VoxelStore, x: number, y: number, z: number) {
+  const { journal } = store
+  if (!journal) return
+  const index = voxelIndex(store, x, y, z)
+  if (journal.has(index)) return
+  journal.set(index, { material: getVoxel(store, x, y, z), cells: store.partial.get(index) ?? null })
+}
+
+function touch(store: VoxelStore, lx: number, ly: number, lz: number) {
+  store.revision++
+  markDirty(store, lx, ly, lz)
+  if (lx % CHUNK_SIZE === 0) markDirty(store, lx - 1, ly, lz)
+  if (lx % CHUNK_SIZE === CHUNK_SIZE - 1) markDirty(store, lx + 1, ly, lz)
+  if (ly % CHUNK_SIZE === 0) markDirty(store, lx, ly - 1, lz)
+  if (ly % CHUNK_SIZE === CHUNK_SIZE - 1) markDirty(store, lx, ly + 1, lz)
+  if (lz % CHUNK_SIZE === 0) markDirty(store, lx, ly, lz - 1)
+  if (lz % CHUNK_SIZE === CHUNK_SIZE - 1) markDirty(store, lx, ly, lz + 1)
+}
+
+// Returns true when the voxel actually changed. Chunks sharing the touched face are flagged too,
+// because their exposed faces depend on this voxel. Any drilled sub-cells are discarded.
+export function setVoxel(store: VoxelStore, x: number, y: number, z: number, material: MaterialId) {
+  if (!isInside(store, x, y, z)) return false
+  const lx = x - store.min
+  const ly = y - store.min
+  const lz = z - store.min
+  const chunk = chunkAt(store, lx, ly, lz)
+  const i = localIndex(lx, ly, lz)
+  const previous = chunk.data[i]
+  record(store, x, y, z)
+  const hadPartial = store.partial.size > 0 && store.partial.delete(voxelIndex(store, x, y, z))
+  if (previous === material && !hadPartial) return false
+
+  chunk.data[i] = material
+  if (previous === MATERIAL.air && material !== MATERIAL.air) chunk.solidCount++
+  else if (previous !== MATERIAL.air && material === MATERIAL.air) chunk.solidCount--
+  touch(store, lx, ly, lz)
+  return true
+}
+
+// Sub-cells of a drilled voxel, or undefined when the voxel is whole (or empty).
+export function getPartial(store: VoxelStore, x: number, y: number, z: number) {
+  if (store.partial.size === 0 || !isInside(store, x, y, z)) return undefined
+  return store.partial.get(voxelIndex(store, x, y, z))
+}
+
+// Replaces a solid voxel by its sub-cell remainder. A remainder with no sub-cells left empties the voxel.
+export function setPartial(store: VoxelStore, x: number, y: number, z: number, cells: Uint8Array) {
+  if (!isInside(store, x, y, z) || getVoxel(store, x, y, z) === MATERIAL.air) return false
+  if (cells.every((cell) => cell === MATERIAL.air)) return setVoxel(store, x, y, z, MATERIAL.air)
+  record(store, x, y, z)
+  store.partial.set(voxelIndex(store, x, y, z), cells)
+  touch(store, x - store.min, y - store.min, z - store.min)
+  return true
+}
+
+// Solid and whole: hides the faces of its neighbours.
+export function isOpaque(store: VoxelStore, x: number, y: number, z: number) {
+  return getVoxel(store, x, y, z) !== MATERIAL.air && getPartial(store, x, y, z) === undefined
+}
+
+// Index of a sub-cell inside a drilled voxel's cell array.
+export function subCellIndex(store: VoxelStore, i: number, j: number, k: number) {
+  return (i * store.subdiv + j) * store.subdiv + k
+}
+
+// Copies the materials of the box from (x0, y0, z0) to (x1, y1, z1) inclusive, inside the grid,
+// into `out` laid out like a chunk's data: x-major, then y, then z. Each z run is copied a chunk row
+// at a time, which is much faster than getVoxel per voxel over a large box.
+export function readBox(store: VoxelStore, x0: number, y0: number, z0: number, x1: number, y1: number, z1: number, out: Uint8Array) {
+  let i = 0
+  for (let x = x0; x <= x1; x++) {
+    for (let y = y0; y <= y1; y++) {
+      for (let z = z0; z <= z1; ) {
+        const lx = x - store.min
+        const ly = y - store.min
+        const lz = z - store.min
+        const run = Math.min(z1 - z + 1, CHUNK_SIZE - (lz % CHUNK_SIZE))
+        const start = localIndex(lx, ly, lz)
+        out.set(chunkAt(store, lx, ly, lz).data.subarray(start, start + run), i)
+        i += run
+        z += run
+      }
+    }
+  }
+}
+
+// Visits every non-empty voxel, skipping chunks that hold nothing.
+export function forEachVoxel(
+  store: VoxelStore,
+  visit: (x: number, y: number, z: number, material: MaterialId) => void,
+) {
+  for (const chunk of store.chunks) {
+    if (chunk.solidCount === 0) continue
+    forEachChunkVoxel(store, chunk, visit)
+  }
+}
+
+export function forEachChunkVoxel(
+  store: VoxelStore,
+  chunk: VoxelChunk,
+  visit: (x: number, y: number, z: number, material: MaterialId) => void,
+) {
+  const ox = chunk.cx * CHUNK_SIZE + store.min
+  const oy = chunk.cy * CHUNK_SIZE + store.min
+  const oz = chunk.cz * CHUNK_SIZE + store.min
+  const data = chunk.data
+  let i = 0
+  for (let x = 0; x < CHUNK_SIZE; x++) {
+    for (let y = 0; y < CHUNK_SIZE; y++) {
+      for (let z = 0; z < CHUNK_SIZE; z++, i++) {
+        const material = data[i]
+        if (material !== MATERIAL.air) visit(ox + x, oy + y, oz + z, material)
+      }
+    }
+  }
+}
+
+// Hands back the chunks edited since the last call and clears their dirty flags.
+export function takeDirtyChunks(store: VoxelStore) {
+  const dirty: VoxelChunk[] = []
+  for (const chunk of store.chunks) {
+    if (!chunk.dirty) continue
+    chunk.dirty = false
+    dirty.push(chunk)
+  }
+  return dirty
+}
@@ -0,0 +1,102 @@
+import type { WaterField } from '../systems/water'
+import { isOpaque, isInside } from './voxelStore'
+import type { VoxelStore } from './voxelStore'
+
+// Cells holding less than this are not drawn
+const MIN_VISIBLE = 0.02
+
+export type WaterMeshData = {
+  positions: Float32Array
+  normals: Float32Array
+  indices: Uint32Array
+}
+
+// Surface of the water columns: every water cell is a box filled from its inner face (the one
+// toward the planet centre) up to its volume, and only the box faces that touch air or thinner
+// water are emitted, so flooded regions come out as one hollow skin.
+export function meshWater(field: WaterField, store: VoxelStore, voxelSize: number): WaterMeshData {
+  const positions: number[] = []
+  const normals: number[] = []
+  const indices: number[] = []
+  const s = store.size
+  const lo = [0, 0, 0]
+  const hi = [0, 0, 0]
+  const cell = [0, 0, 0]
+  const neighbour = [0, 0, 0]
+
+  for (let i = 0; i < field.volume.length; i++) {
+    const volume = field.volume[i]
+    if (volume < MIN_VISIBLE) continue
+    cell[0] = Math.floor(i / (s * s)) + store.min
+    cell[1] = (Math.floor(i / s) % s) + store.min
+    cell[2] = (i % s) + store.min
+
+    // down axis: the dominant coordinate, as in the water automaton
+    const a = cell.map(Math.abs)
+    const down = a[0] >= a[1] && a[0] >= a[2] ? 0 : a[1] >= a[2] ? 1 : 2
+    const outward = Math.sign(cell[down]) || 1
+    for (let axis = 0; axis < 3; axis++) {
+      lo[axis] = cell[axis] - 0.5
+      hi[axis] = cell[axis] + 0.5
+    }
+    const fill = Math.min(1, volume)
+    if (outward > 0) hi[down] = lo[down] + fill
+    else lo[down] = hi[down] - fill
+
+    for (let axis = 0; axis < 3; axis++) {
+      for (const side of [-1, 1]) {
+        neighbour[0] = cell[0]
+        neighbour[1] = cell[1]
+        neighbour[2] = cell[2]
+        neighbour[axis] += side
+        const isSurface = axis === down && side === outward
+        if (isInside(store, neighbour[0], neighbour[1], neighbour[2])) {
+          if (isOpaque(store, neighbour[0], neighbour[1], neighbour[2])) continue
+          const other = field.volume[i + side * (axis === 0 ? s * s : axis === 1 ? s : 1)]
+          // the top of a partly filled cell always shows; side faces hide behind water at least as deep
+          if (!(isSurface && fill < 1) && other >= (isSurface ? MIN_VISIBLE : fill)) continue
+        }
+        pushFace(positions, normals, indices, axis, side, side > 0 ? hi[axis] : lo[axis], lo, hi, voxelSize)
+      }
+    }
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    indices: new Uint32Array(indices),
+  }
+}
+
+function pushFace(
+  positions: number[],
+  normals: number[],
+  indices: number[],
+  axis: number,
+  side: number,
+  plane: number,
+  lo: number[],
+  hi: number[],
+  voxelSize: number,
+) {
+  const u = (axis + 1) % 3
+  const v = (axis + 2) % 3
+  const base = positions.length / 3
+  const corners = [
+    [lo[u], lo[v]],
+    [hi[u], lo[v]],
+    [hi[u], hi[v]],
+    [lo[u], hi[v]],
+  ]
+  const p = [0, 0, 0]
+  for (const [cu, cv] of corners) {
+    p[axis] = plane
+    p[u] = cu
+    p[v] = cv
+    positions.push(p[0] * voxelSize, p[1] * voxelSize, p[2] * voxelSize)
+    normals.push(axis === 0 ? side : 0, axis === 1 ? side : 0, axis === 2 ? side : 0)
+  }
+  // e_u × e_v = e_axis, so this order faces +axis; flip it for the negative side
+  if (side > 0) indices.push(base, base + 1, base + 2, base, base + 2, base + 3)
+  else indices.push(base, base + 2, base + 1, base, base + 3, base + 2)
+}
@@ -0,0 +1,381 @@
+import { GENERATOR_VERSION, SEA_LEVEL, VOXEL_SIZE } from './constants'
+import { generatePlanet } from './generation/generatePlanet'
+import type { TerrainData } from './generation/generatePlanet'
+import { planetLayers } from './generation/layers'
+import type { GenerationLayer, PlanetOptions } from './generation/layers'
+import type { DebrisFragment } from './physicsBridge'
+import { SAVED_HISTORY_STEPS, SAVE_FORMAT, SAVE_VERSION, decodeCommand, decodeRuns, encodeCommand, encodeRuns, fromBase64, toBase64 } from './save'
+import type { GeneratorParams, WorldSave } from './save'
+import { createErosionField, erodeTerrain } from './systems/erosion'
+import type { ErosionField } from './systems/erosion'
+import { LAVA_STEP, addVent, createLavaField, stepLava } from './systems/lava'
+import type { LavaField } from './systems/lava'
+import { createScheduler, registerSystem, tickScheduler } from './systems/scheduler'
+import type { Scheduler } from './systems/scheduler'
+import { advanceClock, createSolarClock, createSurfaceClimate, sunDirection, updateSurfaceClimate } from './systems/solar'
+import type { SolarClock, SurfaceClimate } from './systems/solar'
+import { collapseUnsupported } from './systems/structure'
+import type { CollapseEvent } from './systems/structure'
+import { WATER_STEP, addWater, createWaterField, stepWater } from './systems/water'
+import type { WaterField } from './systems/water'
+import { createWeather, rainOnTerrain, stepWeather } from './systems/weather'
+import type { WeatherSystem } from './systems/weather'
+import { cellsOfVoxels, createColumnIndex, raiseColumnHeight, refreshColumnHeights } from './utils/columns'
+import type { ColumnIndex } from './utils/columns'
+import { depositFragment, fragmentsFromCells, fragmentsFromVoxels } from './utils/debris'
+import type { CollapseStyle } from './utils/debris'
+import { drillDepth, drillVoxel, isDrillable } from './utils/drilling'
+import { applyCommand, createHistory, extendCommand, pushCommand, startRecording, stopRecording, takeRedo, takeUndo } from './utils/history'
+import type { EditCommand, EditHistory } from './utils/history'
+import { MATERIAL } from './utils/materials'
+import type { MaterialId } from './utils/materials'
+import { createRng } from './utils/rng'
+import { fillRegion, flattenRegion, shapeVoxel } from './utils/shaping'
+import type { FillShape } from './utils/shaping'
+import { CHUNK_SIZE, getVoxel, setPartial, setVoxel, voxelFromIndex } from './utils/voxelStore'
+
+// The world model without a renderer: terrain, the simulation systems on one clock, and the edits
+// the tools make. GeoScene draws it; scripts (Node included) can drive it directly:
+//   const world = createWorld(42)
+//   applyEdit(world, { type: 'vent', cell: [0, 0, 21] })
+//   tickWorld(world, 600)
+//   queryVoxel(world, 0, 0, 21)
+//   undoEdit(world)
+
+// Simulated seconds per tickWorld step: the shortest system tick
+export const WORLD_STEP = 0.1
+// Solar clock and weather ticks; both take any dt, so they stretch to keep up at high time scales
+export const SOLAR_STEP = 0.1
+const WEATHER_STEP = 0.1
+
+// scratch sun direction for the solar tick
+const sun: [number, number, number] = [0, 0, 0]
+
+export type WorldOptions = PlanetOptions & {
+  // replaces the generator stack built from the planet options
+  layers?: GenerationLayer[]
+  seaLevel?: number
+  // live erosion iterations per simulated second (0 = off)
+  erosionSpeed?: number
+  collapseStyle?: CollapseStyle
+}
+
+export type World = {
+  seed: number
+  terrain: TerrainData
+  columns: ColumnIndex
+  erosion: ErosionField
+  lava: LavaField
+  water: WaterField
+  clock: SolarClock
+  climate: SurfaceClimate
+  weather: WeatherSystem
+  scheduler: Scheduler
+  collapseStyle: CollapseStyle
+  erosionSpeed: number
+  // the live erosion stream, separate from generation so it doesn't depend on how that used the seed
+  erosionRandom: () => number
+  // bumped whenever the voxels (or the water field) change, so views know to rebuild
+  revision: number
+  // undo/redo of the voxel edits made through applyEdit
+  history: EditHistory
+  // each chunk's version right after generation: chunks whose version moved on have been edited
+  generatedVersions: Uint32Array
+  // unregisters the live erosion system, when it runs
+  stopErosion: (() => void) | null
+}
+
+type Cell = [number, number, number]
+
+// Everything a tool can do to the world. Positions are in world units, cells in voxel coordinates.
+export type WorldEdit =
+  // `point` is where the drill touches the face with outward `normal`
+  | { type: 'drill'; cell: Cell; normal: Cell; point: Cell }
+  | { type: 'set'; cell: Cell; material: MaterialId }
+  // the shaping tools leave bedrock alone
+  | { type: 'dig'; cell: Cell }
+  | { type: 'fill'; cell: Cell; radius: number; shape: FillShape; material: MaterialId }
+  | { type: 'flatten'; cell: Cell; radius: number; material: MaterialId }
+  | { type: 'vent'; cell: Cell; rate?: number }
+  // debris at rest, written back into the grid where the physics left it
+  | { type: 'deposit'; fragments: DebrisFragment[] }
+  | { type: 'water'; position: Cell; volume: number }
+
+export type EditResult = {
+  // whether voxels changed (vents and water only add to their fields)
+  changed: boolean
+  // pieces knocked loose by the edit and its collapse, for a physics view to simulate
+  fragments: DebrisFragment[]
+  collapse: CollapseEvent | null
+}
+
+const NO_CHANGE: EditResult = { changed: false, fragments: [], collapse: null }
+
+function registerWorldSystems(world: World) {
+  const { scheduler } = world
+  registerSystem(scheduler, {
+    id: 'solar',
+    step: SOLAR_STEP,
+    catchUp: 'stretch',
+    tick: (dt) => {
+      advanceClock(world.clock, dt)
+      updateSurfaceClimate(world.climate, world.terrain.heights, sunDirection(world.clock.hours, sun), world.clock.hours)
+    },
+  })
+  registerSystem(scheduler, {
+    id: 'weather',
+    step: WEATHER_STEP,
+    catchUp: 'stretch',
+    tick: (dt) => {
+      stepWeather(world.weather, dt)
+      rainOnTerrain(world.weather, world.water, world.terrain.store, world.terrain.heights, dt)
+    },
+  })
+  registerSystem(scheduler, {
+    id: 'lava',
+    step: LAVA_STEP,
+    maxTicksPerFrame: 3,
+    tick: () => {
+      if (stepLava(world.lava, world.terrain) > 0) world.revision++
+    },
+  })
+  registerSystem(scheduler, {
+    id: 'water',
+    step: WATER_STEP,
+    maxTicksPerFrame: 3,
+    tick: () => stepWater(world.water, world.terrain.store),
+  })
+}
+
+// Generates the planet for `seed` and sets up every simulation system on a fresh clock.
+export function createWorld(seed: number, options: WorldOptions = {}): World {
+  const { layers = planetLayers(options), seaLevel = SEA_LEVEL, erosionSpeed = 0, collapseStyle = 'blocks' } = options
+  const terrain = generatePlanet(seed, layers)
+  const columns = createColumnIndex(terrain.store)
+  const clock = createSolarClock()
+  const world: World = {
+    seed,
+    terrain,
+    columns,
+    erosion: createErosionField(terrain.store, terrain.heights, columns),
+    lava: createLavaField(terrain.store),
+    water: createWaterField(terrain.store, terrain.heights, seaLevel),
+    clock,
+    climate: createSurfaceClimate(terrain.heights, clock.hours),
+    weather: createWeather(seed),
+    scheduler: createScheduler(),
+    collapseStyle,
+    erosionSpeed: 0,
+    erosionRandom: createRng(seed, 'erosion-live'),
+    revision: 0,
+    history: createHistory(),
+    generatedVersions: Uint32Array.from(terrain.store.chunks, (chunk) => chunk.version),
+    stopErosion: null,
+  }
+  registerWorldSystems(world)
+  setErosionSpeed(world, erosionSpeed)
+  return world
+}
+
+// Starts, retimes or (at 0) stops live erosion, one iteration per tick.
+export function setErosionSpeed(world: World, speed: number) {
+  if (speed === world.erosionSpeed) return
+  world.stopErosion?.()
+  world.stopErosion = null
+  world.erosionSpeed = speed
+  if (speed <= 0) return
+  world.stopErosion = registerSystem(world.scheduler, {
+    id: 'erosion',
+    step: 1 / speed,
+    maxTicksPerFrame: 4,
+    tick: () => {
+      if (erodeTerrain(world.erosion, world.terrain, world.columns, world.erosionRandom, 1) > 0) world.revision++
+    },
+  })
+}
+
+// Refills the ocean to a new level; dynamic water poured so far is lost.
+export function setSeaLevel(world: World, seaLevel: number) {
+  world.water = createWaterField(world.terrain.store, world.terrain.heights, seaLevel)
+  world.revision++
+}
+
+// Runs `steps` × WORLD_STEP seconds of simulated time, whatever the scheduler's pause and scale.
+export function tickWorld(world: World, steps = 1) {
+  for (let i = 0; i < steps; i++) tickScheduler(world.scheduler, WORLD_STEP)
+}
+
+export function queryVoxel(world: World, x: number, y: number, z: number) {
+  return getVoxel(world.terrain.store, x, y, z)
+}
+
+// Whatever an edit undermined comes down with it; the walkable surface follows what is left.
+function settle(world: World, cells: Cell[], fragments: DebrisFragment[]): EditResult {
+  const { store, heights } = world.terrain
+  const collapse = collapseUnsupported(store, { near: cells })
+  if (collapse) fragments.push(...fragmentsFromVoxels(collapse.voxels, world.collapseStyle, store.subdiv))
+  const edited = [...cells, ...(collapse?.voxels.map((voxel) => voxel.position) ?? [])]
+  refreshColumnHeights(store, heights, world.columns, cellsOfVoxels(edited))
+  // placed ground raises its column, innermost first so stacked voxels climb one on another
+  const placed = cells.filter(([x, y, z]) => getVoxel(store, x, y, z) !== MATERIAL.air)
+  placed.sort((a, b) => Math.hypot(...a) - Math.hypot(...b))
+  for (const [x, y, z] of placed) raiseColumnHeight(heights, x, y, z)
+  world.revision++
+  return { changed: true, fragments, collapse }
+}
+
+// Applies a tool's edit. Voxel changes, collapse included, are recorded as one undo step; the
+// rubble of its debris joins that step when it comes to rest before anything else is edited.
+export function applyEdit(world: World, edit: WorldEdit): EditResult {
+  const { store, heights } = world.terrain
+  const heightsBefore = heights.slice()
+  startRecording(store)
+  const result = runEdit(world, edit)
+  const command = stopRecording(store, edit.type, heightsBefore, heights)
+  if (!command) return result
+  if (edit.type === 'deposit') extendCommand(world.history, edit.fragments[0]?.source, command)
+  else pushCommand(world.history, command)
+  // inside a drag the step is the drag's
+  const source = world.history.group ?? command
+  for (const fragment of result.fragments) fragment.source = source
+  return result
+}
+
+function runEdit(world: World, edit: WorldEdit): EditResult {
+  const { store } = world.terrain
+  switch (edit.type) {
+    case 'drill': {
+      const [vx, vy, vz] = edit.cell
+      const material = getVoxel(store, vx, vy, vz)
+      if (!isDrillable(material)) return NO_CHANGE
+      // touch point relative to the voxel centre, in voxel units (-0.5..0.5)
+      const local: Cell = [edit.point[0] / VOXEL_SIZE - vx, edit.point[1] / VOXEL_SIZE - vy, edit.point[2] / VOXEL_SIZE - vz]
+      // harder rock gives up fewer layers per pass
+      const removed = drillVoxel(store, vx, vy, vz, edit.normal, local, drillDepth(material, store.subdiv))
+      if (removed.length === 0) return NO_CHANGE
+      return settle(world, [edit.cell], fragmentsFromCells(removed, edit.normal))
+    }
+    case 'set': {
+      const [x, y, z] = edit.cell
+      if (!setVoxel(store, x, y, z, edit.material)) return NO_CHANGE
+      return settle(world, [edit.cell], [])
+    }
+    case 'dig': {
+      const [x, y, z] = edit.cell
+      if (!shapeVoxel(store, x, y, z, MATERIAL.air)) return NO_CHANGE
+      return settle(world, [edit.cell], [])
+    }
+    case 'fill':
+    case 'flatten': {
+      const cells =
+        edit.type === 'fill'
+          ? fillRegion(store, edit.cell, edit.radius, edit.shape, edit.material)
+          : flattenRegion(store, edit.cell, edit.radius, edit.material)
+      if (cells.length === 0) return NO_CHANGE
+      return settle(world, cells, [])
+    }
+    case 'deposit': {
+      const cells: Cell[] = []
+      for (const { position, half, material } of edit.fragments) {
+        if (!depositFragment(store, position, half, material)) continue
+        cells.push(position.map((v) => Math.round(v / VOXEL_SIZE)) as Cell)
+      }
+      if (cells.length === 0) return NO_CHANGE
+      // rubble builds the ground up; it rests where it landed, so it isn't checked for support
+      for (const [x, y, z] of cells) raiseColumnHeight(world.terrain.heights, x, y, z)
+      world.revision++
+      return { changed: true, fragments: [], collapse: null }
+    }
+    case 'vent':
+      addVent(world.lava, store, edit.cell, edit.rate)
+      return NO_CHANGE
+    case 'water':
+      addWater(world.water, store, edit.position, edit.volume)
+      return NO_CHANGE
+  }
+}
+
+// Lays one side of a recorded command over the world; nothing collapses, the states were settled.
+function layCommand(world: World, command: EditCommand, side: 'before' | 'after') {
+  applyCommand(world.terrain.store, world.terrain.heights, command, side)
+  world.revision++
+}
+
+// Takes back the last edit (or drag); false when there is nothing to undo.
+export function undoEdit(world: World) {
+  const command = takeUndo(world.history)
+  if (command) layCommand(world, command, 'before')
+  return command !== null
+}
+
+export function redoEdit(world: World) {
+  const command = takeRedo(world.history)
+  if (command) layCommand(world, command, 'after')
+  return command !== null
+}
+
+// Redoes recorded commands, oldest first, on a world generated like the one they were recorded on,
+// e.g. a world's undo stack (world.history.undo) on a fresh copy of it. They don't become undo steps.
+export function replayEdits(world: World, commands: EditCommand[]) {
+  for (const command of commands) layCommand(world, command, 'after')
+}
+
+// Everything edited since generation, to be laid back over the same seed by restoreWorld.
+export function saveWorld(world: World, params: GeneratorParams): WorldSave {
+  const { store, heights } = world.terrain
+  const chunks: WorldSave['chunks'] = []
+  store.chunks.forEach((chunk, index) => {
+    if (chunk.version !== world.generatedVersions[index]) chunks.push({ index, data: toBase64(encodeRuns(chunk.data)) })
+  })
+  const partial = Array.from(store.partial, ([voxel, cells]) => ({ voxel, cells: toBase64(cells) }))
+  return {
+    format: SAVE_FORMAT,
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    generator: { ...params, seed: world.seed, version: GENERATOR_VERSION },
+    state: { seaLevel: world.water.seaLevel, hours: world.clock.hours, time: world.scheduler.time },
+    chunks,
+    partial,
+    heights: toBase64(new Uint8Array(heights.buffer, heights.byteOffset, heights.byteLength)),
+    history: world.history.undo.slice(-SAVED_HISTORY_STEPS).map((command) => encodeCommand(command)),
+  }
+}
+
+// Lays a save over a world freshly generated from its seed and parameters (see saveMatches).
+// Throws on data that doesn't fit this world.
+export function restoreWorld(world: World, save: WorldSave) {
+  const { store, heights } = world.terrain
+  const volume = CHUNK_SIZE ** 3
+  for (const { index, data } of save.chunks) {
+    const chunk = store.chunks[index]
+    if (!chunk) throw new Error('Chunk fora do mundo')
+    const voxels = decodeRuns(fromBase64(data), volume)
+    const x0 = store.min + chunk.cx * CHUNK_SIZE
+    const y0 = store.min + chunk.cy * CHUNK_SIZE
+    const z0 = store.min + chunk.cz * CHUNK_SIZE
+    // same layout as the chunk's data: x-major, then y, then z
+    for (let i = 0; i < volume; i++) {
+      setVoxel(store, x0 + Math.floor(i / (CHUNK_SIZE * CHUNK_SIZE)), y0 + (Math.floor(i / CHUNK_SIZE) % CHUNK_SIZE), z0 + (i % CHUNK_SIZE), voxels[i])
+    }
+  }
+  for (const { voxel, cells } of save.partial) {
+    const [x, y, z] = voxelFromIndex(store, voxel)
+    setPartial(store, x, y, z, fromBase64(cells))
+  }
+  const savedHeights = fromBase64(save.heights)
+  if (savedHeights.length !== heights.byteLength) throw new Error('Mapa de alturas de outro tamanho')
+  heights.set(new Float32Array(savedHeights.buffer))
+
+  world.history = createHistory(world.history.maxBytes)
+  for (const saved of save.history) pushCommand(world.history, decodeCommand(saved))
+
+  // what was derived from the generated terrain follows the restored one; flowing lava and
+  // dynamic water aren't saved, so none from before the load is left
+  world.columns = createColumnIndex(store)
+  world.erosion = createErosionField(store, heights, world.columns)
+  world.lava = createLavaField(store)
+  world.clock.hours = save.state.hours
+  world.climate = createSurfaceClimate(heights, world.clock.hours)
+  world.scheduler.time = save.state.time
+  setSeaLevel(world, save.state.seaLevel)
+}
@@ -0,0 +1,66 @@
+// Batch kernels over typed arrays. These JS versions are the reference: the WASM build in
+// assembly/kernels.ts must give bit-identical results (the loader checks it before switching).
+// Bump KERNEL_VERSION whenever a signature or a result changes, on both sides.
+export const KERNEL_VERSION = 1
+
+export type TalusParams = {
+  rows: number
+  cols: number
+  // distance between cell centres along a meridian, and along each row's parallel
+  latSpacing: number
+  lonSpacings: Float64Array
+  // steepest stable slope (rise over run) and the share of the excess moved per sweep
+  talus: number
+  rate: number
+}
+
+export type Kernels = {
+  // One thermal-erosion sweep over a lat/lon heightfield: wherever a cell stands more than the
+  // talus slope above one of its 4 neighbours, part of the excess (never below `floor`) slides down.
+  talus: (heights: Float32Array, floor: Float32Array, deposits: Float32Array, changed: Uint8Array, params: TalusParams) => void
+  // Adds max(0, normal · sun) × irradiance × weight to every cell; `normals` holds 3 floats per cell.
+  insolation: (normals: Float32Array, target: Float32Array, sun: readonly number[], irradiance: number, weight: number) => void
+}
+
+function move(heights: Float32Array, deposits: Float32Array, changed: Uint8Array, cell: number, amount: number) {
+  heights[cell] += amount
+  deposits[cell] = Math.max(0, deposits[cell] + amount)
+  changed[cell] = 1
+}
+
+const TALUS_NEIGHBOURS = [
+  [-1, 0],
+  [1, 0],
+  [0, -1],
+  [0, 1],
+] as const
+
+export const jsKernels: Kernels = {
+  talus: (heights, floor, deposits, changed, { rows, cols, latSpacing, lonSpacings, talus, rate }) => {
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const cell = row * cols + col
+        for (const [dr, dc] of TALUS_NEIGHBOURS) {
+          // rows clamp at the poles, columns wrap around the date line
+          const nRow = Math.min(rows - 1, Math.max(0, row + dr))
+          const nCol = (((col + dc) % cols) + cols) % cols
+          const n = nRow * cols + nCol
+          if (n === cell) continue
+          const limit = talus * (dr !== 0 ? latSpacing : lonSpacings[row])
+          const excess = heights[cell] - heights[n] - limit
+          if (excess <= 0) continue
+          const amount = Math.min(excess * rate * 0.5, heights[cell] - floor[cell])
+          if (amount <= 0) continue
+          move(heights, deposits, changed, cell, -amount)
+          move(heights, deposits, changed, n, amount)
+        }
+      }
+    }
+  },
+  insolation: (normals, target, sun, irradiance, weight) => {
+    for (let cell = 0; cell < target.length; cell++) {
+      const cosZenith = normals[cell * 3] * sun[0] + normals[cell * 3 + 1] * sun[1] + normals[cell * 3 + 2] * sun[2]
+      target[cell] += Math.max(0, cosZenith) * irradiance * weight
+    }
+  },
+}
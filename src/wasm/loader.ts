@@ -1,38 +1,191 @@
-export type WasmModuleExports = {
-  // example signature: compute interaction intensity between two points
-  compute_interaction?: (ax: number, ay: number, az: number, bx: number, by: number, bz: number) => number
-}
-
-let wasmInstance: WasmModuleExports | null = null
-
-export async function loadWasm(basePath = '/') {
-  if (wasmInstance) return wasmInstance
-  const wasmUrl = basePath + 'wasm/interaction.wasm'
-  try {
-    if ('instantiateStreaming' in WebAssembly) {
-      const resp = await fetch(wasmUrl)
-      const result = await WebAssembly.instantiateStreaming(resp, {})
-      // @ts-ignore
-      wasmInstance = result.instance.exports as WasmModuleExports
-    } else {
-      const bytes = await fetch(wasmUrl).then((r) => r.arrayBuffer())
-      const result = await WebAssembly.instantiate(bytes, {})
-      // @ts-ignore
-      wasmInstance = result.instance.exports as WasmModuleExports
-    }
-    return wasmInstance
-  } catch (e) {
-    console.warn('WASM module not found or failed to load, falling back to JS. Error:', e)
-    // Provide JS fallback implementation
-    wasmInstance = {
-      compute_interaction: (ax, ay, az, bx, by, bz) => {
-        const dx = ax - bx
-        const dy = ay - by
-        const dz = az - bz
-        const d2 = dx * dx + dy * dy + dz * dz
-        return 1 / (1 + Math.sqrt(d2))
-      },
-    }
-    return wasmInstance
+import { mulberry32 } from '../scene/utils/rng'
+import { KERNEL_VERSION, jsKernels } from './kernels'
+import type { Kernels, TalusParams } from './kernels'
+
+// What the AssemblyScript build (assembly/kernels.ts) exports. Arrays are passed as addresses into
+// its linear memory: `alloc` hands out space and `reset` frees all of it before the next call.
+type WasmKernelExports = {
+  memory: WebAssembly.Memory
+  kernel_version: () => number
+  alloc: (bytes: number) => number
+  reset: () => void
+  talus: (
+    heights: number,
+    floor: number,
+    deposits: number,
+    changed: number,
+    lonSpacings: number,
+    rows: number,
+    cols: number,
+    latSpacing: number,
+    talus: number,
+    rate: number,
+  ) => void
+  insolation: (
+    normals: number,
+    target: number,
+    count: number,
+    sunX: number,
+    sunY: number,
+    sunZ: number,
+    irradiance: number,
+    weight: number,
+  ) => void
+}
+
+const REQUIRED_FUNCTIONS = ['kernel_version', 'alloc', 'reset', 'talus', 'insolation'] as const
+
+export type KernelBackend = {
+  name: 'wasm' | 'js'
+  version: number
+  // why the JS kernels are in use, when they are
+  reason?: string
+}
+
+let kernels: Kernels = jsKernels
+let backend: KernelBackend = { name: 'js', version: KERNEL_VERSION, reason: 'WASM ainda não carregado' }
+let loading: Promise<KernelBackend> | null = null
+
+// The kernels the simulation should call right now: the JS ones until loadKernels swaps in WASM.
+export function getKernels() {
+  return kernels
+}
+
+export function getKernelBackend() {
+  return backend
+}
+
+function hasKernelExports(exports: WebAssembly.Exports): exports is WasmKernelExports {
+  return exports.memory instanceof WebAssembly.Memory && REQUIRED_FUNCTIONS.every((name) => typeof exports[name] === 'function')
+}
+
+type TypedArray = Float32Array | Float64Array | Uint8Array
+
+function bytesOf(array: TypedArray) {
+  return new Uint8Array(array.buffer, array.byteOffset, array.byteLength)
+}
+
+// Copies `array` into linear memory and returns its address. Views on memory.buffer are taken
+// fresh every time because an allocation may grow (and so replace) the buffer.
+function place(wasm: WasmKernelExports, array: TypedArray) {
+  const address = wasm.alloc(array.byteLength)
+  new Uint8Array(wasm.memory.buffer, address, array.byteLength).set(bytesOf(array))
+  return address
+}
+
+function copyBack(wasm: WasmKernelExports, address: number, array: TypedArray) {
+  bytesOf(array).set(new Uint8Array(wasm.memory.buffer, address, array.byteLength))
+}
+
+function wrapKernels(wasm: WasmKernelExports): Kernels {
+  return {
+    talus: (heights, floor, deposits, changed, { rows, cols, latSpacing, lonSpacings, talus, rate }) => {
+      wasm.reset()
+      const h = place(wasm, heights)
+      const f = place(wasm, floor)
+      const d = place(wasm, deposits)
+      const c = place(wasm, changed)
+      const s = place(wasm, lonSpacings)
+      wasm.talus(h, f, d, c, s, rows, cols, latSpacing, talus, rate)
+      copyBack(wasm, h, heights)
+      copyBack(wasm, d, deposits)
+      copyBack(wasm, c, changed)
+    },
+    insolation: (normals, target, sun, irradiance, weight) => {
+      wasm.reset()
+      const n = place(wasm, normals)
+      const t = place(wasm, target)
+      wasm.insolation(n, t, target.length, sun[0], sun[1], sun[2], irradiance, weight)
+      copyBack(wasm, t, target)
+    },
+  }
+}
+
+function sameBytes(a: TypedArray, b: TypedArray) {
+  const x = bytesOf(a)
+  const y = bytesOf(b)
+  return x.length === y.length && x.every((v, i) => v === y[i])
+}
+
+// Runs every kernel on the same seeded input through both backends; returns the name of the
+// first one whose output differs, or null when all match bit for bit.
+function parityFailure(candidate: Kernels) {
+  const random = mulberry32(KERNEL_VERSION)
+  const rows = 8
+  const cols = 16
+  const cells = rows * cols
+  const params: TalusParams = {
+    rows,
+    cols,
+    latSpacing: 1,
+    lonSpacings: Float64Array.from({ length: rows }, () => 0.2 + random()),
+    talus: 1.2,
+    rate: 0.25,
+  }
+  const heights = Float32Array.from({ length: cells }, () => 16 + random() * 8)
+  const floor = heights.map((h) => h - random() * 3)
+  const runs = [jsKernels, candidate].map((k) => {
+    const out = { heights: heights.slice(), deposits: new Float32Array(cells), changed: new Uint8Array(cells) }
+    k.talus(out.heights, floor, out.deposits, out.changed, params)
+    return out
+  })
+  const [a, b] = runs
+  if (!sameBytes(a.heights, b.heights) || !sameBytes(a.deposits, b.deposits) || !sameBytes(a.changed, b.changed)) {
+    return 'talus'
   }
+
+  const normals = Float32Array.from({ length: cells * 3 }, () => random() * 2 - 1)
+  const sun = [random() - 0.5, random() - 0.5, random() - 0.5]
+  const start = Float32Array.from({ length: cells }, () => random() * 100)
+  const targets = [jsKernels, candidate].map((k) => {
+    const target = start.slice()
+    k.insolation(normals, target, sun, 1000, 0.5)
+    return target
+  })
+  return sameBytes(targets[0], targets[1]) ? null : 'insolation'
+}
+
+// Instantiates the AssemblyScript module and checks its exports and version. The kernels it returns
+// haven't been compared with the JS ones yet. Returns why the module can't be used otherwise.
+export async function compileKernels(bytes: BufferSource): Promise<Kernels | string> {
+  const { instance } = await WebAssembly.instantiate(bytes, {
+    env: {
+      abort: () => {
+        throw new Error('WASM kernel aborted')
+      },
+    },
+  })
+  const { exports } = instance
+  if (!hasKernelExports(exports)) return 'exports em falta no módulo WASM'
+  const version = exports.kernel_version()
+  if (version !== KERNEL_VERSION) return `versão WASM ${version}, esperada ${KERNEL_VERSION}`
+  return wrapKernels(exports)
+}
+
+async function instantiate(url: string): Promise<Kernels | string> {
+  const response = await fetch(url)
+  if (!response.ok) return `${url} não encontrado (${response.status})`
+  const wrapped = await compileKernels(await response.arrayBuffer())
+  if (typeof wrapped === 'string') return wrapped
+  const failed = parityFailure(wrapped)
+  if (failed) return `kernel ${failed} diverge do JS`
+  return wrapped
+}
+
+// Loads public/wasm/kernels.wasm and switches to it once its exports, version and results check out.
+// Falls back to (and stays on) the JS kernels otherwise; safe to call more than once.
+export function loadKernels(basePath = '/') {
+  loading ??= instantiate(basePath + 'wasm/kernels.wasm')
+    .catch((error: unknown) => (error instanceof Error ? error.message : String(error)))
+    .then((result) => {
+      if (typeof result === 'string') {
+        backend = { name: 'js', version: KERNEL_VERSION, reason: result }
+        console.warn('WASM kernels unavailable, using JS:', result)
+      } else {
+        kernels = result
+        backend = { name: 'wasm', version: KERNEL_VERSION }
+      }
+      return backend
+    })
+  return loading
 }